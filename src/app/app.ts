@@ -3,15 +3,38 @@ import Stats from 'three/addons/libs/stats.module.js';
 import { createComposer } from './postprocessing';
 import { Player } from './player';
 import { SkyController } from './sky/sky';
+import { WorldConfig } from './config/world-config';
 import { Terrain } from './terrain/terrain';
 import { createRenderer } from './renderer';
+import { SculptEditor } from './sculpt-editor';
+import { PathEditor } from './path-editor';
+import { SaveManager } from './save/save-manager';
+import { SaveStore } from './save/save-store';
+import { WorldSave } from './save/world-save';
+import { applyWorldSave } from './save/world-state';
+import { HeightGrid } from './terrain/height-sources/height-source';
+import { RegionExporter } from './export/region-exporter';
+import { MapSampler } from './map/map-sampler';
+import { Minimap } from './map/minimap';
+import { WorldMap } from './map/world-map';
+import { AssetReport } from './assets/asset-preloader';
 
-export function startApp(container: HTMLDivElement): void {
+export function startApp(
+  container: HTMLDivElement,
+  config: WorldConfig,
+  // Loaded before startup: the assets, heightmap, save to resume, save slots.
+  startup: {
+    assets: AssetReport;
+    heightGrid: HeightGrid | null;
+    save: WorldSave | null;
+    store: SaveStore;
+  },
+): void {
   const stats = new Stats();
   container.append(stats.dom);
 
   const scene = new THREE.Scene();
-  scene.fog = new THREE.FogExp2('#e0e0e0', 0.0025);
+  scene.fog = new THREE.FogExp2(config.sky.fogColor, config.sky.fogDensity);
 
   const camera = new THREE.PerspectiveCamera(
     75,
@@ -25,11 +48,17 @@ export function startApp(container: HTMLDivElement): void {
   const composer = createComposer(renderer, scene, camera);
 
   // Sky, lighting and shadows
-  const skyController = new SkyController();
+  const skyController = new SkyController(config);
   scene.add(skyController);
 
   // Terrain
-  const terrain = new Terrain(skyController);
+  const terrain = new Terrain(
+    skyController,
+    config,
+    startup.heightGrid,
+    startup.assets,
+    renderer,
+  );
   scene.add(terrain);
 
   // Player (pointer-lock + movement)
@@ -37,25 +66,95 @@ export function startApp(container: HTMLDivElement): void {
   const instructions = document.getElementById('instructions');
 
   const player = new Player(camera, document.body, {
-    gravity: 9.81,
+    ...config.player,
     ground: terrain.getHeightAt.bind(terrain),
-    height: 1.8,
-    jumpVelocity: 2,
-    speed: 200,
+    minLevel: config.water.level,
   });
   // Place player above terrain at start
-  player.object.position.set(0, terrain.getHeightAt(0, 0) + 1.8, 0);
+  player.object.position.set(
+    0,
+    terrain.getHeightAt(0, 0) + config.player.height,
+    0,
+  );
   player.enablePointerLockUI(blocker, instructions);
   scene.add(player.object);
 
+  // Resumed worlds pick up where they were left; autosaves keep them current
+  const parts = { config, player, sky: skyController, terrain };
+  if (startup.save) applyWorldSave(startup.save, parts);
+  const saveManager = new SaveManager({
+    config: config.save,
+    parts,
+    store: startup.store,
+  });
+
+  // Terrain sculpting, toggled with E
+  const editor = new SculptEditor({
+    camera,
+    config,
+    hud: document.getElementById('sculpt-hud'),
+    // The two editors share the mouse and keys, so only one is on at a time.
+    onEnable: () => {
+      pathEditor.setEnabled(false);
+    },
+    terrain,
+  });
+  scene.add(editor);
+
+  // Path laying, toggled with P
+  const pathEditor = new PathEditor({
+    camera,
+    config,
+    hud: document.getElementById('path-hud'),
+    onEnable: () => {
+      editor.setEnabled(false);
+    },
+    terrain,
+  });
+  scene.add(pathEditor);
+
+  // Region export around the player, with Ctrl+X
+  const exporter = new RegionExporter({
+    config,
+    target: player.object,
+    terrain,
+  });
+  document.addEventListener('keydown', (event) => {
+    if (!(event.ctrlKey || event.metaKey) || event.code !== 'KeyX') return;
+    event.preventDefault();
+    exporter.export();
+  });
+
+  // Corner minimap, and the world map toggled with M
+  const mapSampler = new MapSampler(terrain);
+  const minimap = new Minimap({
+    camera,
+    canvas: document.querySelector<HTMLCanvasElement>('#minimap'),
+    config: config.map,
+    sampler: mapSampler,
+    terrain,
+  });
+  const worldMap = new WorldMap({
+    camera,
+    canvas: document.querySelector<HTMLCanvasElement>('#world-map'),
+    config,
+    info: document.getElementById('world-map-info'),
+    sampler: mapSampler,
+  });
+
   const clock = new THREE.Clock();
 
   renderer.setAnimationLoop(() => {
     const delta = clock.getDelta();
     skyController.update(camera, delta);
     player.update(delta);
+    editor.update(delta);
+    pathEditor.update();
+    saveManager.update(delta);
     terrain.updatePlayerPosition(player.object.position);
     terrain.update(camera, delta);
+    minimap.update(delta);
+    worldMap.update();
     composer.render();
     stats.update();
   });
@@ -0,0 +1,140 @@
+import { FlowerModelKind } from '../terrain/flowers/flower-models';
+
+// A Wavefront model: its geometry, its materials and the images they name.
+export type ModelAsset = {
+  basePath: string;
+  objectFile: string;
+  mtlFile: string;
+  // Images the materials use, relative to `basePath`.
+  textures: readonly string[];
+  // Scale taking the model's units to one of ours.
+  modelScale: number;
+};
+
+export type TextureAssetId = 'grassBlade' | 'grassAlpha' | 'waterNormals';
+
+// Every model and texture the app loads at runtime, by what uses it.
+export type AssetManifest = {
+  models: Record<FlowerModelKind, ModelAsset>;
+  textures: Record<TextureAssetId, string>;
+};
+
+export const assetManifest: AssetManifest = {
+  models: {
+    anemone: {
+      basePath: '/src/assets/models/anemone_flower/',
+      modelScale: 0.1,
+      mtlFile: '12973_anemone_flower_v1_l2.mtl',
+      objectFile: '12973_anemone_flower_v1_l2.obj',
+      textures: ['12973_anemone_flower_diff.jpg'],
+    },
+    crocus: {
+      basePath: '/src/assets/models/crocus_flower/',
+      modelScale: 0.1,
+      mtlFile: '12974_crocus_flower_v1_l3.mtl',
+      objectFile: '12974_crocus_flower_v1_l3.obj',
+      textures: ['12974_crocus_flower_diff.jpg'],
+    },
+    daffodil: {
+      basePath: '/src/assets/models/daffodil_flower/',
+      modelScale: 0.3,
+      mtlFile: '12977_Daffodil_flower_v1_l2.mtl',
+      objectFile: '12977_Daffodil_flower_v1_l2.obj',
+      textures: ['12977_Daffodil_Flower_diff.jpg'],
+    },
+    daisy: {
+      basePath: '/src/assets/models/daisy/',
+      modelScale: 0.2,
+      mtlFile: '10441_Daisy_v1_max2010_iteration-2.mtl',
+      objectFile: '10441_Daisy_v1_max2010_iteration-2.obj',
+      textures: ['10441_Daisy_v1_Diffuse.jpg'],
+    },
+    dandelion: {
+      basePath: '/src/assets/models/dandelion_flower/',
+      modelScale: 1,
+      mtlFile: '12971_Dandelion_Flower_v1_l2.mtl',
+      objectFile: '12971_Dandelion_Flower_v1_l2.obj',
+      textures: ['12971-dandelionFlower_diffuse.jpg'],
+    },
+    rock: {
+      basePath: '/src/assets/models/rock/',
+      modelScale: 1,
+      mtlFile: 'Rock1.mtl',
+      objectFile: 'Rock1.obj',
+      textures: ['Rock-Texture-Surface.jpg'],
+    },
+    snowdrop: {
+      basePath: '/src/assets/models/snowdrop_flower/',
+      modelScale: 0.5,
+      mtlFile: '12970_snowdrop_flower_v1_l2.mtl',
+      objectFile: '12970_snowdrop_flower_v1_l2.obj',
+      textures: [
+        'snowdrop_flower_diffuse.jpg',
+        'snowdrop_flower_specular.jpg',
+        'snowdrop_flower_bump.jpg',
+      ],
+    },
+  },
+  textures: {
+    grassAlpha: '/src/assets/models/grass/blade_alpha.jpg',
+    grassBlade: '/src/assets/models/grass/blade_diffuse.jpg',
+    waterNormals: '/src/assets/models/water/waternormals.jpg',
+  },
+};
+
+const imageExtensions = ['.jpg', '.jpeg', '.png', '.webp'];
+
+function hasExtension(file: string, extensions: readonly string[]) {
+  const lower = file.toLowerCase();
+  return extensions.some((extension) => lower.endsWith(extension));
+}
+
+// URLs of a model's files: geometry, materials, then textures.
+function modelAssetUrls(model: ModelAsset) {
+  const { basePath, objectFile, mtlFile, textures } = model;
+  return [objectFile, mtlFile, ...textures].map((file) => basePath + file);
+}
+
+// Every file `manifest` names, models first.
+export function assetUrls(manifest: AssetManifest) {
+  return [
+    ...Object.values(manifest.models).flatMap((model) => modelAssetUrls(model)),
+    ...Object.values(manifest.textures),
+  ];
+}
+
+/**
+ * Checks that every entry of `manifest` is well formed, throwing an error
+ * that lists each problem. Whether the files are there is for preloading to
+ * find out.
+ */
+export function validateAssetManifest(manifest: AssetManifest) {
+  const problems: string[] = [];
+  for (const [kind, model] of Object.entries(manifest.models)) {
+    const { basePath, objectFile, mtlFile, textures, modelScale } = model;
+    const path = `models.${kind}`;
+    if (!basePath.startsWith('/') || !basePath.endsWith('/'))
+      problems.push(`${path}.basePath must start and end with /`);
+    for (const file of [objectFile, mtlFile, ...textures])
+      if (file.includes('/'))
+        problems.push(`${path} file ${file} must sit in basePath`);
+    if (!hasExtension(objectFile, ['.obj']))
+      problems.push(`${path}.objectFile must be an .obj file`);
+    if (!hasExtension(mtlFile, ['.mtl']))
+      problems.push(`${path}.mtlFile must be an .mtl file`);
+    for (const file of textures)
+      if (!hasExtension(file, imageExtensions))
+        problems.push(`${path} texture ${file} must be an image`);
+    if (!Number.isFinite(modelScale) || modelScale <= 0)
+      problems.push(`${path}.modelScale must be positive`);
+  }
+  for (const [id, url] of Object.entries(manifest.textures))
+    if (!url.startsWith('/') || !hasExtension(url, imageExtensions))
+      problems.push(`textures.${id} must be an absolute image path`);
+  const urls = assetUrls(manifest);
+  for (const [index, url] of urls.entries())
+    if (urls.indexOf(url) !== index)
+      problems.push(`${url} is listed more than once`);
+  if (problems.length > 0)
+    throw new Error(`Invalid asset manifest: ${problems.join('; ')}`);
+}
@@ -0,0 +1,81 @@
+import { AssetManifest, assetUrls } from './asset-manifest';
+
+// Files fetched so far, out of `total`.
+export type AssetProgress = (loaded: number, total: number) => void;
+
+// What preloading found: the URLs that could not be fetched.
+export type AssetReport = {
+  missing: ReadonlySet<string>;
+};
+
+const MTL_TEXTURE_KEYS = new Set(['bump', 'disp', 'refl']);
+
+// Images an .mtl file names: the last word of each map line, past options.
+function materialTextures(mtlText: string) {
+  return mtlText.split('\n').flatMap((line) => {
+    const [key = '', ...values] = line.trim().split(/\s+/u);
+    const lower = key.toLowerCase();
+    const isMap = lower.startsWith('map_') || MTL_TEXTURE_KEYS.has(lower);
+    return isMap ? values.slice(-1) : [];
+  });
+}
+
+async function fetchAsset(url: string) {
+  const response = await fetch(url);
+  // The dev server answers unknown paths with the app's page.
+  const type = response.headers.get('content-type') ?? '';
+  if (!response.ok || type.startsWith('text/html'))
+    throw new Error(`${url}: ${String(response.status)} ${type}`);
+  return response;
+}
+
+// Warns about images `mtlText` names that the manifest does not list.
+function checkMaterialTextures(
+  mtlUrl: string,
+  mtlText: string,
+  listed: readonly string[],
+) {
+  for (const file of materialTextures(mtlText))
+    if (!listed.includes(file))
+      console.warn(`${mtlUrl} uses ${file}, which the asset manifest omits`);
+}
+
+/**
+ * Fetches every file in `manifest` into the browser cache, reporting each
+ * one done to `onProgress`. A file that fails is warned about and reported
+ * missing, so whatever uses it can fall back on a placeholder.
+ */
+export async function preloadAssets(options: {
+  manifest: AssetManifest;
+  onProgress: AssetProgress;
+}): Promise<AssetReport> {
+  const { manifest, onProgress } = options;
+  const urls = assetUrls(manifest);
+  const missing = new Set<string>();
+  let loaded = 0;
+  onProgress(loaded, urls.length);
+
+  const materials = new Map(
+    Object.values(manifest.models).map(({ basePath, mtlFile, textures }) => [
+      basePath + mtlFile,
+      textures,
+    ]),
+  );
+  await Promise.all(
+    urls.map(async (url) => {
+      try {
+        const response = await fetchAsset(url);
+        const textures = materials.get(url);
+        if (textures)
+          checkMaterialTextures(url, await response.text(), textures);
+        else await response.arrayBuffer();
+      } catch (error) {
+        missing.add(url);
+        console.warn(`Asset failed to load: ${String(error)}`);
+      }
+      loaded += 1;
+      onProgress(loaded, urls.length);
+    }),
+  );
+  return { missing };
+}
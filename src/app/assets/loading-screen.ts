@@ -0,0 +1,52 @@
+/**
+ * The overlay shown while assets preload: a bar and a count of files fetched.
+ * Startup warnings go to a separate notice that outlives it until clicked;
+ * a failure that stops startup stays on the overlay itself.
+ */
+export class LoadingScreen {
+  private readonly element: HTMLElement | null;
+  private readonly bar: HTMLProgressElement | null;
+  private readonly status: HTMLElement | null;
+  private readonly notice: HTMLElement | null;
+
+  constructor(options: {
+    element: HTMLElement | null;
+    bar: HTMLProgressElement | null;
+    status: HTMLElement | null;
+    notice: HTMLElement | null;
+  }) {
+    const { element, bar, status, notice } = options;
+    this.element = element;
+    this.bar = bar;
+    this.status = status;
+    this.notice = notice;
+    notice?.addEventListener('click', () => {
+      notice.hidden = true;
+    });
+  }
+
+  public progress(loaded: number, total: number) {
+    if (this.bar) this.bar.value = total > 0 ? loaded / total : 1;
+    if (this.status)
+      this.status.textContent = `Loading assets ${String(loaded)} / ${String(total)}`;
+  }
+
+  // Shows `message` in the notice, which stays up until it is clicked.
+  public warn(message: string) {
+    if (!this.notice) return;
+    this.notice.textContent = message;
+    this.notice.hidden = false;
+  }
+
+  // Shows why startup stopped in place of the progress, for good.
+  public fail(message: string) {
+    if (this.bar) this.bar.hidden = true;
+    if (this.status) this.status.textContent = message;
+    this.element?.classList.add('failed');
+  }
+
+  // Hides the overlay; missing files are left to the warnings.
+  public hide() {
+    if (this.element) this.element.hidden = true;
+  }
+}
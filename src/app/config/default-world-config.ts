@@ -0,0 +1,130 @@
+import { WorldConfig } from './world-config';
+
+export const defaultWorldConfig: WorldConfig = {
+  export: {
+    depth: 256,
+    heightmapFormat: 'png',
+    instances: 'trees',
+    modelFormat: 'glb',
+    width: 256,
+  },
+  heightmap: {
+    blend: 16,
+    centerX: 0,
+    centerZ: 0,
+    edges: 'noise',
+    high: 4,
+    low: 0,
+    rawWidth: 0,
+    source: 'noise',
+    spacing: 1,
+    url: '',
+  },
+  map: {
+    minimapCells: 128,
+    minimapInterval: 0.25,
+    minimapSize: 192,
+    worldMapFrameBudget: 8,
+    worldMapSampleSize: 6,
+    worldMapZoom: 4,
+  },
+  paths: {
+    falloff: 30,
+    surface: 'gravel',
+    width: 24,
+  },
+  player: {
+    bobAmplitudeX: 0.02,
+    bobAmplitudeY: 0.03,
+    bobFrequency: 8,
+    bobRotationZ: 0.03,
+    gravity: 9.81,
+    height: 1.8,
+    jumpVelocity: 2,
+    speed: 200,
+    sprintMultiplier: 10,
+  },
+  save: {
+    autosaveInterval: 60,
+    autosaveSlots: 3,
+  },
+  sculpt: {
+    brushRadius: 80,
+    brushStrength: 12,
+    historyLimit: 64,
+  },
+  sky: {
+    azimuth: 180,
+    cloudCount: 12,
+    cloudNoiseBasis: 'perlin',
+    cloudNoiseFractal: 'fbm',
+    elevation: 140,
+    fogColor: '#e0e0e0',
+    fogDensity: 0.0004,
+    lightColor: '#ffffff',
+  },
+  terrain: {
+    cellSize: 4096 / (200 - 1),
+    chunkCacheBudget: 64,
+    chunkRadius: 12,
+    chunkSize: 8,
+    detailAmplitude: 0.9,
+    detailNoiseScale: 0.06,
+    detailOctaves: 5,
+    detailPersistence: 0.5,
+    elevationExponent: 1.6,
+    erosionDroplets: 4000,
+    erosionThermalIterations: 8,
+    erosionTileSize: 64,
+    flatBlend: 0.12,
+    flatThreshold: 0.35,
+    heightScale: 36,
+    hillAmplitude: 2,
+    horizonRadius: 4096,
+    hydrologyRegionSize: 128,
+    horizonRings: 24,
+    horizonSegments: 128,
+    hillNoiseBasis: 'perlin',
+    hillNoiseFractal: 'fbm',
+    hillNoiseScale: 0.008,
+    hillOctaves: 5,
+    hillPersistence: 0.65,
+    lacunarity: 2,
+    lakeMinDepth: 4,
+    lodDistance: 3,
+    riverDepth: 3,
+    riverThreshold: 300,
+    riverWidth: 24,
+    rockSlope: 0.75,
+    seed: 42,
+    snowLine: 150,
+    splatTextureSize: 128,
+    splatTileSize: 8,
+    streamFrameBudget: 4,
+    warpScale: 0.004,
+    warpStrength: 0,
+  },
+  vegetation: {
+    biomeBlend: 0.2,
+    climateNoiseScale: 0.005,
+    densityNoiseBasis: 'perlin',
+    densityNoiseFractal: 'fbm',
+    flowerFadeDistance: 160,
+    flowerNoiseScale: 0.12,
+    grassBladeCount: 100_000,
+    maxFlowersPerChunk: 48,
+    maxTreesPerChunk: 16,
+    temperatureLapse: 0.0015,
+    treeImpostorDistance: 480,
+    treeNoiseOctaves: 3,
+    treeNoisePersistence: 0.55,
+    treeNoiseScale: 0.025,
+    treePoolSize: 8,
+  },
+  water: {
+    color: '#001e0f',
+    distortionScale: 3.7,
+    level: 16,
+    radius: 1024,
+  },
+};
@@ -0,0 +1,54 @@
+import { WorldConfig, WorldConfigOverrides } from './world-config';
+import { defaultWorldConfig } from './default-world-config';
+import {
+  createWorldConfig,
+  getWorldConfigFieldKind,
+} from './world-config-validation';
+
+export async function loadWorldConfigFile(
+  url: string,
+  base: WorldConfig,
+): Promise<WorldConfig> {
+  const response = await fetch(url);
+  if (!response.ok)
+    throw new Error(
+      `Failed to load world config ${url}: ${String(response.status)}`,
+    );
+  const json: unknown = await response.json();
+  return createWorldConfig(json, base);
+}
+
+/**
+ * Collect `section.key=value` query parameters (e.g. `?terrain.seed=7`) into
+ * config overrides. Parameters without a dot are ignored.
+ */
+export function parseWorldConfigQuery(
+  parameters: URLSearchParams,
+): WorldConfigOverrides {
+  const overrides: Record<string, Record<string, unknown>> = {};
+  for (const [name, raw] of parameters) {
+    const dot = name.indexOf('.');
+    if (dot === -1) continue;
+    const section = name.slice(0, dot);
+    const key = name.slice(dot + 1);
+    const kind = getWorldConfigFieldKind(section, key);
+    if (!kind) throw new Error(`Unknown setting ${name}`);
+    overrides[section] ??= {};
+    overrides[section][key] = kind === 'number' ? Number(raw) : raw;
+  }
+  return overrides;
+}
+
+/**
+ * Resolve the world config for a page load: defaults, then the JSON file
+ * named by `?config=<url>`, then individual query overrides.
+ */
+export async function resolveWorldConfig(
+  parameters: URLSearchParams,
+): Promise<WorldConfig> {
+  const url = parameters.get('config');
+  const fileConfig = url
+    ? await loadWorldConfigFile(url, defaultWorldConfig)
+    : defaultWorldConfig;
+  return createWorldConfig(parseWorldConfigQuery(parameters), fileConfig);
+}
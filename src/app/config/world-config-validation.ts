@@ -0,0 +1,273 @@
+import { WorldConfig } from './world-config';
+import { noiseBases, noiseFractals } from '../terrain/noise';
+import {
+  exportInstances,
+  heightmapExportFormats,
+  modelExportFormats,
+} from '../export/export-formats';
+import {
+  heightmapEdges,
+  heightmapFormats,
+} from '../terrain/height-sources/heightmap-height-source';
+import { pathSurfaces } from '../terrain/paths/terrain-path';
+
+type FieldRule =
+  | { kind: 'number'; min: number; max: number; integer: boolean }
+  | { kind: 'color' }
+  | { kind: 'string' }
+  | { kind: 'enum'; values: readonly string[] };
+
+type WorldConfigSchema = {
+  [Section in keyof WorldConfig]: Record<keyof WorldConfig[Section], FieldRule>;
+};
+
+function numberRule(min: number, max: number, integer: boolean): FieldRule {
+  return { integer, kind: 'number', max, min };
+}
+
+const colorRule: FieldRule = { kind: 'color' };
+const stringRule: FieldRule = { kind: 'string' };
+const basisRule: FieldRule = { kind: 'enum', values: noiseBases };
+const fractalRule: FieldRule = { kind: 'enum', values: noiseFractals };
+
+const worldConfigSchema: WorldConfigSchema = {
+  export: {
+    depth: numberRule(2, 4096, true),
+    heightmapFormat: { kind: 'enum', values: heightmapExportFormats },
+    instances: { kind: 'enum', values: exportInstances },
+    modelFormat: { kind: 'enum', values: modelExportFormats },
+    width: numberRule(2, 4096, true),
+  },
+  heightmap: {
+    blend: numberRule(0, 10_000, false),
+    centerX: numberRule(-1_000_000, 1_000_000, false),
+    centerZ: numberRule(-1_000_000, 1_000_000, false),
+    edges: { kind: 'enum', values: heightmapEdges },
+    high: numberRule(-100, 100, false),
+    low: numberRule(-100, 100, false),
+    rawWidth: numberRule(0, 65_536, true),
+    source: { kind: 'enum', values: ['noise', ...heightmapFormats] },
+    spacing: numberRule(0.01, 1000, false),
+    url: stringRule,
+  },
+  map: {
+    minimapCells: numberRule(16, 1024, true),
+    minimapInterval: numberRule(0.02, 10, false),
+    minimapSize: numberRule(64, 1024, true),
+    worldMapFrameBudget: numberRule(1, 100, false),
+    worldMapSampleSize: numberRule(1, 32, true),
+    worldMapZoom: numberRule(0.0625, 256, false),
+  },
+  paths: {
+    falloff: numberRule(0, 10_000, false),
+    surface: { kind: 'enum', values: pathSurfaces },
+    width: numberRule(0.1, 10_000, false),
+  },
+  player: {
+    bobAmplitudeX: numberRule(0, 1, false),
+    bobAmplitudeY: numberRule(0, 1, false),
+    bobFrequency: numberRule(0, 100, false),
+    bobRotationZ: numberRule(0, Math.PI, false),
+    gravity: numberRule(0, 1000, false),
+    height: numberRule(0.1, 100, false),
+    jumpVelocity: numberRule(0, 1000, false),
+    speed: numberRule(0, 100_000, false),
+    sprintMultiplier: numberRule(1, 100, false),
+  },
+  save: {
+    autosaveInterval: numberRule(1, 86_400, false),
+    autosaveSlots: numberRule(1, 32, true),
+  },
+  sculpt: {
+    brushRadius: numberRule(0.01, 100_000, false),
+    brushStrength: numberRule(0, 10_000, false),
+    historyLimit: numberRule(0, 10_000, true),
+  },
+  sky: {
+    azimuth: numberRule(-360, 360, false),
+    cloudCount: numberRule(0, 256, true),
+    cloudNoiseBasis: basisRule,
+    cloudNoiseFractal: fractalRule,
+    elevation: numberRule(-180, 180, false),
+    fogColor: colorRule,
+    fogDensity: numberRule(0, 1, false),
+    lightColor: colorRule,
+  },
+  terrain: {
+    cellSize: numberRule(0.01, 10_000, false),
+    chunkCacheBudget: numberRule(0, 4096, false),
+    chunkRadius: numberRule(0, 64, true),
+    chunkSize: numberRule(1, 512, true),
+    detailAmplitude: numberRule(0, 100, false),
+    detailNoiseScale: numberRule(0, 100, false),
+    detailOctaves: numberRule(0, 16, true),
+    detailPersistence: numberRule(0, 1, false),
+    elevationExponent: numberRule(0.01, 16, false),
+    erosionDroplets: numberRule(0, 1_000_000, true),
+    erosionThermalIterations: numberRule(0, 256, true),
+    erosionTileSize: numberRule(8, 1024, true),
+    flatBlend: numberRule(0, 1, false),
+    flatThreshold: numberRule(0, 1, false),
+    heightScale: numberRule(0, 10_000, false),
+    hillAmplitude: numberRule(0, 100, false),
+    horizonRadius: numberRule(0, 100_000, false),
+    horizonRings: numberRule(2, 256, true),
+    horizonSegments: numberRule(3, 1024, true),
+    hydrologyRegionSize: numberRule(16, 1024, true),
+    hillNoiseBasis: basisRule,
+    hillNoiseFractal: fractalRule,
+    hillNoiseScale: numberRule(0, 100, false),
+    hillOctaves: numberRule(1, 16, true),
+    hillPersistence: numberRule(0, 1, false),
+    lacunarity: numberRule(1, 16, false),
+    lakeMinDepth: numberRule(0, 10_000, false),
+    lodDistance: numberRule(0, 64, true),
+    riverDepth: numberRule(0, 10_000, false),
+    riverThreshold: numberRule(0, 1_000_000, false),
+    riverWidth: numberRule(0.01, 10_000, false),
+    rockSlope: numberRule(0, Math.PI / 2, false),
+    seed: numberRule(-(2 ** 31), 2 ** 31 - 1, true),
+    snowLine: numberRule(-10_000, 100_000, false),
+    splatTextureSize: numberRule(8, 2048, true),
+    splatTileSize: numberRule(0.01, 10_000, false),
+    streamFrameBudget: numberRule(0.1, 1000, false),
+    warpScale: numberRule(0, 10, false),
+    warpStrength: numberRule(0, 10_000, false),
+  },
+  vegetation: {
+    biomeBlend: numberRule(0.01, 10, false),
+    climateNoiseScale: numberRule(0, 100, false),
+    densityNoiseBasis: basisRule,
+    densityNoiseFractal: fractalRule,
+    flowerFadeDistance: numberRule(0, 100_000, false),
+    flowerNoiseScale: numberRule(0, 100, false),
+    grassBladeCount: numberRule(0, 1_000_000, true),
+    maxFlowersPerChunk: numberRule(0, 10_000, true),
+    maxTreesPerChunk: numberRule(0, 10_000, true),
+    temperatureLapse: numberRule(0, 1, false),
+    treeImpostorDistance: numberRule(0, 100_000, false),
+    treeNoiseOctaves: numberRule(1, 16, true),
+    treeNoisePersistence: numberRule(0, 1, false),
+    treeNoiseScale: numberRule(0, 100, false),
+    treePoolSize: numberRule(0, 64, true),
+  },
+  water: {
+    color: colorRule,
+    distortionScale: numberRule(0, 100, false),
+    level: numberRule(-10_000, 10_000, false),
+    radius: numberRule(1, 100_000, false),
+  },
+};
+
+const colorPattern = /^#(?:[\da-f]{3}|[\da-f]{6})$/iu;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateColor(path: string, value: unknown) {
+  if (typeof value !== 'string' || !colorPattern.test(value))
+    throw new Error(`${path} must be a hex color, got ${String(value)}`);
+  return value;
+}
+
+function validateEnum(path: string, value: unknown, values: readonly string[]) {
+  if (typeof value !== 'string' || !values.includes(value))
+    throw new Error(`${path} must be one of ${values.join(', ')}`);
+  return value;
+}
+
+function validateString(path: string, value: unknown) {
+  if (typeof value !== 'string')
+    throw new TypeError(`${path} must be a string`);
+  return value;
+}
+
+function validateNumber(
+  path: string,
+  value: unknown,
+  rule: Extract<FieldRule, { kind: 'number' }>,
+) {
+  if (typeof value !== 'number' || !Number.isFinite(value))
+    throw new TypeError(`${path} must be a finite number`);
+  if (rule.integer && !Number.isInteger(value))
+    throw new Error(`${path} must be an integer, got ${String(value)}`);
+  if (value < rule.min || value > rule.max)
+    throw new RangeError(
+      `${path} must be within [${String(rule.min)}, ${String(rule.max)}], got ${String(value)}`,
+    );
+  return value;
+}
+
+function validateSection<Section extends keyof WorldConfig>(
+  section: Section,
+  base: WorldConfig[Section],
+  parent: Record<string, unknown>,
+): WorldConfig[Section] {
+  if (!(section in parent)) return { ...base };
+  const overrides = parent[section];
+  if (!isRecord(overrides)) throw new TypeError(`${section} must be an object`);
+  const rules = worldConfigSchema[section] as Record<string, FieldRule>;
+  for (const key of Object.keys(overrides))
+    if (!(key in rules)) throw new Error(`Unknown setting ${section}.${key}`);
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, rule] of Object.entries(rules)) {
+    if (!(key in overrides)) continue;
+    const path = `${section}.${key}`;
+    const value = overrides[key];
+    switch (rule.kind) {
+      case 'color':
+        merged[key] = validateColor(path, value);
+        break;
+      case 'enum':
+        merged[key] = validateEnum(path, value, rule.values);
+        break;
+      case 'string':
+        merged[key] = validateString(path, value);
+        break;
+      default:
+        merged[key] = validateNumber(path, value, rule);
+    }
+  }
+  return merged as WorldConfig[Section];
+}
+
+/**
+ * Merge untrusted overrides (parsed JSON, query parameters) over a base
+ * config. Unknown keys, wrong types and out-of-range values throw.
+ */
+export function createWorldConfig(
+  overrides: unknown,
+  base: WorldConfig,
+): WorldConfig {
+  if (!isRecord(overrides))
+    throw new TypeError('World config must be an object');
+  for (const key of Object.keys(overrides))
+    if (!(key in worldConfigSchema))
+      throw new Error(`Unknown world config section ${key}`);
+  return {
+    export: validateSection('export', base.export, overrides),
+    heightmap: validateSection('heightmap', base.heightmap, overrides),
+    map: validateSection('map', base.map, overrides),
+    paths: validateSection('paths', base.paths, overrides),
+    player: validateSection('player', base.player, overrides),
+    save: validateSection('save', base.save, overrides),
+    sculpt: validateSection('sculpt', base.sculpt, overrides),
+    sky: validateSection('sky', base.sky, overrides),
+    terrain: validateSection('terrain', base.terrain, overrides),
+    vegetation: validateSection('vegetation', base.vegetation, overrides),
+    water: validateSection('water', base.water, overrides),
+  };
+}
+
+export function getWorldConfigFieldKind(
+  section: string,
+  key: string,
+): FieldRule['kind'] | null {
+  if (!(section in worldConfigSchema)) return null;
+  const rules = worldConfigSchema[section as keyof WorldConfig] as Record<
+    string,
+    FieldRule
+  >;
+  return key in rules ? rules[key].kind : null;
+}
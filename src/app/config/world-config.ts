@@ -0,0 +1,207 @@
+import { NoiseBasis, NoiseFractal } from '../terrain/noise';
+import {
+  ExportInstances,
+  HeightmapExportFormat,
+  ModelExportFormat,
+} from '../export/export-formats';
+import {
+  HeightmapEdges,
+  HeightmapFormat,
+} from '../terrain/height-sources/heightmap-height-source';
+import { PathSurface } from '../terrain/paths/terrain-path';
+
+export type TerrainConfig = {
+  seed: number;
+  chunkSize: number;
+  // Megabytes of unloaded chunk data kept for quick reloading.
+  chunkCacheBudget: number;
+  chunkRadius: number;
+  cellSize: number;
+  heightScale: number;
+  lacunarity: number;
+  // Chunks from the player kept at full detail before geometry LOD starts.
+  lodDistance: number;
+  elevationExponent: number;
+  // Erosion droplets per tile; 0 with no thermal iterations disables erosion.
+  erosionDroplets: number;
+  erosionThermalIterations: number;
+  // Cells per side of the overlapping tiles erosion is simulated on.
+  erosionTileSize: number;
+  hillNoiseBasis: NoiseBasis;
+  hillNoiseFractal: NoiseFractal;
+  hillNoiseScale: number;
+  detailNoiseScale: number;
+  hillOctaves: number;
+  detailOctaves: number;
+  hillPersistence: number;
+  detailPersistence: number;
+  hillAmplitude: number;
+  // Cells per side of the regions rivers and lakes are worked out in.
+  hydrologyRegionSize: number;
+  // Far-terrain ring from the streamed area out to this radius; 0 disables it.
+  horizonRadius: number;
+  horizonRings: number;
+  horizonSegments: number;
+  detailAmplitude: number;
+  flatThreshold: number;
+  flatBlend: number;
+  // Deepest point, in world units, a basin needs to hold a lake; 0 disables.
+  lakeMinDepth: number;
+  // Channel depth below the water surface, in world units.
+  riverDepth: number;
+  // Drainage area, in cells of two by two, that starts a river; 0 disables.
+  riverThreshold: number;
+  // Width, in world units, where a river starts; it widens downstream.
+  riverWidth: number;
+  // Slope, in radians, from which the terrain material shows bare rock.
+  rockSlope: number;
+  // Height above which the terrain material lays snow.
+  snowLine: number;
+  // Texels per side of each terrain layer texture, generated at startup.
+  splatTextureSize: number;
+  // World units covered by one repeat of a terrain layer texture.
+  splatTileSize: number;
+  streamFrameBudget: number;
+  warpStrength: number;
+  warpScale: number;
+};
+
+export type HeightmapConfig = {
+  // Where terrain heights come from: noise, or the heightmap file at `url`.
+  source: 'noise' | HeightmapFormat;
+  url: string;
+  // Samples per row of a raw heightmap; 0 takes it to be square.
+  rawWidth: number;
+  // Cells between neighbouring heightmap samples.
+  spacing: number;
+  // Cell the middle of the heightmap sits on.
+  centerX: number;
+  centerZ: number;
+  // Normalised heights, before `heightScale`, of the lowest and highest sample.
+  low: number;
+  high: number;
+  // What lies beyond the heightmap: itself repeated, its edge, or noise.
+  edges: HeightmapEdges;
+  // Cells over which the heightmap fades into noise at its edges.
+  blend: number;
+};
+
+export type VegetationConfig = {
+  // Width, in climate units, of the blend between neighbouring biomes.
+  biomeBlend: number;
+  // Frequency of the temperature and moisture noise that places biomes.
+  climateNoiseScale: number;
+  densityNoiseBasis: NoiseBasis;
+  densityNoiseFractal: NoiseFractal;
+  treePoolSize: number;
+  // Distance from a chunk beyond which its trees are drawn as billboards.
+  treeImpostorDistance: number;
+  treeNoiseScale: number;
+  treeNoiseOctaves: number;
+  treeNoisePersistence: number;
+  maxTreesPerChunk: number;
+  maxFlowersPerChunk: number;
+  flowerNoiseScale: number;
+  // Distance from the camera at which flowers and rocks have faded out.
+  flowerFadeDistance: number;
+  grassBladeCount: number;
+  // Temperature lost per world unit of height; drives the alpine biome.
+  temperatureLapse: number;
+};
+
+export type SkyConfig = {
+  azimuth: number;
+  elevation: number;
+  lightColor: string;
+  cloudCount: number;
+  cloudNoiseBasis: NoiseBasis;
+  cloudNoiseFractal: NoiseFractal;
+  fogColor: string;
+  fogDensity: number;
+};
+
+export type WaterConfig = {
+  level: number;
+  radius: number;
+  color: string;
+  distortionScale: number;
+};
+
+export type PlayerConfig = {
+  speed: number;
+  gravity: number;
+  jumpVelocity: number;
+  height: number;
+  sprintMultiplier: number;
+  bobFrequency: number;
+  bobAmplitudeX: number;
+  bobAmplitudeY: number;
+  bobRotationZ: number;
+};
+
+export type SculptConfig = {
+  // Brush radius, in world units, when the editor opens.
+  brushRadius: number;
+  // World units a raise, lower or noise brush moves the ground per second.
+  brushStrength: number;
+  // Strokes kept for undo.
+  historyLimit: number;
+};
+
+export type PathConfig = {
+  // Full width of the flat, painted strip of a new path, in world units.
+  width: number;
+  // World units beyond the strip over which the ground blends back.
+  falloff: number;
+  // Surface painted along a new path.
+  surface: PathSurface;
+};
+
+export type SaveConfig = {
+  // Seconds between autosaves.
+  autosaveInterval: number;
+  // Autosave slots kept in the browser; the oldest is overwritten.
+  autosaveSlots: number;
+};
+
+export type ExportConfig = {
+  // Height samples, one per cell, along x and z of the region around the player.
+  width: number;
+  depth: number;
+  heightmapFormat: HeightmapExportFormat;
+  modelFormat: ModelExportFormat;
+  instances: ExportInstances;
+};
+
+export type MapConfig = {
+  // Pixels along each side of the corner minimap.
+  minimapSize: number;
+  // Cells along each side of the area the minimap shows.
+  minimapCells: number;
+  // Seconds between minimap redraws.
+  minimapInterval: number;
+  // Cells per screen pixel when the world map opens.
+  worldMapZoom: number;
+  // Screen pixels along each side of one world map sample.
+  worldMapSampleSize: number;
+  // Milliseconds per frame spent drawing the world map.
+  worldMapFrameBudget: number;
+};
+
+export type WorldConfig = {
+  terrain: TerrainConfig;
+  heightmap: HeightmapConfig;
+  vegetation: VegetationConfig;
+  sky: SkyConfig;
+  water: WaterConfig;
+  player: PlayerConfig;
+  sculpt: SculptConfig;
+  paths: PathConfig;
+  save: SaveConfig;
+  export: ExportConfig;
+  map: MapConfig;
+};
+
+export type WorldConfigOverrides = {
+  [Section in keyof WorldConfig]?: Partial<WorldConfig[Section]>;
+};
@@ -0,0 +1,8 @@
+// Hands `blob` to the browser as a download named `name`.
+export function downloadBlob(blob: Blob, name: string) {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
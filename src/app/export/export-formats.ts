@@ -0,0 +1,19 @@
+export type HeightmapExportFormat = 'png' | 'raw';
+
+export const heightmapExportFormats: readonly HeightmapExportFormat[] = [
+  'png',
+  'raw',
+];
+
+export type ModelExportFormat = 'glb' | 'gltf';
+
+export const modelExportFormats: readonly ModelExportFormat[] = ['glb', 'gltf'];
+
+// Vegetation written into the model alongside the ground.
+export type ExportInstances = 'none' | 'trees' | 'all';
+
+export const exportInstances: readonly ExportInstances[] = [
+  'none',
+  'trees',
+  'all',
+];
@@ -0,0 +1,120 @@
+// Byte-wise XOR, tabulated once: `xorTable[a * 256 + b]` is a XOR b.
+let xorTable: Uint8Array | null = null;
+// CRC-32 remainders for each byte value, four bytes each, lowest first.
+let crcTable: Uint8Array | null = null;
+
+function xorBytes(first: number, second: number) {
+  let result = 0;
+  for (let bit = 1; bit < 256; bit *= 2)
+    if (Math.floor(first / bit) % 2 !== Math.floor(second / bit) % 2)
+      result += bit;
+  return result;
+}
+
+// Reflected polynomial 0xedb88320, lowest byte first.
+const POLYNOMIAL = [32, 131, 184, 237];
+
+function crcRemainder(value: number, xor: Uint8Array) {
+  const remainder = [value, 0, 0, 0];
+  for (let bit = 0; bit < 8; bit += 1) {
+    const odd = remainder[0] % 2 === 1;
+    // Shift the 32-bit remainder right by one.
+    for (let byte = 0; byte < 4; byte += 1)
+      remainder[byte] =
+        Math.floor(remainder[byte] / 2) +
+        (byte < 3 ? (remainder[byte + 1] % 2) * 128 : 0);
+    if (!odd) continue;
+    for (let byte = 0; byte < 4; byte += 1)
+      remainder[byte] = xor[remainder[byte] * 256 + POLYNOMIAL[byte]];
+  }
+  return remainder;
+}
+
+function tables() {
+  if (!xorTable || !crcTable) {
+    const xor = new Uint8Array(65_536);
+    for (let index = 0; index < xor.length; index += 1)
+      xor[index] = xorBytes(Math.floor(index / 256), index % 256);
+    const table = new Uint8Array(256 * 4);
+    for (let value = 0; value < 256; value += 1)
+      table.set(crcRemainder(value, xor), value * 4);
+    xorTable = xor;
+    crcTable = table;
+  }
+  return { crc: crcTable, xor: xorTable };
+}
+
+// CRC-32 as PNG chunks carry it, without bitwise operators.
+export function crc32(bytes: Uint8Array) {
+  const { crc, xor } = tables();
+  let [c0, c1, c2, c3] = [255, 255, 255, 255];
+  for (const byte of bytes) {
+    const entry = xor[c0 * 256 + byte] * 4;
+    c0 = xor[c1 * 256 + crc[entry]];
+    c1 = xor[c2 * 256 + crc[entry + 1]];
+    c2 = xor[c3 * 256 + crc[entry + 2]];
+    c3 = crc[entry + 3];
+  }
+  return (
+    255 - c0 + (255 - c1) * 256 + (255 - c2) * 65_536 + (255 - c3) * 16_777_216
+  );
+}
+
+async function deflate(bytes: Uint8Array<ArrayBuffer>) {
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function chunk(type: string, data: Uint8Array) {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  bytes.set(new TextEncoder().encode(type), 4);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+}
+
+/**
+ * Encodes 16-bit grayscale samples, `width` per row, as a PNG. Rows use the
+ * "up" filter, which suits smooth heightmaps.
+ */
+export async function encodeGrayPng16(options: {
+  width: number;
+  height: number;
+  samples: Uint16Array;
+}): Promise<Blob> {
+  const { width, height, samples } = options;
+  const stride = width * 2 + 1;
+  const rows = new Uint8Array(stride * height);
+  for (let row = 0; row < height; row += 1) {
+    rows[row * stride] = 2;
+    for (let column = 0; column < width; column += 1) {
+      const index = column + row * width;
+      const above = row > 0 ? samples[index - width] : 0;
+      const value = samples[index];
+      // Big-endian bytes, each less the byte above it.
+      const high = Math.floor(value / 256) - Math.floor(above / 256);
+      const low = (value % 256) - (above % 256);
+      rows[row * stride + 1 + column * 2] = (high + 256) % 256;
+      rows[row * stride + 2 + column * 2] = (low + 256) % 256;
+    }
+  }
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([16, 0, 0, 0, 0], 8);
+  const signature = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+  return new Blob(
+    [
+      signature,
+      chunk('IHDR', header),
+      chunk('IDAT', await deflate(rows)),
+      chunk('IEND', new Uint8Array(0)),
+    ],
+    { type: 'image/png' },
+  );
+}
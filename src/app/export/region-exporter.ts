@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+import { WorldConfig } from '../config/world-config';
+import { downloadBlob } from '../download';
+import { Terrain } from '../terrain/terrain';
+import { exportTerrainRegion } from './terrain-export';
+
+/**
+ * Exports the region around `target`, sized by the `export` config, and
+ * downloads its heightmap, model and manifest.
+ */
+export class RegionExporter {
+  private readonly terrain: Terrain;
+  private readonly config: WorldConfig;
+  private readonly target: THREE.Object3D;
+  private exporting = false;
+
+  constructor(options: {
+    terrain: Terrain;
+    config: WorldConfig;
+    target: THREE.Object3D;
+  }) {
+    this.terrain = options.terrain;
+    this.config = options.config;
+    this.target = options.target;
+  }
+
+  // Exports around the target; skipped while an export is running.
+  export() {
+    if (this.exporting) return;
+    this.exporting = true;
+    this.download()
+      .finally(() => {
+        this.exporting = false;
+      })
+      .catch(console.error);
+  }
+
+  private async download() {
+    const { terrain, config, target } = this;
+    const { width, depth } = config.export;
+    const { cellSize } = config.terrain;
+    const files = await exportTerrainRegion({
+      config: config.export,
+      region: {
+        cellX: Math.round(target.position.x / cellSize) - Math.floor(width / 2),
+        cellZ: Math.round(target.position.z / cellSize) - Math.floor(depth / 2),
+        depth,
+        width,
+      },
+      terrain,
+      world: config,
+    });
+    for (const { blob, name } of files) downloadBlob(blob, name);
+  }
+}
@@ -0,0 +1,220 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter';
+import { ExportConfig, WorldConfig } from '../config/world-config';
+import { Terrain } from '../terrain/terrain';
+import { createBiomeSampler } from '../terrain/biomes/biome-sampler';
+import { buildGeometry, colorGeometry } from '../terrain/terrain-utilities';
+import { ExportInstances } from './export-formats';
+import { encodeGrayPng16 } from './png-encoder';
+
+// A rectangle of the cell lattice: `width` by `depth` samples from a corner.
+export type ExportRegion = {
+  cellX: number;
+  cellZ: number;
+  width: number;
+  depth: number;
+};
+
+export type ExportFile = {
+  name: string;
+  blob: Blob;
+};
+
+export type ExportManifest = {
+  seed: number;
+  cellSize: number;
+  heightScale: number;
+  // The first sample, in world units and as a cell.
+  origin: { x: number; z: number; cellX: number; cellZ: number };
+  width: number;
+  depth: number;
+  heightmap: {
+    file: string;
+    format: ExportConfig['heightmapFormat'];
+    // Normalised heights, before `heightScale`, of black and white.
+    low: number;
+    high: number;
+  };
+  model: {
+    file: string;
+    format: ExportConfig['modelFormat'];
+    instances: ExportInstances;
+  };
+  exportedAt: string;
+};
+
+// Region heights as the terrain has them, sculpting included.
+function sampleRegion(terrain: Terrain, region: ExportRegion) {
+  const { cellX, cellZ, width, depth } = region;
+  const heights = new Float32Array(width * depth);
+  for (let row = 0; row < depth; row += 1)
+    for (let column = 0; column < width; column += 1)
+      heights[column + row * width] = terrain.sampler.getCellHeight(
+        cellX + column,
+        cellZ + row,
+      );
+  return heights;
+}
+
+// Quantises heights to 16 bits between their lowest and highest.
+function quantise(heights: Float32Array) {
+  let low = Infinity;
+  let high = -Infinity;
+  for (const height of heights) {
+    low = Math.min(low, height);
+    high = Math.max(high, height);
+  }
+  const range = high - low || 1;
+  const samples = Uint16Array.from(heights, (height) =>
+    Math.round(((height - low) / range) * 65_535),
+  );
+  return { high, low, samples };
+}
+
+// Little-endian unsigned 16-bit samples, row after row, as raw heightmaps load.
+function encodeRaw16(samples: Uint16Array) {
+  const view = new DataView(new ArrayBuffer(samples.length * 2));
+  for (const [index, sample] of samples.entries())
+    view.setUint16(index * 2, sample, true);
+  return new Blob([view.buffer], { type: 'application/octet-stream' });
+}
+
+function createGroundMesh(options: {
+  terrain: Terrain;
+  region: ExportRegion;
+  heights: Float32Array;
+}) {
+  const { terrain, region, heights } = options;
+  const { cellSize, heightScale } = terrain.context.terrain;
+  const { geometry, centerX, centerZ } = buildGeometry({
+    cd: region.depth,
+    cellSize,
+    cw: region.width,
+    heightData: heights,
+    heightScale,
+    offsetX: region.cellX,
+    offsetZ: region.cellZ,
+    step: 1,
+  });
+  const biomes = createBiomeSampler(terrain.context);
+  colorGeometry({
+    centerX,
+    centerZ,
+    geometry,
+    palette: (target, x, y, z) => biomes.groundColorAt(x, z, y, target),
+  });
+  const mesh = new THREE.Mesh(
+    geometry,
+    new THREE.MeshStandardMaterial({ roughness: 1, vertexColors: true }),
+  );
+  mesh.name = 'terrain';
+  mesh.position.set(centerX, 0, centerZ);
+  return mesh;
+}
+
+/**
+ * Trees and, for 'all', flowers and rocks standing inside `region`. Only
+ * loaded chunks have any, so far parts of a large region come out bare.
+ */
+function collectInstances(options: {
+  terrain: Terrain;
+  region: ExportRegion;
+  instances: ExportInstances;
+}) {
+  const { terrain, region, instances } = options;
+  const { cellSize } = terrain.context.terrain;
+  const minX = region.cellX * cellSize;
+  const minZ = region.cellZ * cellSize;
+  const maxX = (region.cellX + region.width - 1) * cellSize;
+  const maxZ = (region.cellZ + region.depth - 1) * cellSize;
+  const group = new THREE.Group();
+  group.name = 'instances';
+  if (instances === 'none') return group;
+  const inside = ({ x, z }: THREE.Vector3) =>
+    x >= minX && x <= maxX && z >= minZ && z <= maxZ;
+  for (const { trees, flowers } of terrain.chunks.values()) {
+    if (trees)
+      for (const [index, { position }] of trees.trees.entries())
+        if (inside(position)) group.add(trees.treeObject(index));
+    if (flowers && instances === 'all')
+      for (const [index, { position }] of flowers.flowers.entries()) {
+        const flower = inside(position) ? flowers.flowerObject(index) : null;
+        if (flower) group.add(flower);
+      }
+  }
+  return group;
+}
+
+async function exportModel(scene: THREE.Scene, binary: boolean) {
+  const result = await new GLTFExporter().parseAsync(scene, { binary });
+  return result instanceof ArrayBuffer
+    ? new Blob([result], { type: 'model/gltf-binary' })
+    : new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+}
+
+/**
+ * Exports `region` of the terrain as three files: a 16-bit heightmap, a
+ * glTF model of the vertex-coloured ground and, as `config` asks, its
+ * vegetation, and a JSON manifest placing both in the world.
+ */
+export async function exportTerrainRegion(options: {
+  terrain: Terrain;
+  world: WorldConfig;
+  config: ExportConfig;
+  region: ExportRegion;
+}): Promise<ExportFile[]> {
+  const { terrain, world, config, region } = options;
+  const { seed, cellSize, heightScale } = world.terrain;
+  const { heightmapFormat, modelFormat, instances } = config;
+  const base = `terrain-${String(seed)}_${String(region.cellX)}_${String(region.cellZ)}`;
+
+  const heights = sampleRegion(terrain, region);
+  const { samples, low, high } = quantise(heights);
+  const heightmap =
+    heightmapFormat === 'png'
+      ? await encodeGrayPng16({
+          height: region.depth,
+          samples,
+          width: region.width,
+        })
+      : encodeRaw16(samples);
+
+  const scene = new THREE.Scene();
+  scene.add(
+    createGroundMesh({ heights, region, terrain }),
+    collectInstances({ instances, region, terrain }),
+  );
+  const model = await exportModel(scene, modelFormat === 'glb');
+
+  const manifest: ExportManifest = {
+    cellSize,
+    depth: region.depth,
+    exportedAt: new Date().toISOString(),
+    heightScale,
+    heightmap: {
+      file: `${base}.${heightmapFormat}`,
+      format: heightmapFormat,
+      high,
+      low,
+    },
+    model: { file: `${base}.${modelFormat}`, format: modelFormat, instances },
+    origin: {
+      cellX: region.cellX,
+      cellZ: region.cellZ,
+      x: region.cellX * cellSize,
+      z: region.cellZ * cellSize,
+    },
+    seed,
+    width: region.width,
+  };
+  return [
+    { blob: heightmap, name: manifest.heightmap.file },
+    { blob: model, name: manifest.model.file },
+    {
+      blob: new Blob([JSON.stringify(manifest, null, 2)], {
+        type: 'application/json',
+      }),
+      name: `${base}.json`,
+    },
+  ];
+}
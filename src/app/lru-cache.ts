@@ -0,0 +1,99 @@
+export type LruCacheStats = {
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  size: number;
+  budget: number;
+};
+
+/**
+ * Least-recently-used cache bounded by a size budget rather than an entry
+ * count. `sizeOf` reports the cost of a value in the same unit as `budget`.
+ */
+export class LruCache<T> {
+  private readonly entries = new Map<string, { value: T; size: number }>();
+  private readonly budget: number;
+  private readonly sizeOf: (value: T) => number;
+  private size = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: { budget: number; sizeOf: (value: T) => number }) {
+    this.budget = options.budget;
+    this.sizeOf = options.sizeOf;
+  }
+
+  get stats(): LruCacheStats {
+    return {
+      budget: this.budget,
+      entries: this.entries.size,
+      evictions: this.evictions,
+      hits: this.hits,
+      misses: this.misses,
+      size: this.size,
+    };
+  }
+
+  has(key: string) {
+    return this.entries.has(key);
+  }
+
+  get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses += 1;
+      return null;
+    }
+    this.hits += 1;
+    // Re-insert so Map iteration order stays least-recent first.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  // Removes and returns the entry, for values that cannot be shared.
+  take(key: string) {
+    const value = this.get(key);
+    if (value !== null) this.delete(key);
+    return value;
+  }
+
+  set(key: string, value: T) {
+    this.delete(key);
+    const size = this.sizeOf(value);
+    if (size > this.budget) return;
+    this.entries.set(key, { size, value });
+    this.size += size;
+    for (const [oldest, entry] of this.entries) {
+      if (this.size <= this.budget) break;
+      this.entries.delete(oldest);
+      this.size -= entry.size;
+      this.evictions += 1;
+    }
+  }
+
+  delete(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.size -= entry.size;
+  }
+
+  // Drops every entry whose key matches.
+  deleteWhere(matches: (key: string) => boolean) {
+    for (const key of this.entries.keys()) if (matches(key)) this.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+    this.size = 0;
+  }
+
+  resetStats() {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+}
@@ -0,0 +1,46 @@
+import * as THREE from 'three';
+
+// Writes `color`, in the linear working space, as pixel `index` of `image`.
+export function writePixel(
+  image: ImageData,
+  index: number,
+  color: THREE.Color | null,
+) {
+  const { data } = image;
+  if (!color) {
+    // Unknown ground shows as a dim, see-through square.
+    data.set([0, 0, 0, 96], index * 4);
+    return;
+  }
+  color.convertLinearToSRGB();
+  data.set([color.r * 255, color.g * 255, color.b * 255, 255], index * 4);
+}
+
+// The player's marker at canvas (x, y), pointing along `angle` from +x.
+export function drawPlayerArrow(
+  context: CanvasRenderingContext2D,
+  options: { x: number; y: number; angle: number; size: number },
+) {
+  const { x, y, angle, size } = options;
+  context.save();
+  context.translate(x, y);
+  context.rotate(angle);
+  context.beginPath();
+  context.moveTo(size, 0);
+  context.lineTo(-size * 0.6, size * 0.6);
+  context.lineTo(-size * 0.3, 0);
+  context.lineTo(-size * 0.6, -size * 0.6);
+  context.closePath();
+  context.fillStyle = '#fff';
+  context.strokeStyle = '#000';
+  context.lineWidth = 1.5;
+  context.fill();
+  context.stroke();
+  context.restore();
+}
+
+// Heading of `camera` on a north-up map: canvas x is world x, canvas y world z.
+export function cameraHeading(camera: THREE.Camera) {
+  const direction = camera.getWorldDirection(new THREE.Vector3());
+  return Math.atan2(direction.z, direction.x);
+}
@@ -0,0 +1,127 @@
+import * as THREE from 'three';
+import { Terrain } from '../terrain/terrain';
+import { TerrainChunk } from '../terrain/terrain-chunk';
+import {
+  BiomeSampler,
+  createBiomeSampler,
+} from '../terrain/biomes/biome-sampler';
+import {
+  BiomeId,
+  biomeCount,
+  biomeDefinitions,
+} from '../terrain/biomes/biome-definitions';
+import { createHeightSampler } from '../terrain/terrain-chunk-generator';
+import { lodGridSize, lodStep } from '../terrain/terrain-lod';
+import { makeKey } from '../terrain/terrain-utilities';
+
+const WATER_COLOR = new THREE.Color('#2f5f8a');
+// Brightening per unit of slope facing the light, from the north-west.
+const RELIEF = 1.5;
+
+/**
+ * Top-down colours and heights for the maps. Loaded chunks give their own
+ * heights and vertex colours; everywhere else comes straight from the height
+ * function and the biome palette, without erosion or rivers.
+ */
+export class MapSampler {
+  private readonly terrain: Terrain;
+  private readonly sampleHeight: (x: number, z: number) => number;
+  private readonly biomes: BiomeSampler;
+  private readonly weights = new Float32Array(biomeCount);
+
+  constructor(terrain: Terrain) {
+    this.terrain = terrain;
+    this.sampleHeight = createHeightSampler(terrain.context);
+    this.biomes = createBiomeSampler(terrain.context);
+  }
+
+  // Normalised height of cell (ix, iz).
+  heightAt(ix: number, iz: number) {
+    const chunk = this.chunkAt(ix, iz);
+    return chunk ? chunk.sampleCellHeight(ix, iz) : this.sampleHeight(ix, iz);
+  }
+
+  // Biome with the largest share of cell (ix, iz).
+  biomeAt(ix: number, iz: number): BiomeId {
+    const { cellSize, heightScale } = this.terrain.context.terrain;
+    const weights = this.biomes.weightsAt(
+      ix * cellSize,
+      iz * cellSize,
+      this.heightAt(ix, iz) * heightScale,
+      this.weights,
+    );
+    const strongest = weights.indexOf(Math.max(...weights));
+    return biomeDefinitions[strongest].id;
+  }
+
+  /**
+   * Writes the colour of cell (ix, iz) to `target`, ground shaded by its
+   * slope towards the cell `step` cells north-west. Returns null where no
+   * chunk is loaded, unless `explore` asks for generated terrain there.
+   */
+  colorAt(options: {
+    ix: number;
+    iz: number;
+    step: number;
+    explore: boolean;
+    target: THREE.Color;
+  }) {
+    const { ix, iz, step, explore, target } = options;
+    const chunk = this.chunkAt(ix, iz);
+    if (!chunk && !explore) return null;
+    const height = chunk
+      ? chunk.sampleCellHeight(ix, iz)
+      : this.sampleHeight(ix, iz);
+    const { hydrology, terrain } = this.terrain.context;
+    // Rivers and lakes are only worked out where chunks are loaded.
+    if (this.isSea(height) || (chunk && hydrology?.isWet(ix, iz, height)))
+      return target.copy(WATER_COLOR);
+    if (chunk) this.chunkColor(chunk, ix, iz, target);
+    else
+      this.biomes.groundColorAt(
+        ix * terrain.cellSize,
+        iz * terrain.cellSize,
+        height * terrain.heightScale,
+        target,
+      );
+    return target.multiplyScalar(this.shade(ix, iz, step));
+  }
+
+  private chunkAt(ix: number, iz: number) {
+    const { chunkSize } = this.terrain.context.terrain;
+    return this.terrain.chunks.get(
+      makeKey(Math.floor(ix / chunkSize), Math.floor(iz / chunkSize)),
+    );
+  }
+
+  // The chunk's vertex colour nearest cell (ix, iz).
+  private chunkColor(
+    chunk: TerrainChunk,
+    ix: number,
+    iz: number,
+    target: THREE.Color,
+  ) {
+    const { chunkSize } = this.terrain.context.terrain;
+    const step = lodStep(chunk.lod);
+    const gx = Math.round((ix - chunk.offsetX) / step);
+    const gz = Math.round((iz - chunk.offsetZ) / step);
+    return target.fromBufferAttribute(
+      chunk.mesh.geometry.getAttribute('color'),
+      gx + gz * lodGridSize(chunkSize, chunk.lod),
+    );
+  }
+
+  private isSea(height: number) {
+    const { context } = this.terrain;
+    return height * context.terrain.heightScale < context.waterLevel;
+  }
+
+  private shade(ix: number, iz: number, step: number) {
+    const { cellSize, heightScale } = this.terrain.context.terrain;
+    const rise =
+      (this.heightAt(ix, iz) - this.heightAt(ix - step, iz - step)) *
+      heightScale;
+    const slope = rise / (step * cellSize * Math.SQRT2);
+    return Math.max(0.5, Math.min(1.5, 1 + slope * RELIEF));
+  }
+}
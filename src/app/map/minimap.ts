@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+import { MapConfig } from '../config/world-config';
+import { Terrain } from '../terrain/terrain';
+import { MapSampler } from './map-sampler';
+import { cameraHeading, drawPlayerArrow, writePixel } from './map-drawing';
+
+const TREE_COLOR = new THREE.Color('#1d3a16');
+
+/**
+ * Corner map of the loaded chunks around the player, north up, with water
+ * and trees. The ground is redrawn every `minimapInterval` seconds; the
+ * arrow follows the camera every frame.
+ */
+export class Minimap {
+  private readonly canvas: HTMLCanvasElement | null;
+  private readonly terrain: Terrain;
+  private readonly sampler: MapSampler;
+  private readonly camera: THREE.Camera;
+  private readonly config: MapConfig;
+  // One pixel per cell, scaled up onto the canvas.
+  private readonly buffer = document.createElement('canvas');
+  private readonly image: ImageData;
+  private readonly color = new THREE.Color();
+  private elapsed = Infinity;
+  // First cell of the drawn area.
+  private originX = 0;
+  private originZ = 0;
+
+  constructor(options: {
+    canvas: HTMLCanvasElement | null;
+    terrain: Terrain;
+    sampler: MapSampler;
+    camera: THREE.Camera;
+    config: MapConfig;
+  }) {
+    const { canvas, terrain, sampler, camera, config } = options;
+    this.canvas = canvas;
+    this.terrain = terrain;
+    this.sampler = sampler;
+    this.camera = camera;
+    this.config = config;
+    this.buffer.width = config.minimapCells;
+    this.buffer.height = config.minimapCells;
+    this.image = new ImageData(config.minimapCells, config.minimapCells);
+    if (canvas) {
+      canvas.width = config.minimapSize;
+      canvas.height = config.minimapSize;
+    }
+  }
+
+  update(delta: number) {
+    const context = this.canvas?.getContext('2d');
+    if (!context) return;
+    const { minimapInterval, minimapSize, minimapCells } = this.config;
+    const { cellSize } = this.terrain.context.terrain;
+    const position = this.camera.getWorldPosition(new THREE.Vector3());
+    this.elapsed += delta;
+    if (this.elapsed >= minimapInterval) {
+      this.elapsed = 0;
+      this.redraw(position);
+    }
+    const scale = minimapSize / minimapCells;
+    context.clearRect(0, 0, minimapSize, minimapSize);
+    context.drawImage(this.buffer, 0, 0, minimapSize, minimapSize);
+    drawPlayerArrow(context, {
+      angle: cameraHeading(this.camera),
+      size: 7,
+      x: (position.x / cellSize - this.originX) * scale,
+      y: (position.z / cellSize - this.originZ) * scale,
+    });
+  }
+
+  private redraw(position: THREE.Vector3) {
+    const { image, sampler, color, terrain, buffer, config } = this;
+    const cells = config.minimapCells;
+    const { cellSize } = terrain.context.terrain;
+    const originX = Math.round(position.x / cellSize) - Math.floor(cells / 2);
+    const originZ = Math.round(position.z / cellSize) - Math.floor(cells / 2);
+    for (let row = 0; row < cells; row += 1)
+      for (let column = 0; column < cells; column += 1)
+        writePixel(
+          image,
+          column + row * cells,
+          sampler.colorAt({
+            explore: false,
+            ix: originX + column,
+            iz: originZ + row,
+            step: 1,
+            target: color,
+          }),
+        );
+    for (const chunk of terrain.chunks.values())
+      for (const tree of chunk.trees?.trees ?? []) {
+        const column = Math.floor(tree.position.x / cellSize - originX);
+        const row = Math.floor(tree.position.z / cellSize - originZ);
+        if (column < 0 || row < 0 || column >= cells || row >= cells) continue;
+        writePixel(image, column + row * cells, color.copy(TREE_COLOR));
+      }
+    buffer.getContext('2d')?.putImageData(image, 0, 0);
+    this.originX = originX;
+    this.originZ = originZ;
+  }
+}
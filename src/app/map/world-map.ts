@@ -0,0 +1,240 @@
+import * as THREE from 'three';
+import { WorldConfig } from '../config/world-config';
+import { MapSampler } from './map-sampler';
+import { cameraHeading, drawPlayerArrow, writePixel } from './map-drawing';
+
+// Zoom change per pixel of wheel movement.
+const WHEEL_ZOOM = 0.002;
+const MIN_ZOOM = 1 / 16;
+const MAX_ZOOM = 256;
+
+/**
+ * Full-screen map, toggled with M and closed with Escape. Drag to pan and
+ * scroll to zoom; ground beyond the loaded chunks comes from the height
+ * function, drawn a few rows per frame. The position, height and biome
+ * under the cursor show in `info`.
+ */
+export class WorldMap {
+  private readonly canvas: HTMLCanvasElement | null;
+  private readonly info: HTMLElement | null;
+  private readonly sampler: MapSampler;
+  private readonly camera: THREE.Camera;
+  private readonly config: WorldConfig;
+  // One pixel per sample, scaled up onto the canvas.
+  private readonly buffer = document.createElement('canvas');
+  private image = new ImageData(1, 1);
+  private readonly color = new THREE.Color();
+  private opened = false;
+  // Cell in the middle of the screen, and cells per screen pixel.
+  private centerX = 0;
+  private centerZ = 0;
+  private zoom: number;
+  // Next buffer row to draw; all are drawn once it reaches the last.
+  private nextRow = 0;
+  private dragging = false;
+
+  constructor(options: {
+    canvas: HTMLCanvasElement | null;
+    info: HTMLElement | null;
+    sampler: MapSampler;
+    camera: THREE.Camera;
+    config: WorldConfig;
+  }) {
+    const { canvas, info, sampler, camera, config } = options;
+    this.canvas = canvas;
+    this.info = info;
+    this.sampler = sampler;
+    this.camera = camera;
+    this.config = config;
+    this.zoom = config.map.worldMapZoom;
+    document.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('resize', this.onResize);
+    canvas?.addEventListener('mousedown', this.onMouseDown);
+    canvas?.addEventListener('wheel', this.onWheel, { passive: false });
+    document.addEventListener('mousemove', this.onMouseMove);
+    document.addEventListener('mouseup', this.onMouseUp);
+  }
+
+  setOpen(opened: boolean) {
+    const { canvas, info, camera, config } = this;
+    if (!canvas) return;
+    this.opened = opened;
+    this.dragging = false;
+    canvas.hidden = !opened;
+    if (info) info.hidden = !opened;
+    if (!opened) return;
+    // The mouse pans the map rather than turning the camera.
+    document.exitPointerLock();
+    const position = camera.getWorldPosition(new THREE.Vector3());
+    this.centerX = position.x / config.terrain.cellSize;
+    this.centerZ = position.z / config.terrain.cellSize;
+    this.zoom = config.map.worldMapZoom;
+    this.resize();
+  }
+
+  update() {
+    if (!this.opened) return;
+    this.drawRows();
+    this.present();
+  }
+
+  dispose() {
+    document.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('resize', this.onResize);
+    this.canvas?.removeEventListener('mousedown', this.onMouseDown);
+    this.canvas?.removeEventListener('wheel', this.onWheel);
+    document.removeEventListener('mousemove', this.onMouseMove);
+    document.removeEventListener('mouseup', this.onMouseUp);
+  }
+
+  // Matches the canvas to the window and starts drawing afresh.
+  private resize() {
+    const { canvas, buffer, config } = this;
+    if (!canvas) return;
+    const { worldMapSampleSize } = config.map;
+    canvas.width = window.innerWidth;
+    canvas.height = window.innerHeight;
+    buffer.width = Math.ceil(canvas.width / worldMapSampleSize);
+    buffer.height = Math.ceil(canvas.height / worldMapSampleSize);
+    this.image = new ImageData(buffer.width, buffer.height);
+    this.nextRow = 0;
+  }
+
+  // Cell under canvas pixel (x, y).
+  private cellAt(x: number, y: number) {
+    const { canvas, zoom, centerX, centerZ } = this;
+    const width = canvas?.width ?? 0;
+    const height = canvas?.height ?? 0;
+    return {
+      ix: Math.floor(centerX + (x - width / 2) * zoom),
+      iz: Math.floor(centerZ + (y - height / 2) * zoom),
+    };
+  }
+
+  // Draws buffer rows until the frame budget runs out.
+  private drawRows() {
+    const { buffer, image, sampler, color, config, zoom, nextRow } = this;
+    const { worldMapSampleSize, worldMapFrameBudget } = config.map;
+    const step = Math.max(1, Math.round(zoom * worldMapSampleSize));
+    const deadline = performance.now() + worldMapFrameBudget;
+    let row = nextRow;
+    for (; row < buffer.height && performance.now() < deadline; row += 1)
+      for (let column = 0; column < buffer.width; column += 1) {
+        const { ix, iz } = this.cellAt(
+          (column + 0.5) * worldMapSampleSize,
+          (row + 0.5) * worldMapSampleSize,
+        );
+        writePixel(
+          image,
+          column + row * buffer.width,
+          sampler.colorAt({ explore: true, ix, iz, step, target: color }),
+        );
+      }
+    buffer
+      .getContext('2d')
+      ?.putImageData(image, 0, 0, 0, nextRow, buffer.width, row - nextRow);
+    this.nextRow = row;
+  }
+
+  private present() {
+    const { canvas, buffer, camera, config, zoom, centerX, centerZ } = this;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const { worldMapSampleSize } = config.map;
+    context.imageSmoothingEnabled = false;
+    context.drawImage(
+      buffer,
+      0,
+      0,
+      buffer.width * worldMapSampleSize,
+      buffer.height * worldMapSampleSize,
+    );
+    const position = camera.getWorldPosition(new THREE.Vector3());
+    const { cellSize } = config.terrain;
+    drawPlayerArrow(context, {
+      angle: cameraHeading(camera),
+      size: 10,
+      x: canvas.width / 2 + (position.x / cellSize - centerX) / zoom,
+      y: canvas.height / 2 + (position.z / cellSize - centerZ) / zoom,
+    });
+  }
+
+  /**
+   * Keeps the drawn image in step with a pan or zoom until it is redrawn:
+   * the whole image moves to canvas (x, y), scaled by `scale`.
+   */
+  private reframe(x: number, y: number, scale: number) {
+    const { buffer, config } = this;
+    const { worldMapSampleSize } = config.map;
+    const context = buffer.getContext('2d');
+    if (!context) return;
+    context.drawImage(
+      buffer,
+      x / worldMapSampleSize,
+      y / worldMapSampleSize,
+      buffer.width * scale,
+      buffer.height * scale,
+    );
+    this.image = context.getImageData(0, 0, buffer.width, buffer.height);
+    this.nextRow = 0;
+  }
+
+  private describe(x: number, y: number) {
+    const { info, sampler, config } = this;
+    if (!info) return;
+    const { ix, iz } = this.cellAt(x, y);
+    const { cellSize, heightScale } = config.terrain;
+    const height = sampler.heightAt(ix, iz) * heightScale;
+    info.textContent = [
+      `x ${(ix * cellSize).toFixed(0)}`,
+      `z ${(iz * cellSize).toFixed(0)}`,
+      `height ${height.toFixed(1)}`,
+      height < config.water.level ? 'water' : sampler.biomeAt(ix, iz),
+    ].join(' · ');
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (event.code === 'KeyM') this.setOpen(!this.opened);
+    else if (event.code === 'Escape' && this.opened) this.setOpen(false);
+  };
+
+  private onResize = () => {
+    if (this.opened) this.resize();
+  };
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (event.button === 0) this.dragging = true;
+  };
+
+  private onMouseUp = () => {
+    this.dragging = false;
+  };
+
+  private onMouseMove = (event: MouseEvent) => {
+    const { opened, dragging, zoom } = this;
+    if (!opened) return;
+    const { clientX, clientY, movementX, movementY } = event;
+    this.describe(clientX, clientY);
+    if (!dragging) return;
+    this.centerX -= movementX * zoom;
+    this.centerZ -= movementY * zoom;
+    this.reframe(movementX, movementY, 1);
+  };
+
+  private onWheel = (event: WheelEvent) => {
+    event.preventDefault();
+    const { canvas, zoom } = this;
+    if (!canvas) return;
+    const { clientX, clientY, deltaY } = event;
+    const next = Math.min(
+      MAX_ZOOM,
+      Math.max(MIN_ZOOM, zoom * 2 ** (deltaY * WHEEL_ZOOM)),
+    );
+    // The cell under the cursor stays put.
+    this.centerX += (clientX - canvas.width / 2) * (zoom - next);
+    this.centerZ += (clientY - canvas.height / 2) * (zoom - next);
+    this.zoom = next;
+    const scale = zoom / next;
+    this.reframe(clientX * (1 - scale), clientY * (1 - scale), scale);
+  };
+}
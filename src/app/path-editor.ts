@@ -0,0 +1,275 @@
+import * as THREE from 'three';
+import { WorldConfig } from './config/world-config';
+import { Terrain } from './terrain/terrain';
+import { traceTerrainPath } from './terrain/paths/path-spline';
+import {
+  PathSurface,
+  TerrainPath,
+  pathSurfaces,
+} from './terrain/paths/terrain-path';
+
+// Furthest the crosshair reaches for ground to place points on, in world units.
+const REACH = 2000;
+const CURSOR_SEGMENTS = 48;
+// Factor one press of a width key scales by.
+const ADJUST_STEP = 1.25;
+// Spline samples per cell along a path.
+const SAMPLES_PER_CELL = 2;
+// Samples either side each path height is averaged over.
+const SMOOTHING = 4;
+// Preview lines float this far above the ground.
+const LIFT = 0.5;
+
+// Digit1 picks the first surface, Digit2 the second.
+const surfaceKeys = pathSurfaces.map((_, index) => `Digit${String(index + 1)}`);
+
+const surfaceColors: Record<PathSurface, string> = {
+  dirt: '#c8935a',
+  gravel: '#d8d8d0',
+};
+
+/**
+ * Editor mode for laying paths. P toggles it; while it is on, clicking puts
+ * down a control point under the crosshair, Enter lays a path along the
+ * spline through them and Backspace takes the last point back. 1 and 2 pick
+ * dirt or gravel, [ and ] change the width, and Ctrl+Z takes up the newest
+ * path.
+ */
+export class PathEditor extends THREE.Group {
+  private readonly camera: THREE.Camera;
+  private readonly terrain: Terrain;
+  private readonly hud: HTMLElement | null;
+  private readonly falloff: number;
+  private readonly cursor: THREE.LineLoop<
+    THREE.BufferGeometry,
+    THREE.LineBasicMaterial
+  >;
+  private readonly preview: THREE.Line<
+    THREE.BufferGeometry,
+    THREE.LineBasicMaterial
+  >;
+  private readonly controlPoints: THREE.Vector3[] = [];
+  private surface: PathSurface;
+  private width: number;
+  private readonly onEnable: () => void;
+  private enabled = false;
+
+  constructor(options: {
+    camera: THREE.Camera;
+    terrain: Terrain;
+    config: WorldConfig;
+    hud: HTMLElement | null;
+    // Called when the editor is switched on, so others can switch off.
+    onEnable: () => void;
+  }) {
+    super();
+    this.name = 'PathEditor';
+    const { camera, terrain, config, hud, onEnable } = options;
+    this.camera = camera;
+    this.terrain = terrain;
+    this.hud = hud;
+    this.onEnable = onEnable;
+    this.falloff = config.paths.falloff;
+    this.surface = config.paths.surface;
+    this.width = config.paths.width;
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      'position',
+      new THREE.BufferAttribute(new Float32Array(CURSOR_SEGMENTS * 3), 3),
+    );
+    const material = { depthTest: false, transparent: true };
+    this.cursor = new THREE.LineLoop(
+      geometry,
+      new THREE.LineBasicMaterial(material),
+    );
+    this.preview = new THREE.Line(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial(material),
+    );
+    for (const line of [this.cursor, this.preview]) {
+      line.frustumCulled = false;
+      line.renderOrder = 1;
+      line.visible = false;
+      this.add(line);
+    }
+
+    document.addEventListener('keydown', this.onKeyDown);
+    document.addEventListener('mousedown', this.onMouseDown);
+    this.updateHud();
+  }
+
+  update() {
+    const { cursor, enabled } = this;
+    if (!enabled) return;
+    const hit = this.aim();
+    cursor.visible = hit !== null;
+    if (hit) this.placeCursor(hit.x, hit.z);
+  }
+
+  dispose() {
+    document.removeEventListener('keydown', this.onKeyDown);
+    document.removeEventListener('mousedown', this.onMouseDown);
+    for (const line of [this.cursor, this.preview]) {
+      line.geometry.dispose();
+      line.material.dispose();
+    }
+  }
+
+  // Ground under the crosshair, or null.
+  private aim() {
+    const { camera, terrain } = this;
+    const ray = new THREE.Ray();
+    camera.getWorldPosition(ray.origin);
+    camera.getWorldDirection(ray.direction);
+    return terrain.raycast(ray, REACH)?.point ?? null;
+  }
+
+  // Rings the strip width, following the ground.
+  private placeCursor(x: number, z: number) {
+    const { cursor, terrain, width } = this;
+    const attribute = cursor.geometry.getAttribute('position');
+    for (let index = 0; index < CURSOR_SEGMENTS; index += 1) {
+      const angle = (index / CURSOR_SEGMENTS) * Math.PI * 2;
+      const px = x + (Math.cos(angle) * width) / 2;
+      const pz = z + (Math.sin(angle) * width) / 2;
+      attribute.setXYZ(index, px, terrain.getHeightAt(px, pz) + LIFT, pz);
+    }
+    attribute.needsUpdate = true;
+  }
+
+  /**
+   * Height of the ground at (x, z) without the sculpted edits, which are
+   * laid over paths rather than under them.
+   */
+  private groundHeight(x: number, z: number) {
+    const { sampler, edits, context } = this.terrain;
+    const { cellSize, heightScale } = context.terrain;
+    const fx = x / cellSize;
+    const fz = z / cellSize;
+    const ix = Math.floor(fx);
+    const iz = Math.floor(fz);
+    const cell = (cx: number, cz: number) =>
+      sampler.getCellHeight(cx, cz) - edits.sampleCell(cx, cz);
+    const near = cell(ix, iz) + (cell(ix + 1, iz) - cell(ix, iz)) * (fx - ix);
+    const far =
+      cell(ix, iz + 1) + (cell(ix + 1, iz + 1) - cell(ix, iz + 1)) * (fx - ix);
+    return (near + (far - near) * (fz - iz)) * heightScale;
+  }
+
+  private trace(): TerrainPath | null {
+    const { controlPoints, surface, width, falloff, terrain } = this;
+    if (controlPoints.length < 2) return null;
+    return traceTerrainPath({
+      controlPoints,
+      falloff,
+      groundHeight: (x, z) => this.groundHeight(x, z),
+      smoothing: SMOOTHING,
+      spacing: terrain.context.terrain.cellSize / SAMPLES_PER_CELL,
+      surface,
+      width,
+    });
+  }
+
+  // Draws the path the control points would lay, or just the points.
+  private updatePreview() {
+    const { preview, controlPoints, terrain, enabled } = this;
+    const path = this.trace();
+    const points = path
+      ? path.points.map(([x, y, z]) => new THREE.Vector3(x, y + LIFT, z))
+      : controlPoints.map(
+          ({ x, z }) =>
+            new THREE.Vector3(x, terrain.getHeightAt(x, z) + LIFT, z),
+        );
+    preview.geometry.dispose();
+    preview.geometry = new THREE.BufferGeometry().setFromPoints(points);
+    preview.visible = enabled && points.length > 0;
+  }
+
+  // Lays the path through the control points and regenerates the chunks under it.
+  private lay() {
+    const { controlPoints, terrain } = this;
+    const path = this.trace();
+    if (!path) return;
+    this.regenerate(terrain.paths.add(path));
+    controlPoints.length = 0;
+  }
+
+  private regenerate(chunks: [number, number][]) {
+    for (const [cx, cz] of chunks) this.terrain.streamer.invalidate(cx, cz);
+  }
+
+  // Switches the editor on or off, as its key does.
+  public setEnabled(enabled: boolean) {
+    if (enabled && !this.enabled) this.onEnable();
+    this.enabled = enabled;
+    this.cursor.visible = false;
+    this.updatePreview();
+    this.updateHud();
+  }
+
+  private updateHud() {
+    const { hud, cursor, preview, surface, width, controlPoints, enabled } =
+      this;
+    cursor.material.color.set(surfaceColors[surface]);
+    preview.material.color.set(surfaceColors[surface]);
+    if (!hud) return;
+    hud.hidden = !enabled;
+    hud.textContent = [
+      `Path: ${surface}`,
+      `width ${width.toFixed(0)}`,
+      `${String(controlPoints.length)} points`,
+    ].join(' · ');
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (event.code === 'KeyP') {
+      this.setEnabled(!this.enabled);
+      return;
+    }
+    if (!this.enabled || !this.handleKey(event)) return;
+    event.preventDefault();
+    this.updatePreview();
+    this.updateHud();
+  };
+
+  // Applies an editor shortcut; false when `event` is not one.
+  private handleKey(event: KeyboardEvent) {
+    const { controlPoints, terrain } = this;
+    switch (event.code) {
+      case 'Enter':
+        this.lay();
+        return true;
+      case 'Backspace':
+        controlPoints.pop();
+        return true;
+      case 'BracketLeft':
+        this.width /= ADJUST_STEP;
+        return true;
+      case 'BracketRight':
+        this.width *= ADJUST_STEP;
+        return true;
+      case 'KeyZ':
+        if (!(event.ctrlKey || event.metaKey)) return false;
+        this.regenerate(terrain.paths.removeLast());
+        return true;
+      default: {
+        const index = surfaceKeys.indexOf(event.code);
+        if (index === -1) return false;
+        this.surface = pathSurfaces[index];
+        return true;
+      }
+    }
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    // Only while the pointer is locked, so the click that locks it is ignored.
+    if (!this.enabled || event.button !== 0 || !document.pointerLockElement)
+      return;
+    const hit = this.aim();
+    if (!hit) return;
+    this.controlPoints.push(hit.clone());
+    this.updatePreview();
+    this.updateHud();
+  };
+}
@@ -1,12 +1,10 @@
 import * as THREE from 'three';
 import { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls';
+import { PlayerConfig } from './config/world-config';
 
-export type PlayerOptions = {
-  speed: number;
-  gravity: number;
-  jumpVelocity: number;
-  height: number;
+export type PlayerOptions = PlayerConfig & {
   ground: (x: number, z: number) => number;
+  minLevel: number;
 };
 
 export class Player {
@@ -29,12 +27,12 @@ export class Player {
   private readonly jumpVelocity: number;
   private readonly height: number;
   private readonly groundFn: (x: number, z: number) => number;
-  private readonly sprintMultiplier = 10;
-  private readonly bobFreq = 8;
-  private readonly bobAmpY = 0.03;
-  private readonly bobAmpX = 0.02;
-  private readonly bobRotZ = 0.03;
-  private readonly minLevel = 16;
+  private readonly sprintMultiplier: number;
+  private readonly bobFreq: number;
+  private readonly bobAmpY: number;
+  private readonly bobAmpX: number;
+  private readonly bobRotZ: number;
+  private readonly minLevel: number;
 
   constructor(
     camera: THREE.Camera,
@@ -46,6 +44,12 @@ export class Player {
     this.jumpVelocity = options.jumpVelocity * 20;
     this.height = options.height * 10;
     this.groundFn = options.ground;
+    this.sprintMultiplier = options.sprintMultiplier;
+    this.bobFreq = options.bobFrequency;
+    this.bobAmpY = options.bobAmplitudeY;
+    this.bobAmpX = options.bobAmplitudeX;
+    this.bobRotZ = options.bobRotationZ;
+    this.minLevel = options.minLevel;
 
     this.controls = new PointerLockControls(camera, domElement);
     this.object = this.controls.object;
@@ -0,0 +1,62 @@
+export type RandomSource = () => number;
+
+// Independent stream per generation layer; draws never leak across layers.
+export const RandomLayer = {
+  clouds: 1,
+  erosion: 7,
+  flowers: 2,
+  grass: 3,
+  rocks: 8,
+  terrainTexture: 4,
+  treePrototypes: 5,
+  trees: 6,
+} as const;
+
+export type RandomLayerId = (typeof RandomLayer)[keyof typeof RandomLayer];
+
+const MODULUS_A = 2_147_483_563;
+const MODULUS_B = 2_147_483_399;
+
+function positiveModulo(value: number, modulus: number) {
+  return ((Math.trunc(value) % modulus) + modulus) % modulus;
+}
+
+/**
+ * Mix integers into a seed. Every intermediate product stays below 2^53, so
+ * the arithmetic is exact and the result is identical on every engine.
+ */
+export function hashSeed(...values: number[]) {
+  let hash = 2_045_213;
+  for (const value of values) {
+    hash = positiveModulo(hash * 1_000_003 + value, MODULUS_A);
+    hash = (hash * 40_014) % MODULUS_A;
+    hash = (hash * 40_692 + 12_345) % MODULUS_A;
+  }
+  return hash;
+}
+
+// L'Ecuyer's combined multiplicative generator (period ~2.3e18).
+export function createRandom(seed: number): RandomSource {
+  let stateA = 1 + positiveModulo(seed, MODULUS_A - 1);
+  let stateB = 1 + positiveModulo(seed * 7 + 3, MODULUS_B - 1);
+  return () => {
+    stateA = (stateA * 40_014) % MODULUS_A;
+    stateB = (stateB * 40_692) % MODULUS_B;
+    let combined = stateA - stateB;
+    if (combined < 1) combined += MODULUS_A - 1;
+    return (combined - 1) / (MODULUS_A - 1);
+  };
+}
+
+export function createChunkRandom(
+  seed: number,
+  cx: number,
+  cz: number,
+  layer: RandomLayerId,
+): RandomSource {
+  return createRandom(hashSeed(seed, cx, cz, layer));
+}
+
+export function randomRange(random: RandomSource, min: number, max: number) {
+  return random() * (max - min) + min;
+}
@@ -0,0 +1,101 @@
+import { WorldSave, parseWorldSave } from './world-save';
+
+export type SaveFileFormat = 'json' | 'binary';
+
+export const saveFileExtensions: Record<SaveFileFormat, string> = {
+  binary: '.world',
+  json: '.json',
+};
+
+// First bytes of a binary save; anything else is read as JSON.
+const MAGIC = 'WRLD';
+
+function jsonSave(save: WorldSave, withEdits: boolean) {
+  const edits = withEdits
+    ? save.edits.map(({ cx, cz, deltas }) => ({
+        cx,
+        cz,
+        deltas: [...deltas],
+      }))
+    : [];
+  return JSON.stringify({ ...save, edits });
+}
+
+export function encodeWorldSaveJson(save: WorldSave): string {
+  return jsonSave(save, true);
+}
+
+/**
+ * Packs a save as the magic, a little-endian byte length and a JSON header
+ * without the edits, then per edited chunk its coordinates, cell count and
+ * the raw float deltas. Much smaller than JSON once much is sculpted.
+ */
+export function encodeWorldSaveBinary(save: WorldSave): ArrayBuffer {
+  const header = new TextEncoder().encode(jsonSave(save, false));
+  // Padded so the float blocks stay four-byte aligned.
+  const headerEnd = 8 + Math.ceil(header.length / 4) * 4;
+  const editBytes = save.edits.reduce(
+    (total, { deltas }) => total + 12 + deltas.byteLength,
+    4,
+  );
+  const buffer = new ArrayBuffer(headerEnd + editBytes);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  bytes.set(new TextEncoder().encode(MAGIC), 0);
+  view.setUint32(4, header.length, true);
+  bytes.set(header, 8);
+  let offset = headerEnd;
+  view.setUint32(offset, save.edits.length, true);
+  offset += 4;
+  for (const { cx, cz, deltas } of save.edits) {
+    view.setInt32(offset, cx, true);
+    view.setInt32(offset + 4, cz, true);
+    view.setUint32(offset + 8, deltas.length, true);
+    offset += 12;
+    for (const delta of deltas) {
+      view.setFloat32(offset, delta, true);
+      offset += 4;
+    }
+  }
+  return buffer;
+}
+
+function decodeBinary(buffer: ArrayBuffer): unknown {
+  const view = new DataView(buffer);
+  const headerLength = view.getUint32(4, true);
+  const header: unknown = JSON.parse(
+    new TextDecoder().decode(new Uint8Array(buffer, 8, headerLength)),
+  );
+  let offset = 8 + Math.ceil(headerLength / 4) * 4;
+  const count = view.getUint32(offset, true);
+  offset += 4;
+  const edits = [];
+  for (let index = 0; index < count; index += 1) {
+    const length = view.getUint32(offset + 8, true);
+    const deltas = new Float32Array(length);
+    for (let cell = 0; cell < length; cell += 1)
+      deltas[cell] = view.getFloat32(offset + 12 + cell * 4, true);
+    edits.push({
+      cx: view.getInt32(offset, true),
+      cz: view.getInt32(offset + 4, true),
+      deltas,
+    });
+    offset += 12 + length * 4;
+  }
+  return typeof header === 'object' ? { ...header, edits } : header;
+}
+
+/**
+ * Reads a save file in either format, migrating older versions. Truncated
+ * or malformed files throw.
+ */
+export function decodeWorldSave(buffer: ArrayBuffer): WorldSave {
+  const magic = new TextDecoder().decode(
+    new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)),
+  );
+  const data: unknown =
+    magic === MAGIC
+      ? decodeBinary(buffer)
+      : JSON.parse(new TextDecoder().decode(buffer));
+  return parseWorldSave(data);
+}
@@ -0,0 +1,131 @@
+import { SaveConfig } from '../config/world-config';
+import { downloadBlob } from '../download';
+import {
+  SaveFileFormat,
+  decodeWorldSave,
+  encodeWorldSaveBinary,
+  encodeWorldSaveJson,
+  saveFileExtensions,
+} from './save-codec';
+import { SaveStore } from './save-store';
+import { WorldParts, captureWorldSave } from './world-state';
+
+// Slot an imported file is stored in before the page reloads into it.
+const IMPORT_SLOT = 'import';
+
+const autosaveSlot = (index: number) => `autosave-${String(index + 1)}`;
+
+/**
+ * Keeps the world saved. Autosaves go to rotating IndexedDB slots every
+ * `autosaveInterval` seconds and whenever the page is hidden. Ctrl+S
+ * downloads the world as JSON, Ctrl+Shift+S as a compact binary file, and
+ * Ctrl+O opens one; an opened world replaces this one through a reload.
+ */
+export class SaveManager {
+  private readonly store: SaveStore;
+  private readonly parts: WorldParts;
+  private readonly config: SaveConfig;
+  private elapsed = 0;
+  private saving = false;
+  // Set once the page is leaving for another world, which must not be saved over.
+  private leaving = false;
+
+  constructor(options: {
+    store: SaveStore;
+    parts: WorldParts;
+    config: SaveConfig;
+  }) {
+    this.store = options.store;
+    this.parts = options.parts;
+    this.config = options.config;
+    document.addEventListener('keydown', this.onKeyDown);
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+  }
+
+  update(delta: number) {
+    this.elapsed += delta;
+    if (this.elapsed < this.config.autosaveInterval) return;
+    this.elapsed = 0;
+    this.autosave();
+  }
+
+  // Writes over the oldest autosave slot; skipped while a save is running.
+  autosave() {
+    if (this.saving || this.leaving) return;
+    this.saving = true;
+    this.writeAutosave()
+      .finally(() => {
+        this.saving = false;
+      })
+      .catch(console.error);
+  }
+
+  exportFile(format: SaveFileFormat) {
+    const save = captureWorldSave(this.parts);
+    const blob =
+      format === 'json'
+        ? new Blob([encodeWorldSaveJson(save)], { type: 'application/json' })
+        : new Blob([encodeWorldSaveBinary(save)], {
+            type: 'application/octet-stream',
+          });
+    downloadBlob(
+      blob,
+      `world-${String(save.config.terrain.seed)}${saveFileExtensions[format]}`,
+    );
+  }
+
+  // Loads a save file and reloads the page into it, as the newest save.
+  async importFile(file: File) {
+    const save = decodeWorldSave(await file.arrayBuffer());
+    this.leaving = true;
+    await this.store.write(IMPORT_SLOT, {
+      ...save,
+      savedAt: new Date().toISOString(),
+    });
+    globalThis.location.assign(globalThis.location.pathname);
+  }
+
+  dispose() {
+    document.removeEventListener('keydown', this.onKeyDown);
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+  }
+
+  private async writeAutosave() {
+    const { store, config, parts } = this;
+    const save = captureWorldSave(parts);
+    const slots = await store.list();
+    const saved = new Map(slots.map(({ slot, savedAt }) => [slot, savedAt]));
+    const [oldest] = Array.from({ length: config.autosaveSlots }, (_, index) =>
+      autosaveSlot(index),
+    ).toSorted((first, second) =>
+      (saved.get(first) ?? '').localeCompare(saved.get(second) ?? ''),
+    );
+    await store.write(oldest, save);
+  }
+
+  private chooseFile() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = Object.values(saveFileExtensions).join(',');
+    input.addEventListener('change', () => {
+      const file = input.files?.item(0);
+      if (file) this.importFile(file).catch(console.error);
+    });
+    input.click();
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (!event.ctrlKey && !event.metaKey) return;
+    if (event.code === 'KeyS') {
+      event.preventDefault();
+      this.exportFile(event.shiftKey ? 'binary' : 'json');
+    } else if (event.code === 'KeyO') {
+      event.preventDefault();
+      this.chooseFile();
+    }
+  };
+
+  private onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') this.autosave();
+  };
+}
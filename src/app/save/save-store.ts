@@ -0,0 +1,83 @@
+import { WorldSave, parseWorldSave } from './world-save';
+
+const DATABASE_NAME = 'three-test';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'saves';
+
+export type SaveSlot = { slot: string; savedAt: string };
+
+function requestResult<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.addEventListener('success', () => {
+      resolve(request.result);
+    });
+    request.addEventListener('error', () => {
+      reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+  });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.addEventListener('complete', () => {
+      resolve();
+    });
+    transaction.addEventListener('error', () => {
+      reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    });
+    transaction.addEventListener('abort', () => {
+      reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  });
+}
+
+function openDatabase() {
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.addEventListener('upgradeneeded', () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'slot' });
+  });
+  return requestResult(request);
+}
+
+/**
+ * Named save slots in the browser's IndexedDB. Saves are stored as they are
+ * and migrated when read, so slots written by older builds still load.
+ */
+export class SaveStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  // Every slot, newest first.
+  async list(): Promise<SaveSlot[]> {
+    const store = await this.objectStore('readonly');
+    const records = (await requestResult(store.getAll())) as SaveSlot[];
+    return records
+      .map(({ slot, savedAt }) => ({ savedAt, slot }))
+      .toSorted((first, second) => second.savedAt.localeCompare(first.savedAt));
+  }
+
+  // The save in `slot`, or null when the slot is empty.
+  async read(slot: string): Promise<WorldSave | null> {
+    const store = await this.objectStore('readonly');
+    const record = (await requestResult(store.get(slot))) as
+      { save: unknown } | undefined;
+    return record ? parseWorldSave(record.save) : null;
+  }
+
+  async write(slot: string, save: WorldSave) {
+    const store = await this.objectStore('readwrite');
+    store.put({ save, savedAt: save.savedAt, slot });
+    await transactionDone(store.transaction);
+  }
+
+  async remove(slot: string) {
+    const store = await this.objectStore('readwrite');
+    store.delete(slot);
+    await transactionDone(store.transaction);
+  }
+
+  private async objectStore(mode: IDBTransactionMode) {
+    this.database ??= openDatabase();
+    const database = await this.database;
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
@@ -0,0 +1,47 @@
+import { SaveStore } from './save-store';
+import { WorldSave } from './world-save';
+
+export type WorldSaveChoice = {
+  save: WorldSave | null;
+  // Why the save the page asked for could not be resumed, or null.
+  warning: string | null;
+};
+
+/**
+ * Pick the save a page load resumes: the slot named by `?save=<slot>`, else
+ * the newest save in the browser. `?new`, `?config=` or any `section.key`
+ * override start a fresh world instead. A missing, corrupt or outdated save,
+ * or no IndexedDB at all, also starts a fresh world, with a warning naming
+ * the slot.
+ */
+export async function resolveWorldSave(
+  parameters: URLSearchParams,
+  store: SaveStore,
+): Promise<WorldSaveChoice> {
+  let slot = parameters.get('save');
+  const fresh =
+    parameters.has('new') ||
+    parameters.has('config') ||
+    [...parameters.keys()].some((name) => name.includes('.'));
+  if (slot === null && fresh) return { save: null, warning: null };
+  try {
+    if (slot === null) {
+      const slots = await store.list();
+      slot = slots.at(0)?.slot ?? null;
+    }
+    if (slot === null) return { save: null, warning: null };
+    const save = await store.read(slot);
+    if (save) return { save, warning: null };
+    return {
+      save: null,
+      warning: `No saved world in slot ${slot}; started a new world`,
+    };
+  } catch (error) {
+    console.error(error);
+    const source = slot === null ? 'the saved worlds' : `slot ${slot}`;
+    return {
+      save: null,
+      warning: `Could not load ${source} (${String(error)}); started a new world`,
+    };
+  }
+}
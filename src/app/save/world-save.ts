@@ -0,0 +1,171 @@
+import { WorldConfig } from '../config/world-config';
+import { defaultWorldConfig } from '../config/default-world-config';
+import { createWorldConfig } from '../config/world-config-validation';
+import { TimeOfDay } from '../sky/sky';
+import { ChunkEdits } from '../terrain/sculpt/terrain-edits';
+import {
+  PathSurface,
+  TerrainPath,
+  pathSurfaces,
+} from '../terrain/paths/terrain-path';
+
+export type PlayerTransform = {
+  position: [number, number, number];
+  // Radians; the camera turns by yaw first, then pitches.
+  yaw: number;
+  pitch: number;
+};
+
+/**
+ * Everything needed to bring a world back: its config (seed included), where
+ * the player stands, the time of day, the sculpted chunks and the laid paths.
+ */
+export type WorldSave = {
+  version: number;
+  // ISO 8601.
+  savedAt: string;
+  config: WorldConfig;
+  player: PlayerTransform;
+  timeOfDay: TimeOfDay;
+  edits: ChunkEdits[];
+  paths: TerrainPath[];
+};
+
+type SaveRecord = Record<string, unknown>;
+
+/**
+ * Upgrades a save by one version: entry n - 1 takes a version n save to
+ * n + 1. Adding a migration is what bumps `SAVE_VERSION`. Settings added to
+ * the config since need no migration, they take their defaults on load.
+ */
+const migrations: ((save: SaveRecord) => SaveRecord)[] = [
+  // Version 2 added paths.
+  (save) => ({ ...save, paths: [] }),
+];
+
+export const SAVE_VERSION = migrations.length + 1;
+
+function isRecord(value: unknown): value is SaveRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function finite(path: string, value: unknown) {
+  if (typeof value !== 'number' || !Number.isFinite(value))
+    throw new TypeError(`${path} must be a finite number`);
+  return value;
+}
+
+function record(path: string, value: unknown) {
+  if (!isRecord(value)) throw new TypeError(`${path} must be an object`);
+  return value;
+}
+
+function migrate(save: SaveRecord) {
+  const { version } = save;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1)
+    throw new TypeError('Not a world save: missing version');
+  if (version > SAVE_VERSION)
+    throw new RangeError(
+      `World save version ${String(version)} is newer than this build reads (${String(SAVE_VERSION)})`,
+    );
+  let current = save;
+  for (let from = version; from < SAVE_VERSION; from += 1)
+    current = { ...migrations[from - 1](current), version: from + 1 };
+  return current;
+}
+
+function parsePlayer(value: unknown): PlayerTransform {
+  const { position, yaw, pitch } = record('player', value);
+  if (!Array.isArray(position) || position.length !== 3)
+    throw new TypeError('player.position must be three numbers');
+  return {
+    pitch: finite('player.pitch', pitch),
+    position: [
+      finite('player.position', position[0]),
+      finite('player.position', position[1]),
+      finite('player.position', position[2]),
+    ],
+    yaw: finite('player.yaw', yaw),
+  };
+}
+
+function parseEdits(value: unknown, chunkSize: number): ChunkEdits[] {
+  if (!Array.isArray(value)) throw new TypeError('edits must be an array');
+  return value.map((entry: unknown, index) => {
+    const path = `edits[${String(index)}]`;
+    const { cx, cz, deltas } = record(path, entry);
+    if (!Number.isInteger(cx) || !Number.isInteger(cz))
+      throw new TypeError(`${path} needs integer chunk coordinates`);
+    if (!(deltas instanceof Float32Array) && !Array.isArray(deltas))
+      throw new TypeError(`${path}.deltas must be an array of numbers`);
+    if (deltas.length !== chunkSize * chunkSize)
+      throw new RangeError(
+        `${path}.deltas must hold ${String(chunkSize * chunkSize)} cells`,
+      );
+    return {
+      cx: cx as number,
+      cz: cz as number,
+      deltas: Float32Array.from(deltas, (delta: unknown) =>
+        finite(`${path}.deltas`, delta),
+      ),
+    };
+  });
+}
+
+function parsePoint(path: string, value: unknown): [number, number, number] {
+  if (!Array.isArray(value) || value.length !== 3)
+    throw new TypeError(`${path} must be three numbers`);
+  return [
+    finite(path, value[0]),
+    finite(path, value[1]),
+    finite(path, value[2]),
+  ];
+}
+
+function parsePaths(value: unknown): TerrainPath[] {
+  if (!Array.isArray(value)) throw new TypeError('paths must be an array');
+  return value.map((entry: unknown, index) => {
+    const path = `paths[${String(index)}]`;
+    const { surface, width, falloff, points } = record(path, entry);
+    if (!pathSurfaces.includes(surface as PathSurface))
+      throw new TypeError(
+        `${path}.surface must be one of ${pathSurfaces.join(', ')}`,
+      );
+    if (!Array.isArray(points) || points.length < 2)
+      throw new TypeError(`${path}.points must hold at least two points`);
+    return {
+      falloff: finite(`${path}.falloff`, falloff),
+      points: points.map((point: unknown) =>
+        parsePoint(`${path}.points`, point),
+      ),
+      surface: surface as PathSurface,
+      width: finite(`${path}.width`, width),
+    };
+  });
+}
+
+/**
+ * Turn untrusted data (a parsed file, an IndexedDB record) into a current
+ * save, migrating older versions. Anything malformed throws.
+ */
+export function parseWorldSave(value: unknown): WorldSave {
+  const save = migrate(record('World save', value));
+  const { savedAt, timeOfDay, edits, paths, player } = save;
+  if (typeof savedAt !== 'string' || Number.isNaN(Date.parse(savedAt)))
+    throw new TypeError('savedAt must be a date');
+  // Settings the save predates come from the defaults.
+  const config = createWorldConfig(save.config, defaultWorldConfig);
+  const { elevation, azimuth } = record('timeOfDay', timeOfDay);
+  return {
+    config,
+    edits: parseEdits(edits, config.terrain.chunkSize),
+    paths: parsePaths(paths),
+    player: parsePlayer(player),
+    savedAt,
+    timeOfDay: {
+      azimuth: finite('timeOfDay.azimuth', azimuth),
+      elevation: finite('timeOfDay.elevation', elevation),
+    },
+    version: SAVE_VERSION,
+  };
+}
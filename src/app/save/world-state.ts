@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+import { WorldConfig } from '../config/world-config';
+import { Player } from '../player';
+import { SkyController } from '../sky/sky';
+import { Terrain } from '../terrain/terrain';
+import { SAVE_VERSION, WorldSave } from './world-save';
+
+// The live pieces of the world a save is taken from and put back into.
+export type WorldParts = {
+  config: WorldConfig;
+  player: Player;
+  sky: SkyController;
+  terrain: Terrain;
+};
+
+export function captureWorldSave(parts: WorldParts): WorldSave {
+  const { config, player, sky, terrain } = parts;
+  const { position, quaternion } = player.object;
+  const rotation = new THREE.Euler().setFromQuaternion(quaternion, 'YXZ');
+  return {
+    config,
+    edits: terrain.edits.snapshot(),
+    paths: terrain.paths.snapshot(),
+    player: {
+      pitch: rotation.x,
+      position: position.toArray(),
+      yaw: rotation.y,
+    },
+    savedAt: new Date().toISOString(),
+    timeOfDay: sky.timeOfDay,
+    version: SAVE_VERSION,
+  };
+}
+
+/**
+ * Puts a save back into a world built from its config. Call before the first
+ * terrain update, so chunks are generated with the saved edits and paths from
+ * the start.
+ */
+export function applyWorldSave(save: WorldSave, parts: WorldParts) {
+  const { player, sky, terrain } = parts;
+  const { position, yaw, pitch } = save.player;
+  terrain.edits.restore(save.edits);
+  terrain.paths.restore(save.paths);
+  sky.setTimeOfDay(save.timeOfDay);
+  player.object.position.fromArray(position);
+  player.object.rotation.set(pitch, yaw, 0, 'YXZ');
+  terrain.updatePlayerPosition(player.object.position);
+}
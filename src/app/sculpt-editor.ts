@@ -0,0 +1,210 @@
+import * as THREE from 'three';
+import { WorldConfig } from './config/world-config';
+import { NoiseGenerator } from './terrain/noise';
+import { Terrain } from './terrain/terrain';
+import { TerrainSculptor } from './terrain/sculpt/terrain-sculptor';
+import { SculptBrush, sculptBrushes } from './terrain/sculpt/sculpt-brushes';
+
+// Furthest the crosshair reaches for ground to sculpt, in world units.
+const REACH = 2000;
+const CURSOR_SEGMENTS = 64;
+// Factor one press of a size or strength key scales by.
+const ADJUST_STEP = 1.25;
+
+// Digit1 picks the first brush, Digit2 the second and so on.
+const brushKeys = sculptBrushes.map((_, index) => `Digit${String(index + 1)}`);
+
+const brushColors: Record<SculptBrush, string> = {
+  flatten: '#ffd34d',
+  lower: '#ff6b5e',
+  noise: '#c58bff',
+  raise: '#6bff8a',
+  smooth: '#5ec8ff',
+};
+
+/**
+ * Editor mode for sculpting the terrain under the crosshair. E toggles it;
+ * while it is on, holding the left mouse button applies the brush, 1-5 pick a
+ * brush, [ and ] resize it, - and = change its strength, and Ctrl+Z / Ctrl+Y
+ * undo and redo whole strokes.
+ */
+export class SculptEditor extends THREE.Group {
+  public readonly sculptor: TerrainSculptor;
+  private readonly camera: THREE.Camera;
+  private readonly terrain: Terrain;
+  private readonly hud: HTMLElement | null;
+  private readonly cursor: THREE.LineLoop<
+    THREE.BufferGeometry,
+    THREE.LineBasicMaterial
+  >;
+  private readonly onEnable: () => void;
+  private enabled = false;
+  private pressed = false;
+
+  constructor(options: {
+    camera: THREE.Camera;
+    terrain: Terrain;
+    config: WorldConfig;
+    hud: HTMLElement | null;
+    // Called when the editor is switched on, so others can switch off.
+    onEnable: () => void;
+  }) {
+    super();
+    this.name = 'SculptEditor';
+    const { camera, terrain, config, hud, onEnable } = options;
+    this.camera = camera;
+    this.terrain = terrain;
+    this.hud = hud;
+    this.onEnable = onEnable;
+    this.sculptor = new TerrainSculptor({
+      cellSize: config.terrain.cellSize,
+      edits: terrain.edits,
+      getCellHeight: (ix, iz) => terrain.sampler.getCellHeight(ix, iz),
+      heightScale: config.terrain.heightScale,
+      historyLimit: config.sculpt.historyLimit,
+      noiseGenerator: new NoiseGenerator(config.terrain.seed),
+      onChange: (chunks, settled) => {
+        terrain.applyEdits(chunks, settled);
+      },
+      radius: config.sculpt.brushRadius,
+      seed: config.terrain.seed,
+      strength: config.sculpt.brushStrength,
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      'position',
+      new THREE.BufferAttribute(new Float32Array(CURSOR_SEGMENTS * 3), 3),
+    );
+    this.cursor = new THREE.LineLoop(
+      geometry,
+      new THREE.LineBasicMaterial({ depthTest: false, transparent: true }),
+    );
+    this.cursor.frustumCulled = false;
+    this.cursor.renderOrder = 1;
+    this.cursor.visible = false;
+    this.add(this.cursor);
+
+    document.addEventListener('keydown', this.onKeyDown);
+    document.addEventListener('mousedown', this.onMouseDown);
+    document.addEventListener('mouseup', this.onMouseUp);
+    this.updateHud();
+  }
+
+  update(delta: number) {
+    const { cursor, sculptor, camera, terrain, enabled, pressed } = this;
+    if (!enabled) return;
+    const ray = new THREE.Ray();
+    camera.getWorldPosition(ray.origin);
+    camera.getWorldDirection(ray.direction);
+    const hit = terrain.raycast(ray, REACH);
+    cursor.visible = hit !== null;
+    if (!hit) return;
+    const { x, z } = hit.point;
+    this.placeCursor(x, z);
+    if (!pressed) return;
+    if (!sculptor.isStroking) sculptor.beginStroke(x, z);
+    sculptor.sculpt(x, z, delta);
+  }
+
+  dispose() {
+    document.removeEventListener('keydown', this.onKeyDown);
+    document.removeEventListener('mousedown', this.onMouseDown);
+    document.removeEventListener('mouseup', this.onMouseUp);
+    this.cursor.geometry.dispose();
+    this.cursor.material.dispose();
+  }
+
+  // Rings the brush footprint, following the ground.
+  private placeCursor(x: number, z: number) {
+    const { radius } = this.sculptor;
+    const attribute = this.cursor.geometry.getAttribute('position');
+    for (let index = 0; index < CURSOR_SEGMENTS; index += 1) {
+      const angle = (index / CURSOR_SEGMENTS) * Math.PI * 2;
+      const px = x + Math.cos(angle) * radius;
+      const pz = z + Math.sin(angle) * radius;
+      attribute.setXYZ(index, px, this.terrain.getHeightAt(px, pz) + 0.5, pz);
+    }
+    attribute.needsUpdate = true;
+  }
+
+  // Switches the editor on or off, as its key does.
+  public setEnabled(enabled: boolean) {
+    if (enabled && !this.enabled) this.onEnable();
+    this.enabled = enabled;
+    this.pressed = false;
+    this.sculptor.endStroke();
+    this.cursor.visible = false;
+    this.updateHud();
+  }
+
+  private updateHud() {
+    const { sculptor, hud, cursor, enabled } = this;
+    cursor.material.color.set(brushColors[sculptor.brush]);
+    if (!hud) return;
+    hud.hidden = !enabled;
+    hud.textContent = [
+      `Sculpt: ${sculptor.brush}`,
+      `radius ${sculptor.radius.toFixed(0)}`,
+      `strength ${sculptor.strength.toFixed(1)}`,
+    ].join(' · ');
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (event.code === 'KeyE') {
+      this.setEnabled(!this.enabled);
+      return;
+    }
+    if (!this.enabled || !this.handleKey(event)) return;
+    event.preventDefault();
+    this.updateHud();
+  };
+
+  // Applies an editor shortcut; false when `event` is not one.
+  private handleKey(event: KeyboardEvent) {
+    const { sculptor } = this;
+    const command = event.ctrlKey || event.metaKey;
+    switch (event.code) {
+      case 'BracketLeft':
+        sculptor.radius /= ADJUST_STEP;
+        return true;
+      case 'BracketRight':
+        sculptor.radius *= ADJUST_STEP;
+        return true;
+      case 'Minus':
+        sculptor.strength /= ADJUST_STEP;
+        return true;
+      case 'Equal':
+        sculptor.strength *= ADJUST_STEP;
+        return true;
+      case 'KeyZ':
+        if (!command) return false;
+        if (event.shiftKey) sculptor.redo();
+        else sculptor.undo();
+        return true;
+      case 'KeyY':
+        if (!command) return false;
+        sculptor.redo();
+        return true;
+      default: {
+        const index = brushKeys.indexOf(event.code);
+        if (index === -1) return false;
+        sculptor.brush = sculptBrushes[index];
+        return true;
+      }
+    }
+  }
+
+  private onMouseDown = (event: MouseEvent) => {
+    // Only while the pointer is locked, so the click that locks it is ignored.
+    if (!this.enabled || event.button !== 0 || !document.pointerLockElement)
+      return;
+    this.pressed = true;
+  };
+
+  private onMouseUp = (event: MouseEvent) => {
+    if (event.button !== 0) return;
+    this.pressed = false;
+    this.sculptor.endStroke();
+  };
+}
@@ -1,16 +1,15 @@
 import * as THREE from 'three';
-import { ImprovedNoise } from 'three/examples/jsm/math/ImprovedNoise.js';
-
-function getRandomArbitrary(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
-}
+import { NoiseGenerator, NoiseOptions } from '../terrain/noise';
+import { RandomSource, randomRange } from '../random';
 
 export class CloudVolume extends THREE.Mesh {
   private static readonly color: string = '#fff';
 
-  constructor(position: THREE.Vector3) {
-    const perlin = new ImprovedNoise();
-
+  constructor(
+    position: THREE.Vector3,
+    random: RandomSource,
+    noise: { noiseGenerator: NoiseGenerator; noiseOptions: NoiseOptions },
+  ) {
     const size = 64;
     const width = size;
     const height = size;
@@ -18,7 +17,6 @@ export class CloudVolume extends THREE.Mesh {
 
     const data = new Uint8Array(width * height * depth);
     let index = 0;
-    const scale = 0.05;
     const vector = new THREE.Vector3();
 
     const total = width * height * depth;
@@ -33,10 +31,16 @@ export class CloudVolume extends THREE.Mesh {
           .subScalar(size / 2)
           .divideScalar(size)
           .length();
-      const noise = 128 + 128 * perlin.noise(x * scale, y * scale, z * scale);
+      const density3d = noise.noiseGenerator.sampleVolume(
+        x,
+        y,
+        z,
+        noise.noiseOptions,
+      );
+      const noiseValue = 128 + 128 * density3d;
       data[index] = Math.max(
         0,
-        Math.min(255, Math.floor(noise * density * density)),
+        Math.min(255, Math.floor(noiseValue * density * density)),
       );
       index += 1;
     }
@@ -148,7 +152,7 @@ export class CloudVolume extends THREE.Mesh {
         opacity: { value: 0.1 },
         range: { value: 0.1 },
         steps: { value: 10 },
-        threshold: { value: getRandomArbitrary(0.2, 0.4) },
+        threshold: { value: randomRange(random, 0.2, 0.4) },
       },
       vertexShader,
     });
@@ -156,9 +160,9 @@ export class CloudVolume extends THREE.Mesh {
     const geometry = new THREE.BoxGeometry(1, 1, 1);
     super(geometry, material);
     this.scale.set(
-      getRandomArbitrary(100, 300),
-      getRandomArbitrary(16, 48),
-      getRandomArbitrary(100, 260),
+      randomRange(random, 100, 300),
+      randomRange(random, 16, 48),
+      randomRange(random, 100, 260),
     );
 
     this.position.copy(position);
@@ -3,6 +3,18 @@ import { LensflareController } from './lensflare';
 import * as THREE from 'three';
 import { Sky } from 'three/examples/jsm/objects/Sky';
 import { Water } from 'three/examples/jsm/objects/Water';
+import { SkyConfig, WaterConfig, WorldConfig } from '../config/world-config';
+import { NoiseGenerator, NoiseOptions } from '../terrain/noise';
+import {
+  RandomLayer,
+  RandomSource,
+  createChunkRandom,
+  randomRange,
+} from '../random';
+import { assetManifest } from '../assets/asset-manifest';
+
+// Where the sun stands, in degrees; the world's time of day.
+export type TimeOfDay = { elevation: number; azimuth: number };
 
 export class SkyController extends THREE.Group {
   public sun: THREE.Vector3;
@@ -14,22 +26,29 @@ export class SkyController extends THREE.Group {
   private water!: Water;
   private lensflareController!: LensflareController;
 
-  private waterLevel = 16;
+  private readonly skyConfig: SkyConfig;
+  private readonly waterConfig: WaterConfig;
+  private readonly random: RandomSource;
+  private sunAngles: TimeOfDay;
 
-  private readonly azimuth: number = 180;
-  private readonly elevation: number = 140;
-  private readonly color: string = '#ffffff';
-
-  private static rand(min: number, max: number) {
-    return Math.random() * (max - min) + min;
-  }
-
-  constructor() {
+  constructor(config: WorldConfig) {
     super();
+    this.skyConfig = config.sky;
+    this.waterConfig = config.water;
+    this.random = createChunkRandom(
+      config.terrain.seed,
+      0,
+      0,
+      RandomLayer.clouds,
+    );
     this.sun = new THREE.Vector3();
+    this.sunAngles = {
+      azimuth: this.skyConfig.azimuth,
+      elevation: this.skyConfig.elevation,
+    };
     this.initSky();
     this.initLights();
-    this.createClouds();
+    this.createClouds(config.terrain.seed);
     this.initWater();
   }
 
@@ -43,19 +62,33 @@ export class SkyController extends THREE.Group {
     uniforms.rayleigh.value = 1;
     uniforms.mieCoefficient.value = 0.005;
     uniforms.mieDirectionalG.value = 0.8;
+    this.placeSun();
+  }
 
-    const phi = THREE.MathUtils.degToRad(90 - this.elevation);
-    const theta = THREE.MathUtils.degToRad(this.azimuth);
+  get timeOfDay(): TimeOfDay {
+    return { ...this.sunAngles };
+  }
+
+  // Moves the sun; the water, grass and lens flare follow on the next update.
+  setTimeOfDay(timeOfDay: TimeOfDay): void {
+    this.sunAngles = { ...timeOfDay };
+    this.placeSun();
+    this.sunLight.position.copy(this.sun).multiplyScalar(450_000);
+  }
 
+  private placeSun(): void {
+    const { elevation, azimuth } = this.sunAngles;
+    const phi = THREE.MathUtils.degToRad(90 - elevation);
+    const theta = THREE.MathUtils.degToRad(azimuth);
     this.sun.setFromSphericalCoords(1, phi, theta);
-    uniforms.sunPosition.value.copy(this.sun);
+    this.sky.material.uniforms.sunPosition.value.copy(this.sun);
   }
 
   private initLights(): void {
-    this.ambient = new THREE.AmbientLight(this.color, 2);
+    this.ambient = new THREE.AmbientLight(this.skyConfig.lightColor, 2);
     this.add(this.ambient);
 
-    this.sunLight = new THREE.DirectionalLight(this.color, 10);
+    this.sunLight = new THREE.DirectionalLight(this.skyConfig.lightColor, 10);
     this.sunLight.position.copy(this.sun).multiplyScalar(450_000);
     this.sunLight.castShadow = true;
     this.add(this.sunLight);
@@ -69,13 +102,28 @@ export class SkyController extends THREE.Group {
     );
   }
 
-  private createClouds(): void {
-    const cloudCount = 12;
-    for (let index = 0; index < cloudCount; index += 1) {
-      const ox = SkyController.rand(-2000, 2000);
-      const oz = SkyController.rand(-2000, 2000);
-      const oy = SkyController.rand(320, 460);
-      const cloud = new Cloud.CloudVolume(new THREE.Vector3(ox, oy, oz));
+  private createClouds(seed: number): void {
+    const noiseGenerator = new NoiseGenerator(seed);
+    const noiseOptions: NoiseOptions = {
+      basis: this.skyConfig.cloudNoiseBasis,
+      fractal: this.skyConfig.cloudNoiseFractal,
+      lacunarity: 2,
+      octaves: 1,
+      offsetZ: seed + 8192,
+      persistence: 0.5,
+      scale: 0.05,
+      warpScale: 0,
+      warpStrength: 0,
+    };
+    for (let index = 0; index < this.skyConfig.cloudCount; index += 1) {
+      const ox = randomRange(this.random, -2000, 2000);
+      const oz = randomRange(this.random, -2000, 2000);
+      const oy = randomRange(this.random, 320, 460);
+      const cloud = new Cloud.CloudVolume(
+        new THREE.Vector3(ox, oy, oz),
+        this.random,
+        { noiseGenerator, noiseOptions },
+      );
       this.clouds.push(cloud);
       this.cloudOffsets.push(new THREE.Vector3(ox, oy, oz));
       this.add(cloud);
@@ -84,25 +132,23 @@ export class SkyController extends THREE.Group {
 
   private initWater(): void {
     const loader = new THREE.TextureLoader();
-    const waterNormals = loader.load(
-      '/src/assets/models/water/waternormals.jpg',
-    );
+    const waterNormals = loader.load(assetManifest.textures.waterNormals);
     waterNormals.wrapS = THREE.RepeatWrapping;
     waterNormals.wrapT = THREE.RepeatWrapping;
 
-    const waterGeom = new THREE.CircleGeometry(1024, 64);
+    const waterGeom = new THREE.CircleGeometry(this.waterConfig.radius, 64);
     const water = new Water(waterGeom, {
-      distortionScale: 3.7,
+      distortionScale: this.waterConfig.distortionScale,
       fog: false,
       sunColor: new THREE.Color('white'),
       sunDirection: new THREE.Vector3(),
       textureHeight: 256,
       textureWidth: 256,
-      waterColor: new THREE.Color('#001e0f'),
+      waterColor: new THREE.Color(this.waterConfig.color),
       waterNormals,
     });
     water.rotation.x = -Math.PI / 2;
-    water.position.set(0, this.waterLevel, 0);
+    water.position.set(0, this.waterConfig.level, 0);
     water.material.uniforms.size.value = 2;
     water.material.uniforms.sunDirection.value.copy(this.sun).normalize();
     this.water = water;
@@ -128,7 +174,7 @@ export class SkyController extends THREE.Group {
       .add(playerPos);
     this.lensflareController.updatePosition(flarePos);
 
-    this.water.position.set(playerPos.x, this.waterLevel, playerPos.z);
+    this.water.position.set(playerPos.x, this.waterConfig.level, playerPos.z);
     const uniforms = this.water.material.uniforms as {
       time: THREE.IUniform<number>;
       sunDirection: THREE.IUniform<THREE.Vector3>;
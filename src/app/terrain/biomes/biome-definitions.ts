@@ -0,0 +1,105 @@
+export type BiomeId = 'beach' | 'meadow' | 'forest' | 'steppe' | 'alpine';
+
+export type TreeSpecies = 'oak' | 'pine' | 'birch' | 'deadTree' | 'shrub';
+
+export type FlowerKind =
+  'daisy' | 'anemone' | 'crocus' | 'daffodil' | 'dandelion' | 'snowdrop';
+
+export type BiomeDefinition = {
+  id: BiomeId;
+  // Centre of the biome in (temperature, moisture) space, both 0..1.
+  temperature: number;
+  moisture: number;
+  groundColor: string;
+  // Fraction of grass blades kept, 0..1.
+  grassDensity: number;
+  grassTint: string;
+  // Chance that a tree candidate is planted, 0..1.
+  treeDensity: number;
+  // Species that may grow here; repeats make one more likely.
+  trees: readonly TreeSpecies[];
+  // Chance that a flower candidate blooms, 0..1.
+  flowerDensity: number;
+  flowers: readonly FlowerKind[];
+  // Chance that a rock candidate gets a rock, 0..1.
+  rockFrequency: number;
+};
+
+export const treeSpecies: readonly TreeSpecies[] = [
+  'oak',
+  'pine',
+  'birch',
+  'deadTree',
+  'shrub',
+];
+
+// Order is the layout of per-biome weight arrays.
+export const biomeDefinitions: readonly BiomeDefinition[] = [
+  {
+    flowerDensity: 0,
+    flowers: [],
+    grassDensity: 0,
+    grassTint: '#9aa25a',
+    groundColor: 'hsl(40, 44%, 70%)',
+    id: 'beach',
+    moisture: 0.5,
+    rockFrequency: 0.2,
+    temperature: 0.5,
+    treeDensity: 0,
+    trees: [],
+  },
+  {
+    flowerDensity: 0.9,
+    flowers: ['daisy', 'anemone', 'crocus', 'daffodil', 'dandelion'],
+    grassDensity: 1,
+    grassTint: '#73993f',
+    groundColor: 'hsl(80, 40%, 15%)',
+    id: 'meadow',
+    moisture: 0.5,
+    rockFrequency: 0.1,
+    temperature: 0.55,
+    treeDensity: 0.2,
+    trees: ['oak', 'birch', 'shrub'],
+  },
+  {
+    flowerDensity: 0.85,
+    flowers: ['anemone', 'snowdrop'],
+    grassDensity: 0.6,
+    grassTint: '#4d7a33',
+    groundColor: 'hsl(95, 35%, 11%)',
+    id: 'forest',
+    moisture: 0.7,
+    rockFrequency: 0.15,
+    temperature: 0.45,
+    treeDensity: 1,
+    trees: ['oak', 'oak', 'pine', 'birch', 'deadTree'],
+  },
+  {
+    flowerDensity: 0.7,
+    flowers: ['dandelion'],
+    grassDensity: 0.45,
+    grassTint: '#a69a4d',
+    groundColor: 'hsl(48, 35%, 32%)',
+    id: 'steppe',
+    moisture: 0.3,
+    rockFrequency: 0.3,
+    temperature: 0.7,
+    treeDensity: 0.05,
+    trees: ['shrub', 'shrub', 'deadTree'],
+  },
+  {
+    flowerDensity: 0.5,
+    flowers: ['crocus', 'snowdrop'],
+    grassDensity: 0.35,
+    grassTint: '#6f8a5a',
+    groundColor: 'hsl(90, 10%, 34%)',
+    id: 'alpine',
+    moisture: 0.5,
+    rockFrequency: 0.5,
+    temperature: 0.15,
+    treeDensity: 0.4,
+    trees: ['pine', 'pine', 'deadTree'],
+  },
+];
+
+export const biomeCount = biomeDefinitions.length;
@@ -0,0 +1,99 @@
+import { RandomSource } from '../../random';
+import { BiomeSampler, BiomeTraits, blendBiomeTraits } from './biome-sampler';
+import {
+  BiomeDefinition,
+  biomeCount,
+  biomeDefinitions,
+} from './biome-definitions';
+
+export type BiomeMapOptions = {
+  // `biomeCount` weights per lattice point, row-major like the height data.
+  weights: Float32Array;
+  width: number;
+  depth: number;
+  offsetX: number;
+  offsetZ: number;
+  cellSize: number;
+};
+
+// Biome weights at every height sample of a chunk, computed in the worker.
+export function generateBiomeWeights(options: {
+  sampler: BiomeSampler;
+  heightData: Float32Array;
+  width: number;
+  depth: number;
+  offsetX: number;
+  offsetZ: number;
+  cellSize: number;
+  heightScale: number;
+}) {
+  const { sampler, heightData, width, depth, offsetX, offsetZ } = options;
+  const { cellSize, heightScale } = options;
+  const weights = new Float32Array(width * depth * biomeCount);
+  for (let gz = 0; gz < depth; gz += 1)
+    for (let gx = 0; gx < width; gx += 1) {
+      const sample = gx + gz * width;
+      sampler.weightsAt(
+        (offsetX + gx) * cellSize,
+        (offsetZ + gz) * cellSize,
+        heightData[sample] * heightScale,
+        weights.subarray(sample * biomeCount, (sample + 1) * biomeCount),
+      );
+    }
+  return weights;
+}
+
+/**
+ * Per-chunk lookup of the precomputed biome weights. Points between lattice
+ * samples blend bilinearly, so traits change smoothly across a chunk and
+ * match the neighbouring chunk along the shared border.
+ */
+export class BiomeMap {
+  private readonly options: BiomeMapOptions;
+  private readonly scratch = new Float32Array(biomeCount);
+
+  constructor(options: BiomeMapOptions) {
+    this.options = options;
+  }
+
+  weightsAt(x: number, z: number, target: Float32Array) {
+    const { weights, width, depth, offsetX, offsetZ, cellSize } = this.options;
+    const fx = Math.max(0, Math.min(width - 1, x / cellSize - offsetX));
+    const fz = Math.max(0, Math.min(depth - 1, z / cellSize - offsetZ));
+    const ix = Math.min(width - 2, Math.floor(fx));
+    const iz = Math.min(depth - 2, Math.floor(fz));
+    const tx = fx - ix;
+    const tz = fz - iz;
+    const corner = (gx: number, gz: number) => (gx + gz * width) * biomeCount;
+    const index11 = corner(ix, iz);
+    const index21 = corner(ix + 1, iz);
+    const index12 = corner(ix, iz + 1);
+    const index22 = corner(ix + 1, iz + 1);
+    for (let biome = 0; biome < biomeCount; biome += 1) {
+      const top =
+        weights[index11 + biome] * (1 - tx) + weights[index21 + biome] * tx;
+      const bottom =
+        weights[index12 + biome] * (1 - tx) + weights[index22 + biome] * tx;
+      target[biome] = top * (1 - tz) + bottom * tz;
+    }
+    return target;
+  }
+
+  traitsAt(x: number, z: number, target: BiomeTraits) {
+    return blendBiomeTraits(this.weightsAt(x, z, this.scratch), target);
+  }
+
+  // One biome drawn in proportion to its weight at (x, z).
+  pick(x: number, z: number, random: RandomSource): BiomeDefinition {
+    const weights = this.weightsAt(x, z, this.scratch);
+    let remaining = random();
+    let [chosen] = biomeDefinitions;
+    for (const [index, biome] of biomeDefinitions.entries()) {
+      if (weights[index] <= 0) continue;
+      chosen = biome;
+      remaining -= weights[index];
+      if (remaining < 0) break;
+    }
+    return chosen;
+  }
+}
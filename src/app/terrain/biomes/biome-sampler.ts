@@ -0,0 +1,193 @@
+import * as THREE from 'three';
+import { NoiseGenerator } from '../noise';
+import { TerrainConfig, VegetationConfig } from '../../config/world-config';
+import { smoothStep } from '../terrain-utilities';
+import { biomeCount, biomeDefinitions } from './biome-definitions';
+
+export type BiomeTraits = {
+  groundColor: THREE.Color;
+  grassDensity: number;
+  grassTint: THREE.Color;
+  treeDensity: number;
+  flowerDensity: number;
+  rockFrequency: number;
+};
+
+export type BiomeSamplerOptions = {
+  noiseGenerator: NoiseGenerator;
+  seed: number;
+  cellSize: number;
+  waterLevel: number;
+  // Frequency of the temperature and moisture fields, per cell.
+  climateNoiseScale: number;
+  // Temperature lost per world unit above the water line.
+  temperatureLapse: number;
+  // Distance in climate space over which neighbouring biomes blend.
+  biomeBlend: number;
+};
+
+const groundColors = biomeDefinitions.map(
+  (biome) => new THREE.Color(biome.groundColor),
+);
+// The grass shader uses its colours as given, so tints skip sRGB decoding.
+const grassTints = biomeDefinitions.map((biome) =>
+  new THREE.Color().setStyle(biome.grassTint, THREE.LinearSRGBColorSpace),
+);
+const weighted = new THREE.Color();
+const beachIndex = biomeDefinitions.findIndex((biome) => biome.id === 'beach');
+
+export function createBiomeTraits(): BiomeTraits {
+  return {
+    flowerDensity: 0,
+    grassDensity: 0,
+    grassTint: new THREE.Color(),
+    groundColor: new THREE.Color(),
+    rockFrequency: 0,
+    treeDensity: 0,
+  };
+}
+
+// Weighted average of every biome's traits; `weights` must sum to one.
+export function blendBiomeTraits(
+  weights: ArrayLike<number>,
+  target: BiomeTraits,
+) {
+  target.groundColor.setRGB(0, 0, 0);
+  target.grassTint.setRGB(0, 0, 0);
+  target.grassDensity = 0;
+  target.treeDensity = 0;
+  target.flowerDensity = 0;
+  target.rockFrequency = 0;
+  // Indexed loop: this runs once per grass blade.
+  for (let index = 0; index < biomeCount; index += 1) {
+    const weight = weights[index];
+    if (weight === 0) continue;
+    const biome = biomeDefinitions[index];
+    target.groundColor.add(
+      weighted.copy(groundColors[index]).multiplyScalar(weight),
+    );
+    target.grassTint.add(
+      weighted.copy(grassTints[index]).multiplyScalar(weight),
+    );
+    target.grassDensity += biome.grassDensity * weight;
+    target.treeDensity += biome.treeDensity * weight;
+    target.flowerDensity += biome.flowerDensity * weight;
+    target.rockFrequency += biome.rockFrequency * weight;
+  }
+  return target;
+}
+
+/**
+ * Biome weights anywhere in the world. Temperature and moisture come from
+ * two low-frequency noise fields, with temperature falling off with height;
+ * each biome's weight is a Gaussian of its distance in that climate space, so
+ * neighbouring biomes fade into each other. Beach overrides the climate along
+ * the noisy shoreline.
+ */
+export class BiomeSampler {
+  private readonly options: BiomeSamplerOptions;
+  private readonly climateWeights = new Float32Array(biomeCount);
+  private readonly blendWeights = new Float32Array(biomeCount);
+  private readonly traits = createBiomeTraits();
+
+  constructor(options: BiomeSamplerOptions) {
+    this.options = options;
+  }
+
+  // Climate at world (x, z) and world height, each in 0..1.
+  climateAt(x: number, z: number, height: number) {
+    const { noiseGenerator, seed, cellSize, waterLevel } = this.options;
+    const { climateNoiseScale, temperatureLapse } = this.options;
+    const field = (offsetZ: number) => {
+      const raw = noiseGenerator.sampleOctaves(x / cellSize, z / cellSize, {
+        lacunarity: 2,
+        octaves: 3,
+        offsetZ,
+        persistence: 0.5,
+        scale: climateNoiseScale,
+      });
+      // Fractal Perlin rarely leaves ±0.5 of its amplitude sum; stretch it.
+      return Math.max(0, Math.min(1, 0.5 + raw / 1.75));
+    };
+    const altitude = Math.max(0, height - waterLevel);
+    return {
+      moisture: field(seed + 12_413),
+      temperature: Math.max(
+        0,
+        field(seed + 8301) - altitude * temperatureLapse,
+      ),
+    };
+  }
+
+  // Share of the sandy shore at world (x, z) and height, 0..1.
+  shoreAt(x: number, z: number, height: number) {
+    const { noiseGenerator, seed, cellSize, waterLevel } = this.options;
+    const noiseValue = noiseGenerator.sampleOctaves(
+      x / cellSize,
+      z / cellSize,
+      {
+        lacunarity: 2,
+        octaves: 3,
+        offsetZ: seed + 1024,
+        persistence: 0.5,
+        scale: 0.02,
+      },
+    );
+    const cutoff = waterLevel + 8 + noiseValue * 4;
+    return 1 - smoothStep(height, cutoff - 3, cutoff + 3);
+  }
+
+  // Writes one weight per entry of `biomeDefinitions`, summing to one.
+  weightsAt(x: number, z: number, height: number, target: Float32Array) {
+    const { temperature, moisture } = this.climateAt(x, z, height);
+    const blend = this.options.biomeBlend;
+    const weights = this.climateWeights;
+    let total = 0;
+    for (const [index, biome] of biomeDefinitions.entries()) {
+      if (index === beachIndex) {
+        weights[index] = 0;
+        continue;
+      }
+      const dt = (temperature - biome.temperature) / blend;
+      const dm = (moisture - biome.moisture) / blend;
+      weights[index] = Math.exp(-(dt * dt + dm * dm));
+      total += weights[index];
+    }
+    const shore = this.shoreAt(x, z, height);
+    const scale = (1 - shore) / (total || 1);
+    for (let index = 0; index < biomeCount; index += 1)
+      target[index] = weights[index] * scale;
+    target[beachIndex] = shore;
+    return target;
+  }
+
+  traitsAt(x: number, z: number, height: number, target: BiomeTraits) {
+    return blendBiomeTraits(
+      this.weightsAt(x, z, height, this.blendWeights),
+      target,
+    );
+  }
+
+  // Ground colour of the blended biomes; the terrain palette.
+  groundColorAt(x: number, z: number, height: number, target: THREE.Color) {
+    return target.copy(this.traitsAt(x, z, height, this.traits).groundColor);
+  }
+}
+
+export function createBiomeSampler(options: {
+  terrain: TerrainConfig;
+  vegetation: VegetationConfig;
+  waterLevel: number;
+  noiseGenerator: NoiseGenerator;
+}) {
+  const { terrain, vegetation, waterLevel, noiseGenerator } = options;
+  return new BiomeSampler({
+    biomeBlend: vegetation.biomeBlend,
+    cellSize: terrain.cellSize,
+    climateNoiseScale: vegetation.climateNoiseScale,
+    noiseGenerator,
+    seed: terrain.seed,
+    temperatureLapse: vegetation.temperatureLapse,
+    waterLevel,
+  });
+}
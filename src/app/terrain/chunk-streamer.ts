@@ -0,0 +1,275 @@
+import * as THREE from 'three';
+import { LruCache } from '../lru-cache';
+import { ChunkData } from './terrain-chunk-generator';
+import { ChunkWorkerPool, isAbortError } from './workers/chunk-worker-pool';
+import { makeKey } from './terrain-utilities';
+
+export type ChunkStreamEvent = {
+  cx: number;
+  cz: number;
+  lod: number;
+  key: string;
+};
+
+export interface ChunkStreamerEventMap {
+  queued: ChunkStreamEvent;
+  loaded: ChunkStreamEvent;
+  disposed: ChunkStreamEvent;
+}
+
+type ChunkSlot = { cx: number; cz: number; lod: number };
+
+type ChunkRequest = { controller: AbortController; lod: number };
+
+export type ChunkStreamerOptions = {
+  pool: ChunkWorkerPool;
+  // Data of unloaded chunks, reused instead of asking the pool again.
+  cache: LruCache<ChunkData>;
+  // Milliseconds per frame spent building and disposing chunks.
+  frameBudget: number;
+  // Requests handed to the pool at once; the rest wait here in priority order.
+  maxRequests: number;
+  // Detail level for a chunk `ring` chunks (Chebyshev) from the centre.
+  lodFor: (ring: number) => number;
+  load: (data: ChunkData) => void;
+  unload: (cx: number, cz: number) => void;
+};
+
+// Times a failed chunk is asked for again before it is given up on.
+const MAX_CHUNK_RETRIES = 3;
+
+function cacheKey(key: string, lod: number) {
+  return `${key}@${String(lod)}`;
+}
+
+/**
+ * Decides which chunks exist and at which detail level. Missing chunks are
+ * requested nearest-first with a bias towards the view direction, and
+ * finished chunks are built (and stale ones disposed) within a per-frame time
+ * budget. A chunk changing level keeps its old mesh until the new one is in.
+ */
+export class ChunkStreamer extends THREE.EventDispatcher<ChunkStreamerEventMap> {
+  private readonly options: ChunkStreamerOptions;
+  private centerX = 0;
+  private centerZ = 0;
+  private viewX = 0;
+  private viewZ = 0;
+  private wanted = new Map<string, number>();
+  private waiting = new Map<string, ChunkSlot>();
+  private requested = new Map<string, ChunkRequest>();
+  private ready = new Map<string, ChunkData>();
+  private loaded = new Map<string, ChunkData>();
+  private unloading = new Map<string, ChunkData>();
+  // Chunks changed while their data was being generated.
+  private stale = new Set<string>();
+  // Loaded chunks whose data predates an edit; never cached.
+  private outdated = new Set<string>();
+  // Failed requests per chunk, until one succeeds or it is no longer wanted.
+  private failures = new Map<string, number>();
+
+  constructor(options: ChunkStreamerOptions) {
+    super();
+    this.options = options;
+  }
+
+  get pendingCount() {
+    return (
+      this.waiting.size +
+      this.requested.size +
+      this.ready.size +
+      this.unloading.size
+    );
+  }
+
+  get cacheStats() {
+    return this.options.cache.stats;
+  }
+
+  setCenter(centerCX: number, centerCZ: number, radius: number) {
+    this.centerX = centerCX;
+    this.centerZ = centerCZ;
+    const wanted = new Map<string, number>();
+    for (let cz = centerCZ - radius; cz <= centerCZ + radius; cz += 1)
+      for (let cx = centerCX - radius; cx <= centerCX + radius; cx += 1) {
+        const key = makeKey(cx, cz);
+        const ring = Math.max(Math.abs(cx - centerCX), Math.abs(cz - centerCZ));
+        const lod = this.options.lodFor(ring);
+        wanted.set(key, lod);
+        this.unloading.delete(key);
+        if (!this.isHeadingFor(key, lod)) {
+          this.waiting.set(key, { cx, cz, lod });
+          this.dispatchEvent({ cx, cz, key, lod, type: 'queued' });
+        }
+      }
+    this.wanted = wanted;
+
+    for (const [key, slot] of this.waiting)
+      if (wanted.get(key) !== slot.lod) this.waiting.delete(key);
+    for (const [key, request] of this.requested)
+      if (wanted.get(key) !== request.lod) {
+        request.controller.abort();
+        this.requested.delete(key);
+        this.stale.delete(key);
+      }
+    for (const [key, data] of this.ready)
+      if (wanted.get(key) !== data.lod) {
+        this.ready.delete(key);
+        this.options.cache.set(cacheKey(key, data.lod), data);
+      }
+    for (const [key, data] of this.loaded)
+      if (!wanted.has(key)) this.unloading.set(key, data);
+    for (const key of this.failures.keys())
+      if (!wanted.has(key)) this.failures.delete(key);
+  }
+
+  /**
+   * Regenerates chunk (`cx`, `cz`) because its heights were edited. Cached
+   * data is dropped; a loaded chunk keeps its mesh until the new data is in,
+   * and one already being generated is asked for again once it arrives.
+   */
+  invalidate(cx: number, cz: number) {
+    const key = makeKey(cx, cz);
+    this.options.cache.deleteWhere((entry) => entry.startsWith(`${key}@`));
+    this.ready.delete(key);
+    if (this.loaded.has(key)) this.outdated.add(key);
+    const lod = this.wanted.get(key) ?? -1;
+    if (lod < 0) return;
+    if (this.requested.has(key)) this.stale.add(key);
+    else this.waiting.set(key, { cx, cz, lod });
+  }
+
+  setViewDirection(x: number, z: number) {
+    const length = Math.hypot(x, z);
+    this.viewX = length > 0 ? x / length : 0;
+    this.viewZ = length > 0 ? z / length : 0;
+  }
+
+  update() {
+    this.requestWaiting();
+
+    const start = performance.now();
+    const withinBudget = () =>
+      performance.now() - start < this.options.frameBudget;
+
+    // Disposal is cheap and frees memory, so it goes first.
+    for (const [key, data] of this.unloading) {
+      if (!withinBudget()) break;
+      const { cx, cz, lod } = data;
+      this.unloading.delete(key);
+      this.loaded.delete(key);
+      this.options.unload(cx, cz);
+      if (!this.outdated.delete(key))
+        this.options.cache.set(cacheKey(key, lod), data);
+      this.dispatchEvent({ cx, cz, key, lod, type: 'disposed' });
+    }
+
+    const ready = [...this.ready.values()].toSorted(
+      (first, second) => this.priority(first) - this.priority(second),
+    );
+    // Always build at least one chunk so a slow frame cannot stall loading.
+    let built = 0;
+    for (const data of ready) {
+      if (built > 0 && !withinBudget()) return;
+      const { cx, cz, lod } = data;
+      const key = makeKey(cx, cz);
+      this.ready.delete(key);
+      const previous = this.loaded.get(key);
+      if (previous && !this.outdated.has(key))
+        this.options.cache.set(cacheKey(key, previous.lod), previous);
+      this.options.load(data);
+      this.loaded.set(key, data);
+      // Unless a newer version is already on its way.
+      if (!this.waiting.has(key) && !this.requested.has(key))
+        this.outdated.delete(key);
+      built += 1;
+      this.dispatchEvent({ cx, cz, key, lod, type: 'loaded' });
+    }
+  }
+
+  dispose() {
+    for (const request of this.requested.values()) request.controller.abort();
+    this.waiting.clear();
+    this.requested.clear();
+    this.ready.clear();
+    this.stale.clear();
+    this.outdated.clear();
+  }
+
+  // Whether `key` is loaded at, or already on its way to, level `lod`.
+  private isHeadingFor(key: string, lod: number) {
+    const readyData = this.ready.get(key);
+    if (readyData) return readyData.lod === lod;
+    const request = this.requested.get(key);
+    if (request) return request.lod === lod;
+    const slot = this.waiting.get(key);
+    if (slot) return slot.lod === lod;
+    return this.loaded.get(key)?.lod === lod;
+  }
+
+  private priority(slot: { cx: number; cz: number }) {
+    const dx = slot.cx - this.centerX;
+    const dz = slot.cz - this.centerZ;
+    const distance = Math.hypot(dx, dz);
+    if (distance === 0) return 0;
+    // Chunks ahead cost their distance, chunks behind up to twice that.
+    const facing = (dx * this.viewX + dz * this.viewZ) / distance;
+    return distance * (1.5 - 0.5 * facing);
+  }
+
+  private requestWaiting() {
+    const free = this.options.maxRequests - this.requested.size;
+    if (free <= 0 || this.waiting.size === 0) return;
+    const next = [...this.waiting]
+      .toSorted(
+        (first, second) => this.priority(first[1]) - this.priority(second[1]),
+      )
+      .slice(0, free);
+    for (const [key, slot] of next) {
+      this.waiting.delete(key);
+      this.request(key, slot);
+    }
+  }
+
+  private request(key: string, slot: ChunkSlot) {
+    const cached = this.options.cache.take(cacheKey(key, slot.lod));
+    if (cached) {
+      this.ready.set(key, cached);
+      return;
+    }
+    const controller = new AbortController();
+    this.requested.set(key, { controller, lod: slot.lod });
+    this.options.pool
+      .request(slot.cx, slot.cz, slot.lod, controller.signal)
+      .then((data) => {
+        if (this.requested.get(key)?.controller !== controller) return false;
+        this.requested.delete(key);
+        this.failures.delete(key);
+        if (this.wanted.get(key) !== data.lod) return false;
+        this.ready.set(key, data);
+        if (this.stale.delete(key)) this.waiting.set(key, slot);
+        return true;
+      })
+      .catch((error: unknown) => {
+        if (this.requested.get(key)?.controller !== controller) return;
+        this.requested.delete(key);
+        this.stale.delete(key);
+        if (isAbortError(error)) return;
+        console.error(error);
+        this.retry(key, slot);
+      });
+  }
+
+  // Queues a failed chunk again, if still wanted, until it fails too often.
+  private retry(key: string, slot: ChunkSlot) {
+    const failures = (this.failures.get(key) ?? 0) + 1;
+    this.failures.set(key, failures);
+    if (this.wanted.get(key) !== slot.lod) return;
+    if (failures > MAX_CHUNK_RETRIES) {
+      console.error(
+        `Giving up on chunk ${key} after ${String(failures)} tries`,
+      );
+      return;
+    }
+    this.waiting.set(key, slot);
+  }
+}
@@ -0,0 +1,212 @@
+import { TerrainConfig } from '../../config/world-config';
+import { LruCache } from '../../lru-cache';
+import { RandomLayer, createChunkRandom } from '../../random';
+import { makeKey } from '../terrain-utilities';
+import { erodeHydraulic } from './hydraulic-erosion';
+import { erodeThermal } from './thermal-erosion';
+
+export type ErosionFieldOptions = {
+  seed: number;
+  cellSize: number;
+  heightScale: number;
+  // Cells per side of an erosion tile, rounded down to even.
+  tileSize: number;
+  // Droplets simulated per tile.
+  droplets: number;
+  thermalIterations: number;
+  // Steepest stable slope for loose material, rise over run.
+  talus: number;
+  // Normalised generator height at lattice cell (ix, iz).
+  sampleHeight: (ix: number, iz: number) => number;
+};
+
+type ErosionTile = {
+  // Height change in normalised units, before `heightScale`.
+  delta: Float32Array;
+  // Both in 0..1.
+  sediment: Float32Array;
+  flow: Float32Array;
+};
+
+// Bytes of eroded tiles kept per field; a tile of 64 cells is about 50 KB.
+const TILE_CACHE_BUDGET = 8 * 1024 * 1024;
+// Flow is counted in droplet visits; this many per droplet per cell saturate.
+const FLOW_SATURATION = 40;
+// Deposited material, in cells of height, that reads as fully silted.
+const SEDIMENT_SATURATION = 0.2;
+
+function saturate(value: number, scale: number) {
+  return 1 - Math.exp(-value / scale);
+}
+
+// Zero at both tile edges; the two tiles covering a cell always sum to one.
+function tileWeight(cells: number, size: number) {
+  return Math.sin((Math.PI * cells) / size) ** 2;
+}
+
+/**
+ * Erosion evaluated on world-aligned tiles that overlap by half a tile. Each
+ * tile is eroded on its own from the raw heights, and every cell blends the
+ * four tiles covering it with weights that fade out towards tile edges. The
+ * result depends only on world position, so neighbouring chunks agree along
+ * their borders no matter which worker generated them or in what order.
+ */
+export class ErosionField {
+  private readonly options: ErosionFieldOptions;
+  private readonly tiles: LruCache<ErosionTile>;
+  private readonly stride: number;
+  private readonly tileSize: number;
+
+  constructor(options: ErosionFieldOptions) {
+    this.options = options;
+    this.stride = Math.max(1, Math.floor(options.tileSize / 2));
+    this.tileSize = this.stride * 2;
+    this.tiles = new LruCache<ErosionTile>({
+      budget: TILE_CACHE_BUDGET,
+      sizeOf: (tile) =>
+        tile.delta.byteLength + tile.sediment.byteLength + tile.flow.byteLength,
+    });
+  }
+
+  /**
+   * Erodes `heightData` (`width` x `depth` cells from `offsetX`, `offsetZ`)
+   * in place and writes the matching sediment and flow maps.
+   */
+  apply(options: {
+    heightData: Float32Array;
+    sediment: Float32Array;
+    flow: Float32Array;
+    width: number;
+    depth: number;
+    offsetX: number;
+    offsetZ: number;
+  }) {
+    const { heightData, sediment, flow, width, depth, offsetX, offsetZ } =
+      options;
+    for (let dz = 0; dz < depth; dz += 1)
+      for (let dx = 0; dx < width; dx += 1) {
+        const index = dx + dz * width;
+        this.blend(offsetX + dx, offsetZ + dz, (tile, cell, weight) => {
+          heightData[index] += tile.delta[cell] * weight;
+          sediment[index] += tile.sediment[cell] * weight;
+          flow[index] += tile.flow[cell] * weight;
+        });
+      }
+  }
+
+  // Height change at one lattice cell, in normalised units.
+  sampleCell(ix: number, iz: number) {
+    let delta = 0;
+    this.blend(ix, iz, (tile, cell, weight) => {
+      delta += tile.delta[cell] * weight;
+    });
+    return delta;
+  }
+
+  // Run-off at one lattice cell, in 0..1, as `apply` writes it.
+  sampleFlow(ix: number, iz: number) {
+    let flow = 0;
+    this.blend(ix, iz, (tile, cell, weight) => {
+      flow += tile.flow[cell] * weight;
+    });
+    return flow;
+  }
+
+  private blend(
+    ix: number,
+    iz: number,
+    visit: (tile: ErosionTile, cell: number, weight: number) => void,
+  ) {
+    const { stride, tileSize } = this;
+    const tileX = Math.floor(ix / stride);
+    const tileZ = Math.floor(iz / stride);
+    for (let kz = tileZ - 1; kz <= tileZ; kz += 1)
+      for (let kx = tileX - 1; kx <= tileX; kx += 1) {
+        const tx = ix - kx * stride;
+        const tz = iz - kz * stride;
+        const weight = tileWeight(tx, tileSize) * tileWeight(tz, tileSize);
+        if (weight === 0) continue;
+        visit(this.getTile(kx, kz), tx + tz * (tileSize + 1), weight);
+      }
+  }
+
+  private getTile(kx: number, kz: number) {
+    const key = makeKey(kx, kz);
+    const cached = this.tiles.get(key);
+    if (cached) return cached;
+    const tile = this.erodeTile(kx, kz);
+    this.tiles.set(key, tile);
+    return tile;
+  }
+
+  private erodeTile(kx: number, kz: number): ErosionTile {
+    const {
+      seed,
+      cellSize,
+      heightScale,
+      droplets,
+      thermalIterations,
+      talus,
+      sampleHeight,
+    } = this.options;
+    const size = this.tileSize + 1;
+    const originX = kx * this.stride;
+    const originZ = kz * this.stride;
+    // The simulation works in cell units so slopes are rise over run.
+    const toCells = heightScale / cellSize;
+    const raw = new Float32Array(size * size);
+    for (let tz = 0; tz < size; tz += 1)
+      for (let tx = 0; tx < size; tx += 1)
+        raw[tx + tz * size] =
+          sampleHeight(originX + tx, originZ + tz) * toCells;
+
+    const heights = Float32Array.from(raw);
+    const sediment = new Float32Array(size * size);
+    const flow = new Float32Array(size * size);
+    erodeHydraulic({
+      droplets,
+      flow,
+      heights,
+      random: createChunkRandom(seed, kx, kz, RandomLayer.erosion),
+      sediment,
+      size,
+    });
+    erodeThermal({
+      heights,
+      iterations: thermalIterations,
+      sediment,
+      size,
+      talus,
+    });
+
+    const delta = new Float32Array(size * size);
+    const visitsPerCell = Math.max(droplets, 1) / (size * size);
+    for (let cell = 0; cell < delta.length; cell += 1) {
+      delta[cell] = (heights[cell] - raw[cell]) / toCells;
+      sediment[cell] = saturate(sediment[cell], SEDIMENT_SATURATION);
+      flow[cell] = saturate(flow[cell] / visitsPerCell, FLOW_SATURATION);
+    }
+    return { delta, flow, sediment };
+  }
+}
+
+// The erosion the terrain config asks for, or null when it is switched off.
+export function createErosionField(
+  terrain: TerrainConfig,
+  sampleHeight: (ix: number, iz: number) => number,
+) {
+  const enabled =
+    terrain.erosionDroplets > 0 || terrain.erosionThermalIterations > 0;
+  if (!enabled || terrain.heightScale <= 0) return null;
+  return new ErosionField({
+    cellSize: terrain.cellSize,
+    droplets: terrain.erosionDroplets,
+    heightScale: terrain.heightScale,
+    sampleHeight,
+    seed: terrain.seed,
+    // Loose material slides well before the ground is steep enough for rock.
+    talus: Math.tan(terrain.rockSlope) * 0.5,
+    thermalIterations: terrain.erosionThermalIterations,
+    tileSize: terrain.erosionTileSize,
+  });
+}
@@ -0,0 +1,170 @@
+import { RandomSource } from '../../random';
+
+// Droplet model constants, tuned for heights expressed in cell units.
+const INERTIA = 0.05;
+const CAPACITY_FACTOR = 0.5;
+const MIN_CAPACITY = 0.01;
+const ERODE_SPEED = 0.1;
+const DEPOSIT_SPEED = 0.3;
+const EVAPORATE_SPEED = 0.02;
+const GRAVITY = 4;
+const MAX_STEPS = 32;
+const BRUSH_RADIUS = 2;
+
+type Brush = {
+  size: number;
+  offsets: Int32Array;
+  weights: Float32Array;
+  dx: Int32Array;
+};
+
+function createBrush(size: number): Brush {
+  const offsets: number[] = [];
+  const columns: number[] = [];
+  const weights: number[] = [];
+  let total = 0;
+  for (let dz = -BRUSH_RADIUS; dz <= BRUSH_RADIUS; dz += 1)
+    for (let dx = -BRUSH_RADIUS; dx <= BRUSH_RADIUS; dx += 1) {
+      const weight = 1 - Math.hypot(dx, dz) / BRUSH_RADIUS;
+      if (weight <= 0) continue;
+      offsets.push(dx + dz * size);
+      columns.push(dx);
+      weights.push(weight);
+      total += weight;
+    }
+  return {
+    dx: Int32Array.from(columns),
+    offsets: Int32Array.from(offsets),
+    size,
+    weights: Float32Array.from(weights, (weight) => weight / total),
+  };
+}
+
+// Removes up to `amount` around `cell`, returning what was picked up.
+function erodeBrush(
+  heights: Float32Array,
+  brush: Brush,
+  cellX: number,
+  cell: number,
+  amount: number,
+) {
+  const { size, offsets, dx, weights } = brush;
+  let removed = 0;
+  for (const [brushIndex, offset] of offsets.entries()) {
+    const column = cellX + dx[brushIndex];
+    const target = cell + offset;
+    // Skip brush cells that wrap around a row or fall off the grid.
+    if (column < 0 || column >= size) continue;
+    if (target < 0 || target >= heights.length) continue;
+    const share = Math.min(heights[target], amount * weights[brushIndex]);
+    heights[target] -= share;
+    removed += share;
+  }
+  return removed;
+}
+
+// Bilinear height and gradient of the grid at (x, z), in cell units.
+function gradientAt(heights: Float32Array, size: number, x: number, z: number) {
+  const ix = Math.floor(x);
+  const iz = Math.floor(z);
+  const tx = x - ix;
+  const tz = z - iz;
+  const index = ix + iz * size;
+  const h00 = heights[index];
+  const h10 = heights[index + 1];
+  const h01 = heights[index + size];
+  const h11 = heights[index + size + 1];
+  return {
+    gradientX: (h10 - h00) * (1 - tz) + (h11 - h01) * tz,
+    gradientZ: (h01 - h00) * (1 - tx) + (h11 - h10) * tx,
+    height:
+      h00 * (1 - tx) * (1 - tz) +
+      h10 * tx * (1 - tz) +
+      h01 * (1 - tx) * tz +
+      h11 * tx * tz,
+  };
+}
+
+/**
+ * Particle-based hydraulic erosion on a square grid of `size` x `size`
+ * heights. Each droplet runs downhill picking up sediment while it is fast
+ * and dropping it where it slows, carving gullies and filling hollows.
+ * Droplets that leave the grid are dropped. `sediment` accumulates deposited
+ * material and `flow` counts the droplets that passed each cell.
+ */
+export function erodeHydraulic(options: {
+  heights: Float32Array;
+  size: number;
+  droplets: number;
+  random: RandomSource;
+  sediment: Float32Array;
+  flow: Float32Array;
+}) {
+  const { heights, size, droplets, random, sediment, flow } = options;
+  const brush = createBrush(size);
+  const limit = size - 1;
+
+  for (let droplet = 0; droplet < droplets; droplet += 1) {
+    let x = random() * (limit - 1);
+    let z = random() * (limit - 1);
+    let directionX = 0;
+    let directionZ = 0;
+    let speed = 1;
+    let water = 1;
+    let carried = 0;
+
+    for (let step = 0; step < MAX_STEPS; step += 1) {
+      const cellX = Math.floor(x);
+      const cellZ = Math.floor(z);
+      const cell = cellX + cellZ * size;
+      const offsetX = x - cellX;
+      const offsetZ = z - cellZ;
+      flow[cell] += 1;
+
+      const { gradientX, gradientZ, height } = gradientAt(heights, size, x, z);
+      directionX = directionX * INERTIA - gradientX * (1 - INERTIA);
+      directionZ = directionZ * INERTIA - gradientZ * (1 - INERTIA);
+      const length = Math.hypot(directionX, directionZ);
+      if (length === 0) break;
+      directionX /= length;
+      directionZ /= length;
+      x += directionX;
+      z += directionZ;
+      if (x < 0 || z < 0 || x >= limit || z >= limit) break;
+
+      const deltaHeight = gradientAt(heights, size, x, z).height - height;
+      const capacity = Math.max(
+        -deltaHeight * speed * water * CAPACITY_FACTOR,
+        MIN_CAPACITY,
+      );
+
+      if (carried > capacity || deltaHeight > 0) {
+        // Uphill: fill the pit behind; otherwise drop the surplus.
+        const amount =
+          deltaHeight > 0
+            ? Math.min(deltaHeight, carried)
+            : (carried - capacity) * DEPOSIT_SPEED;
+        carried -= amount;
+        const corners = [
+          [cell, (1 - offsetX) * (1 - offsetZ)],
+          [cell + 1, offsetX * (1 - offsetZ)],
+          [cell + size, (1 - offsetX) * offsetZ],
+          [cell + size + 1, offsetX * offsetZ],
+        ] as const;
+        for (const [corner, share] of corners) {
+          heights[corner] += amount * share;
+          sediment[corner] += amount * share;
+        }
+      } else {
+        const amount = Math.min(
+          (capacity - carried) * ERODE_SPEED,
+          -deltaHeight,
+        );
+        carried += erodeBrush(heights, brush, cellX, cell, amount);
+      }
+
+      speed = Math.sqrt(Math.max(0, speed * speed - deltaHeight * GRAVITY));
+      water *= 1 - EVAPORATE_SPEED;
+    }
+  }
+}
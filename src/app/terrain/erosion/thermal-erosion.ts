@@ -0,0 +1,65 @@
+// Share of the excess over the talus slope moved per iteration.
+const SETTLE_RATE = 0.5;
+
+const neighbours = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+] as const;
+
+// Accumulates into `delta` what slides off cell (x, z) to each neighbour.
+function settle(
+  grid: {
+    heights: Float32Array;
+    size: number;
+    talus: number;
+    delta: Float32Array;
+  },
+  x: number,
+  z: number,
+) {
+  const { heights, size, talus, delta } = grid;
+  const cell = x + z * size;
+  const height = heights[cell];
+  for (const [dx, dz] of neighbours) {
+    const nx = x + dx;
+    const nz = z + dz;
+    if (nx < 0 || nz < 0 || nx >= size || nz >= size) continue;
+    const neighbour = nx + nz * size;
+    const excess = height - heights[neighbour] - talus;
+    if (excess <= 0) continue;
+    // A quarter per neighbour so a peak never drops below its base.
+    const moved = excess * SETTLE_RATE * 0.25;
+    delta[cell] -= moved;
+    delta[neighbour] += moved;
+  }
+}
+
+/**
+ * Thermal (talus) erosion on a square grid of `size` x `size` heights in cell
+ * units. Wherever a cell is steeper than `talus` towards a neighbour, part of
+ * the excess slides down to it, rounding off sharp crests and building scree
+ * at the foot of slopes. Material that settles is added to `sediment`.
+ */
+export function erodeThermal(options: {
+  heights: Float32Array;
+  size: number;
+  iterations: number;
+  talus: number;
+  sediment: Float32Array;
+}) {
+  const { heights, size, iterations, talus, sediment } = options;
+  const delta = new Float32Array(heights.length);
+  const grid = { delta, heights, size, talus };
+
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    delta.fill(0);
+    for (let z = 0; z < size; z += 1)
+      for (let x = 0; x < size; x += 1) settle(grid, x, z);
+    for (let cell = 0; cell < heights.length; cell += 1) {
+      heights[cell] += delta[cell];
+      if (delta[cell] > 0) sediment[cell] += delta[cell];
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import * as THREE from 'three';
+import { FlowerModel, FlowerModelKind, FlowerModels } from './flower-models';
+
+// A flower or rock scattered in a chunk.
+export type FlowerInstance = {
+  kind: FlowerModelKind;
+  position: THREE.Vector3;
+  // Turn about the vertical axis, in radians.
+  rotation: number;
+  scale: number;
+  // Multiplies the model's own colours.
+  tint: THREE.Color;
+};
+
+type FlowerMeshes = {
+  meshes: THREE.InstancedMesh[];
+  // Indices into the batch's flowers, in instance order.
+  members: number[];
+};
+
+/**
+ * A chunk's flowers and rocks, drawn as one instanced mesh per model part
+ * and kind once that model has loaded. Models are shared between chunks;
+ * their materials fade instances out before `fadeDistance`, and the whole
+ * batch is hidden once no part of the chunk is that close.
+ */
+export class FlowerBatch {
+  public readonly object = new THREE.Group();
+  public readonly flowers: readonly FlowerInstance[];
+  private readonly kinds = new Map<FlowerModelKind, FlowerMeshes>();
+  private readonly loaded = new Map<FlowerModelKind, FlowerModel>();
+  private readonly centerX: number;
+  private readonly centerZ: number;
+  // Camera distance from the chunk centre past which nothing shows.
+  private readonly reach: number;
+  private disposed = false;
+
+  constructor(options: {
+    flowers: readonly FlowerInstance[];
+    models: FlowerModels;
+    fadeDistance: number;
+    centerX: number;
+    centerZ: number;
+    // World units across the chunk.
+    width: number;
+  }) {
+    const { flowers, models, fadeDistance, centerX, centerZ, width } = options;
+    this.flowers = flowers;
+    this.centerX = centerX;
+    this.centerZ = centerZ;
+    this.reach = fadeDistance + width * Math.SQRT1_2;
+
+    for (const [index, { kind }] of flowers.entries()) {
+      const members = this.kinds.get(kind)?.members ?? [];
+      members.push(index);
+      this.kinds.set(kind, { meshes: [], members });
+    }
+    for (const kind of this.kinds.keys())
+      this.addModel(kind, models).catch(console.error);
+  }
+
+  // Hides the batch while the camera is past every instance's fade.
+  public update(cameraPosition: THREE.Vector3) {
+    const distance = Math.hypot(
+      cameraPosition.x - this.centerX,
+      cameraPosition.z - this.centerZ,
+    );
+    this.object.visible = distance < this.reach;
+  }
+
+  /**
+   * Moves every instance up or down by `heightChange` at its position, for
+   * ground that was sculpted under it.
+   */
+  public settle(heightChange: (x: number, z: number) => number) {
+    for (const { position } of this.flowers)
+      position.y += heightChange(position.x, position.z);
+    for (const { meshes, members } of this.kinds.values())
+      for (const mesh of meshes) this.place(mesh, members);
+  }
+
+  // A standalone copy of flower `index`, or null while its model loads.
+  public flowerObject(index: number) {
+    const flower = this.flowers[index];
+    const model = this.loaded.get(flower.kind);
+    if (!model) return null;
+    const copy = new THREE.Group();
+    copy.name = flower.kind;
+    for (const { geometry, material } of model)
+      copy.add(new THREE.Mesh(geometry, material));
+    copy.position.copy(flower.position);
+    copy.rotation.y = flower.rotation;
+    copy.scale.setScalar(flower.scale);
+    return copy;
+  }
+
+  // Frees the per-chunk instance buffers; shared models stay.
+  public dispose(parent: THREE.Object3D) {
+    this.disposed = true;
+    parent.remove(this.object);
+    for (const { meshes } of this.kinds.values())
+      for (const mesh of meshes) mesh.dispose();
+  }
+
+  private async addModel(kind: FlowerModelKind, models: FlowerModels) {
+    const model = await models.load(kind);
+    const batch = this.kinds.get(kind);
+    if (this.disposed || !batch) return;
+    this.loaded.set(kind, model);
+    const { meshes, members } = batch;
+    for (const { geometry, material } of model) {
+      const mesh = new THREE.InstancedMesh(geometry, material, members.length);
+      mesh.name = kind;
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      for (const [instance, index] of members.entries())
+        mesh.setColorAt(instance, this.flowers[index].tint);
+      this.place(mesh, members);
+      meshes.push(mesh);
+      this.object.add(mesh);
+    }
+  }
+
+  private place(mesh: THREE.InstancedMesh, members: readonly number[]) {
+    const matrix = new THREE.Matrix4();
+    const rotation = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    const up = new THREE.Vector3(0, 1, 0);
+    for (const [instance, index] of members.entries()) {
+      const flower = this.flowers[index];
+      rotation.setFromAxisAngle(up, flower.rotation);
+      scale.setScalar(flower.scale);
+      mesh.setMatrixAt(
+        instance,
+        matrix.compose(flower.position, rotation, scale),
+      );
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }
+}
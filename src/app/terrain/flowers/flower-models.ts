@@ -0,0 +1,199 @@
+import * as THREE from 'three';
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader';
+import { FlowerKind } from '../biomes/biome-definitions';
+import { ModelAsset, assetManifest } from '../../assets/asset-manifest';
+
+// What the flower scatter places: a biome's flowers, or a rock.
+export type FlowerModelKind = FlowerKind | 'rock';
+
+export const flowerModelKinds: readonly FlowerModelKind[] = [
+  'daisy',
+  'anemone',
+  'crocus',
+  'daffodil',
+  'dandelion',
+  'snowdrop',
+  'rock',
+];
+
+// One mesh of a flower model, shared by every instance of it.
+export type FlowerPart = {
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material | THREE.Material[];
+};
+
+// A loaded model, upright and at our scale, standing on the origin.
+export type FlowerModel = FlowerPart[];
+
+const fadeVertexHead = `
+varying float vFlowerDistance;
+`;
+
+const fadeVertex = `
+#include <project_vertex>
+vFlowerDistance = length(mvPosition.xyz);
+`;
+
+const fadeFragmentHead = `
+uniform float flowerFadeStart;
+uniform float flowerFadeEnd;
+varying float vFlowerDistance;
+`;
+
+/**
+ * Screen-door fade: past `flowerFadeStart` a growing share of pixels is
+ * dropped, in a fixed dither pattern, until none are left at `flowerFadeEnd`.
+ */
+const fadeFragment = `
+#include <clipping_planes_fragment>
+float flowerFade = smoothstep(flowerFadeStart, flowerFadeEnd, vFlowerDistance);
+float flowerDither = fract(
+  52.9829189 * fract(dot(gl_FragCoord.xy, vec2(0.06711056, 0.00583715)))
+);
+if (flowerFade > flowerDither) discard;
+`;
+
+const ignoreProgress = () => {
+  /* Empty. */
+};
+
+// Material settings that name one of `files`, as the .mtl wrote them.
+function namesFile(value: unknown, files: readonly string[]) {
+  return (
+    typeof value === 'string' && files.some((file) => value.endsWith(file))
+  );
+}
+
+// Loads `model`, leaving out the `absent` textures rather than drawing black.
+function loadObject(model: ModelAsset, absent: readonly string[]) {
+  const { basePath, mtlFile, objectFile } = model;
+  return new Promise<THREE.Group>((resolve, reject) => {
+    const fail = (error: unknown) => {
+      reject(new Error(String(error)));
+    };
+    const mtlLoader = new MTLLoader();
+    mtlLoader.setPath(basePath);
+    mtlLoader.load(
+      mtlFile,
+      (materials) => {
+        for (const info of Object.values(materials.materialsInfo))
+          for (const [key, value] of Object.entries(info))
+            if (namesFile(value, absent)) Reflect.deleteProperty(info, key);
+        materials.preload();
+        const objectLoader = new OBJLoader();
+        objectLoader.setMaterials(materials);
+        objectLoader.setPath(basePath);
+        objectLoader.load(objectFile, resolve, ignoreProgress, fail);
+      },
+      ignoreProgress,
+      fail,
+    );
+  });
+}
+
+/**
+ * The flower and rock models, each loaded once and shared by every chunk's
+ * batches. Their materials fade out with distance from the camera. A model
+ * that can't be loaded is drawn as a placeholder, with a warning, so its
+ * instances never silently go missing.
+ */
+export class FlowerModels {
+  private readonly models = new Map<FlowerModelKind, Promise<FlowerModel>>();
+  // Asset URLs preloading could not fetch.
+  private readonly missing: ReadonlySet<string>;
+  private placeholderModel: FlowerModel | null = null;
+  private readonly fadeUniforms: {
+    flowerFadeStart: THREE.IUniform<number>;
+    flowerFadeEnd: THREE.IUniform<number>;
+  };
+
+  constructor(options: { fadeDistance: number; missing: ReadonlySet<string> }) {
+    const { fadeDistance, missing } = options;
+    this.missing = missing;
+    this.fadeUniforms = {
+      flowerFadeEnd: { value: fadeDistance },
+      flowerFadeStart: { value: fadeDistance * 0.75 },
+    };
+  }
+
+  public load(kind: FlowerModelKind) {
+    const cached = this.models.get(kind);
+    if (cached) return cached;
+    const model = this.loadModel(assetManifest.models[kind]).catch(
+      (error: unknown) => {
+        console.warn(
+          `Flower model ${kind} failed to load, drawing a placeholder:`,
+          error,
+        );
+        return this.placeholder();
+      },
+    );
+    this.models.set(kind, model);
+    return model;
+  }
+
+  private async loadModel(model: ModelAsset) {
+    const { basePath, objectFile, mtlFile, textures, modelScale } = model;
+    for (const file of [objectFile, mtlFile])
+      if (this.missing.has(basePath + file))
+        throw new Error(`${basePath + file} is missing`);
+    const absent = textures.filter((file) => this.missing.has(basePath + file));
+    if (absent.length > 0)
+      console.warn(`${basePath + mtlFile} drawn without ${absent.join(', ')}`);
+    const parts = this.bake(await loadObject(model, absent), modelScale);
+    if (parts.length === 0)
+      throw new Error(`${basePath + objectFile} has no meshes`);
+    return parts;
+  }
+
+  // A magenta diamond standing on the origin, shared by every missing kind.
+  private placeholder(): FlowerModel {
+    if (this.placeholderModel) return this.placeholderModel;
+    const geometry = new THREE.OctahedronGeometry(0.4);
+    geometry.translate(0, 0.4, 0);
+    const material = new THREE.MeshStandardMaterial({
+      color: '#ff00ff',
+      emissive: '#660066',
+      flatShading: true,
+    });
+    this.addFade(material);
+    this.placeholderModel = [{ geometry, material }];
+    return this.placeholderModel;
+  }
+
+  // Bakes the model's own transforms into copies of its meshes' geometry.
+  private bake(object: THREE.Group, modelScale: number): FlowerModel {
+    object.rotateX(-Math.PI / 2);
+    object.scale.multiplyScalar(modelScale);
+    object.updateMatrixWorld(true);
+    const parts: FlowerModel = [];
+    object.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const { geometry, material, matrixWorld } = child as THREE.Mesh;
+      for (const item of Array.isArray(material) ? material : [material])
+        this.addFade(item);
+      parts.push({
+        geometry: geometry.clone().applyMatrix4(matrixWorld),
+        material,
+      });
+      geometry.dispose();
+    });
+    return parts;
+  }
+
+  private addFade(material: THREE.Material) {
+    material.onBeforeCompile = (shader) => {
+      Object.assign(shader.uniforms, this.fadeUniforms);
+      shader.vertexShader =
+        fadeVertexHead +
+        shader.vertexShader.replace('#include <project_vertex>', fadeVertex);
+      shader.fragmentShader =
+        fadeFragmentHead +
+        shader.fragmentShader.replace(
+          '#include <clipping_planes_fragment>',
+          fadeFragment,
+        );
+    };
+  }
+}
@@ -1,13 +1,8 @@
 import * as THREE from 'three';
 import { grassFragmentSource, grassVertexSource } from './grass-shaders';
-import {
-  populateInstanceAttributes,
-  computeBoundingSphere,
-} from './grass-utilities';
-export {
-  populateInstanceAttributes,
-  computeBoundingSphere,
-} from './grass-utilities';
+import { GrassInstanceData, computeBoundingSphere } from './grass-utilities';
+import { assetManifest } from '../../assets/asset-manifest';
+export { computeBoundingSphere } from './grass-utilities';
 
 let baseGeometry: THREE.PlaneGeometry | null = null;
 let farBaseGeometry: THREE.PlaneGeometry | null = null;
@@ -66,7 +61,7 @@ export function ensureSharedResources(bladeWidth: number, bladeHeight: number) {
   if (!sharedGrassTexture) {
     const loader = new THREE.TextureLoader();
     loader.crossOrigin = '';
-    const grassTex = loader.load('/src/assets/models/grass/blade_diffuse.jpg');
+    const grassTex = loader.load(assetManifest.textures.grassBlade);
     grassTex.minFilter = THREE.LinearMipmapLinearFilter;
     grassTex.magFilter = THREE.LinearFilter;
     grassTex.anisotropy = 1;
@@ -75,7 +70,7 @@ export function ensureSharedResources(bladeWidth: number, bladeHeight: number) {
   if (!sharedAlphaMap) {
     const loader = new THREE.TextureLoader();
     loader.crossOrigin = '';
-    const alphaTex = loader.load('/src/assets/models/grass/blade_alpha.jpg');
+    const alphaTex = loader.load(assetManifest.textures.grassAlpha);
     alphaTex.minFilter = THREE.LinearMipmapLinearFilter;
     alphaTex.magFilter = THREE.LinearFilter;
     alphaTex.anisotropy = 1;
@@ -122,8 +117,7 @@ export function createInstancedGeometry(options: {
   centerZ: number;
   width: number;
   sampleHeight: (x: number, z: number) => number;
-  waterLevel: number;
-  bladeCount: number;
+  instances: GrassInstanceData;
   bladeWidth: number;
   bladeHeight: number;
 }) {
@@ -132,14 +126,11 @@ export function createInstancedGeometry(options: {
     centerZ,
     width,
     sampleHeight,
-    waterLevel,
-    bladeCount,
+    instances,
     bladeWidth,
     bladeHeight,
   } = options;
 
-  const instances = Math.max(0, bladeCount);
-
   const instancedGeometry = new THREE.InstancedBufferGeometry();
   const baseGeom = baseGeometry;
   if (!baseGeom) throw new Error('Missing base geometry');
@@ -148,43 +139,29 @@ export function createInstancedGeometry(options: {
   instancedGeometry.attributes.uv = baseGeom.attributes.uv;
   instancedGeometry.attributes.normal = baseGeom.attributes.normal;
 
-  const indices = new Float32Array(instances);
-  const offsets = new Float32Array(instances * 3);
-  const scales = new Float32Array(instances);
-  const halfRootAngles = new Float32Array(instances * 2);
-
-  const placedCount = populateInstanceAttributes({
-    instances,
-    indices,
-    offsets,
-    scales,
-    halfRootAngles,
-    width,
-    centerX,
-    centerZ,
-    sampleHeight,
-    waterLevel,
-  });
+  const { placedCount, offsets, scales, halfRootAngles, indices, tints } =
+    instances;
 
   instancedGeometry.setAttribute(
     'offset',
-    new THREE.InstancedBufferAttribute(offsets.subarray(0, placedCount * 3), 3),
+    new THREE.InstancedBufferAttribute(offsets, 3),
   );
   instancedGeometry.setAttribute(
     'scale',
-    new THREE.InstancedBufferAttribute(scales.subarray(0, placedCount), 1),
+    new THREE.InstancedBufferAttribute(scales, 1),
   );
   instancedGeometry.setAttribute(
     'halfRootAngle',
-    new THREE.InstancedBufferAttribute(
-      halfRootAngles.subarray(0, placedCount * 2),
-      2,
-    ),
+    new THREE.InstancedBufferAttribute(halfRootAngles, 2),
   );
   instancedGeometry.setAttribute(
     'index',
     new THREE.InstancedBufferAttribute(indices, 1),
   );
+  instancedGeometry.setAttribute(
+    'tint',
+    new THREE.InstancedBufferAttribute(tints, 3),
+  );
   instancedGeometry.instanceCount = placedCount;
 
   if (placedCount > 0) {
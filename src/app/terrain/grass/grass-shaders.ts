@@ -7,6 +7,7 @@ attribute vec2 uv;
 attribute vec2 halfRootAngle;
 attribute float scale;
 attribute float index;
+attribute vec3 tint;
 uniform float time;
 
 uniform float width;
@@ -28,6 +29,7 @@ varying vec3 vNormal;
 varying vec3 vPosition;
 varying float frc;
 varying float idx;
+varying vec3 vTint;
 varying vec3 vLightMul;
 varying vec3 vSpecular;
 
@@ -50,6 +52,7 @@ void main() {
   localPos = rotateVectorByQuaternion(localPos, direction);
   localNormal = rotateVectorByQuaternion(localNormal, direction);
   vUv = uv;
+  vTint = tint;
 
   // Place blade at instance offset (offset is local XYXZ relative to chunk center)
   vec3 pos;
@@ -114,6 +117,7 @@ uniform sampler2D map;
 uniform sampler2D alphaMap;
 varying float frc;
 varying float idx;
+varying vec3 vTint;
 varying vec2 vUv;
 varying vec3 vNormal;
 varying vec3 vPosition;
@@ -124,7 +128,8 @@ void main(){
   vec3 normal;
   if(gl_FrontFacing) normal = normalize(vNormal); else normal = normalize(-vNormal);
   vec3 textureColour = texture2D(map, vUv).rgb;
-  vec3 mixColour = idx > 0.75 ? vec3(0.35,0.55,0.20) : vec3(0.45,0.60,0.25);
+  // Biome tint, a little darker on a quarter of the blades for variety
+  vec3 mixColour = idx > 0.75 ? vTint * vec3(0.78,0.92,0.8) : vTint;
   textureColour = mix(0.1 * mixColour, textureColour, 0.6);
 
   // Apply interpolated lighting from vertex shader
@@ -1,75 +1,14 @@
 import * as THREE from 'three';
 
-export function populateInstanceAttributes(options: {
-  instances: number;
+export type GrassInstanceData = {
   indices: Float32Array;
   offsets: Float32Array;
   scales: Float32Array;
   halfRootAngles: Float32Array;
-  width: number;
-  centerX: number;
-  centerZ: number;
-  sampleHeight: (x: number, z: number) => number;
-  waterLevel: number;
-}) {
-  const {
-    instances,
-    indices,
-    offsets,
-    scales,
-    halfRootAngles,
-    width,
-    centerX,
-    centerZ,
-    sampleHeight,
-    waterLevel,
-  } = options;
-  let placedCount = 0;
-  const cutoff = waterLevel + 12;
-  const fuzz = 12;
-  const fuzzHalf = fuzz * 0.5;
-  const instancesLocal = instances;
-
-  for (let index = 0; index < instancesLocal; index++) {
-    indices[index] = index / instancesLocal;
-    const x = Math.random() * width - width / 2;
-    const z = Math.random() * width - width / 2;
-    const y = sampleHeight(centerX + x, centerZ + z);
-
-    const posNoise = (() => {
-      const ax = centerX + x;
-      const bz = centerZ + z;
-      const noiseSeed = Math.sin(ax * 12.9898 + bz * 78.233) * 43_758;
-      return noiseSeed - Math.floor(noiseSeed);
-    })();
-
-    const placementProb = ((): number => {
-      let tv =
-        (y - (cutoff - fuzzHalf)) /
-        (cutoff + fuzzHalf - (cutoff - fuzzHalf) || 1);
-      if (tv < 0) tv = 0;
-      if (tv > 1) tv = 1;
-      return tv * tv * (3 - 2 * tv);
-    })();
-
-    const place = posNoise < placementProb;
-    if (!place) continue;
-
-    const offsetBase = placedCount * 3;
-    offsets[offsetBase + 0] = x;
-    offsets[offsetBase + 1] = y;
-    offsets[offsetBase + 2] = z;
-    const angleRoot = Math.PI - Math.random() * (2 * Math.PI);
-    const halfBase = placedCount * 2;
-    halfRootAngles[halfBase + 0] = Math.sin(0.5 * angleRoot);
-    halfRootAngles[halfBase + 1] = Math.cos(0.5 * angleRoot);
-    scales[placedCount] =
-      index % 3 !== 0 ? 2 + Math.random() * 1.25 : 2 + Math.random();
-    placedCount++;
-  }
-
-  return placedCount;
-}
+  // Shader colour per blade, from the biome it grows in.
+  tints: Float32Array;
+  placedCount: number;
+};
 
 export function computeBoundingSphere(
   instancedGeometry: THREE.InstancedBufferGeometry,
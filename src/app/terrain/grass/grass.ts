@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import type { SkyController } from '../../sky/sky';
+import { GrassInstanceData } from './grass-utilities';
 import {
   createFarBase,
   createCrossBase,
@@ -48,6 +49,7 @@ export class Grass {
       instancedGeometry.getAttribute('halfRootAngle'),
     );
     farInst.setAttribute('index', instancedGeometry.getAttribute('index'));
+    farInst.setAttribute('tint', instancedGeometry.getAttribute('tint'));
     const farInstanceCount = Math.max(0, Math.floor(placedCount * 0.6));
     farInst.instanceCount = farInstanceCount;
     if (instancedGeometry.boundingSphere)
@@ -76,6 +78,7 @@ export class Grass {
       instancedGeometry.getAttribute('halfRootAngle'),
     );
     crossInst.setAttribute('index', instancedGeometry.getAttribute('index'));
+    crossInst.setAttribute('tint', instancedGeometry.getAttribute('tint'));
     const crossInstanceCount = Math.max(0, Math.floor(placedCount * 0.25));
     crossInst.instanceCount = crossInstanceCount;
     if (instancedGeometry.boundingSphere)
@@ -115,11 +118,9 @@ export class Grass {
     centerZ: number;
     width: number;
     sampleHeight: (x: number, z: number) => number;
-    waterLevel: number;
-    bladeCount: number;
+    instances: GrassInstanceData;
   }) {
-    const { centerX, centerZ, width, sampleHeight, waterLevel, bladeCount } =
-      options;
+    const { centerX, centerZ, width, sampleHeight, instances } = options;
 
     this.width = width;
 
@@ -129,13 +130,12 @@ export class Grass {
     ensureSharedResources(bladeWidth, bladeHeight);
 
     const { instancedGeometry, placedCount } = createInstancedGeometry({
-      bladeCount,
       bladeHeight,
       bladeWidth,
       centerX,
       centerZ,
+      instances,
       sampleHeight,
-      waterLevel,
       width,
     });
 
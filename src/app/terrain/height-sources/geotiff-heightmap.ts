@@ -0,0 +1,284 @@
+import { HeightGrid } from './height-source';
+import { decodeLzw, inflate } from './heightmap-decoding';
+
+const tags = {
+  bitsPerSample: 258,
+  compression: 259,
+  imageLength: 257,
+  imageWidth: 256,
+  noData: 42_113,
+  predictor: 317,
+  rowsPerStrip: 278,
+  sampleFormat: 339,
+  samplesPerPixel: 277,
+  stripByteCounts: 279,
+  stripOffsets: 273,
+  tileByteCounts: 325,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileWidth: 322,
+};
+
+// Bytes per value of each TIFF field type.
+const typeSizes: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+};
+
+type Ifd = Map<number, number[] | string>;
+
+function readValue(view: DataView, type: number, at: number, little: boolean) {
+  switch (type) {
+    case 3:
+      return view.getUint16(at, little);
+    case 4:
+      return view.getUint32(at, little);
+    case 5:
+      return view.getUint32(at, little) / view.getUint32(at + 4, little);
+    case 6:
+      return view.getInt8(at);
+    case 8:
+      return view.getInt16(at, little);
+    case 9:
+      return view.getInt32(at, little);
+    case 10:
+      return view.getInt32(at, little) / view.getInt32(at + 4, little);
+    case 11:
+      return view.getFloat32(at, little);
+    case 12:
+      return view.getFloat64(at, little);
+    default:
+      return view.getUint8(at);
+  }
+}
+
+// The first image's tags; later images (overviews) are ignored.
+function readIfd(view: DataView, little: boolean): Ifd {
+  const ifd: Ifd = new Map();
+  const offset = view.getUint32(4, little);
+  const count = view.getUint16(offset, little);
+  for (let index = 0; index < count; index += 1) {
+    const entry = offset + 2 + index * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+    const size = (typeSizes[type] ?? 1) * length;
+    const at = size <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    const values = Array.from({ length }, (_, item) =>
+      readValue(view, type, at + item * (typeSizes[type] ?? 1), little),
+    );
+    ifd.set(tag, type === 2 ? String.fromCodePoint(...values) : values);
+  }
+  return ifd;
+}
+
+function numbers(ifd: Ifd, tag: number, fallback: number[]) {
+  const value = ifd.get(tag) ?? fallback;
+  if (typeof value === 'string')
+    throw new Error(`Bad GeoTIFF tag ${String(tag)}`);
+  return value;
+}
+
+async function decompress(
+  bytes: Uint8Array<ArrayBuffer>,
+  compression: number,
+  size: number,
+) {
+  switch (compression) {
+    case 1:
+      return bytes;
+    case 5:
+      return decodeLzw(bytes, size);
+    case 8:
+    case 32_946:
+      return inflate([bytes]);
+    default:
+      throw new Error(
+        `GeoTIFF compression ${String(compression)} is not supported; use none, LZW or deflate`,
+      );
+  }
+}
+
+type SampleArray =
+  | Uint8Array
+  | Uint16Array
+  | Uint32Array
+  | Int16Array
+  | Int32Array
+  | Float32Array
+  | Float64Array;
+
+type SampleFormat = {
+  // Of the sample's own type, so differencing wraps as it was written.
+  create: (length: number) => SampleArray;
+  read: (view: DataView, at: number, little: boolean) => number;
+};
+
+// Sample types by TIFF sample format (1 unsigned, 2 signed, 3 float) and bits.
+const sampleFormats: Record<string, SampleFormat> = {
+  '1:16': {
+    create: (length) => new Uint16Array(length),
+    read: (view, at, little) => view.getUint16(at, little),
+  },
+  '1:32': {
+    create: (length) => new Uint32Array(length),
+    read: (view, at, little) => view.getUint32(at, little),
+  },
+  '1:8': {
+    create: (length) => new Uint8Array(length),
+    read: (view, at) => view.getUint8(at),
+  },
+  '2:16': {
+    create: (length) => new Int16Array(length),
+    read: (view, at, little) => view.getInt16(at, little),
+  },
+  '2:32': {
+    create: (length) => new Int32Array(length),
+    read: (view, at, little) => view.getInt32(at, little),
+  },
+  '3:32': {
+    create: (length) => new Float32Array(length),
+    read: (view, at, little) => view.getFloat32(at, little),
+  },
+  '3:64': {
+    create: (length) => new Float64Array(length),
+    read: (view, at, little) => view.getFloat64(at, little),
+  },
+};
+
+type TiffLayout = {
+  little: boolean;
+  sampleFormat: SampleFormat;
+  compression: number;
+  predictor: number;
+  samplesPerPixel: number;
+  blockWidth: number;
+  blockDepth: number;
+};
+
+// One strip or tile, decompressed and undifferenced, as samples.
+async function readBlock(bytes: Uint8Array<ArrayBuffer>, layout: TiffLayout) {
+  const { little, sampleFormat, compression, predictor } = layout;
+  const { samplesPerPixel, blockWidth, blockDepth } = layout;
+  const samples = sampleFormat.create(
+    blockWidth * blockDepth * samplesPerPixel,
+  );
+  const data = await decompress(bytes, compression, samples.byteLength);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const available = Math.min(
+    samples.length,
+    Math.floor(data.byteLength / samples.BYTES_PER_ELEMENT),
+  );
+  for (let index = 0; index < available; index += 1)
+    samples[index] = sampleFormat.read(
+      view,
+      index * samples.BYTES_PER_ELEMENT,
+      little,
+    );
+  // Horizontal differencing stores each sample as the change from its left.
+  if (predictor === 2)
+    for (let index = 0; index < available; index += 1)
+      if (index % (blockWidth * samplesPerPixel) >= samplesPerPixel)
+        samples[index] += samples[index - samplesPerPixel];
+  return samples;
+}
+
+// Scales elevations to 0..1 between the lowest and highest; no-data is lowest.
+function normalise(elevations: Float64Array, noData: number) {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of elevations)
+    if (value !== noData && Number.isFinite(value)) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  const range = max - min || 1;
+  return Float32Array.from(elevations, (value) =>
+    value !== noData && Number.isFinite(value) ? (value - min) / range : 0,
+  );
+}
+
+/**
+ * Decodes the elevations of a GeoTIFF DEM, in strips or tiles, uncompressed
+ * or LZW or deflate compressed. Heights span the DEM's own range; cells
+ * marked as no-data sit at its lowest.
+ */
+export async function decodeGeoTiffHeightmap(
+  buffer: ArrayBuffer,
+): Promise<HeightGrid> {
+  const view = new DataView(buffer);
+  const order = String.fromCodePoint(view.getUint8(0), view.getUint8(1));
+  const little = order === 'II';
+  if ((!little && order !== 'MM') || view.getUint16(2, little) !== 42)
+    throw new Error('Heightmap is not a TIFF file (BigTIFF is not supported)');
+  const ifd = readIfd(view, little);
+  const [width] = numbers(ifd, tags.imageWidth, []);
+  const [depth] = numbers(ifd, tags.imageLength, []);
+  const [bits] = numbers(ifd, tags.bitsPerSample, [1]);
+  const [format] = numbers(ifd, tags.sampleFormat, [1]);
+  const [compression] = numbers(ifd, tags.compression, [1]);
+  const [predictor] = numbers(ifd, tags.predictor, [1]);
+  const [samplesPerPixel] = numbers(ifd, tags.samplesPerPixel, [1]);
+  const tiled = ifd.has(tags.tileWidth);
+  const [blockWidth] = tiled ? numbers(ifd, tags.tileWidth, []) : [width];
+  const [blockDepth] = tiled
+    ? numbers(ifd, tags.tileLength, [])
+    : numbers(ifd, tags.rowsPerStrip, [depth]);
+  const offsets = numbers(
+    ifd,
+    tiled ? tags.tileOffsets : tags.stripOffsets,
+    [],
+  );
+  const counts = numbers(
+    ifd,
+    tiled ? tags.tileByteCounts : tags.stripByteCounts,
+    [],
+  );
+  const sampleFormat = sampleFormats[`${String(format)}:${String(bits)}`] as
+    SampleFormat | undefined;
+  if (!sampleFormat)
+    throw new Error(
+      `GeoTIFF samples of ${String(bits)} bits in format ${String(format)} are not supported`,
+    );
+  const layout: TiffLayout = {
+    blockDepth: Math.min(blockDepth, depth),
+    blockWidth,
+    compression,
+    little,
+    predictor,
+    sampleFormat,
+    samplesPerPixel,
+  };
+  const noDataTag = ifd.get(tags.noData);
+  const noData =
+    typeof noDataTag === 'string' ? Number.parseFloat(noDataTag) : Number.NaN;
+  const across = Math.ceil(width / blockWidth);
+  const elevations = new Float64Array(width * depth);
+
+  const blocks = await Promise.all(
+    offsets.map((offset, block) =>
+      readBlock(new Uint8Array(buffer, offset, counts[block]), layout),
+    ),
+  );
+  for (const [block, samples] of blocks.entries()) {
+    const left = (block % across) * blockWidth;
+    const top = Math.floor(block / across) * layout.blockDepth;
+    const rows = Math.min(layout.blockDepth, depth - top);
+    const columns = Math.min(blockWidth, width - left);
+    for (let row = 0; row < rows; row += 1)
+      for (let column = 0; column < columns; column += 1)
+        elevations[left + column + (top + row) * width] =
+          samples[(column + row * blockWidth) * samplesPerPixel];
+  }
+  return { depth, heights: normalise(elevations, noData), width };
+}
@@ -0,0 +1,33 @@
+import type { ChunkGenerationContext } from '../terrain-chunk-generator';
+import { HeightmapHeightSource } from './heightmap-height-source';
+import { ProceduralHeightSource } from './procedural-height-source';
+
+/**
+ * Where terrain heights come from. `sample` gives the normalised height,
+ * before `heightScale`, at a point in cell units. Every worker builds its own
+ * source, so it must give the same answer everywhere for the same point.
+ */
+export interface HeightSource {
+  sample(x: number, z: number): number;
+}
+
+// A decoded heightmap: `width` x `depth` samples in 0..1, rows along x.
+export type HeightGrid = {
+  width: number;
+  depth: number;
+  heights: Float32Array;
+};
+
+// The configured source: noise, or a heightmap over noise.
+export function createHeightSource(
+  context: ChunkGenerationContext,
+): HeightSource {
+  const { heightGrid, heightmap } = context;
+  const procedural = new ProceduralHeightSource(context);
+  if (!heightGrid) return procedural;
+  return new HeightmapHeightSource({
+    config: heightmap,
+    fallback: procedural,
+    grid: heightGrid,
+  });
+}
@@ -0,0 +1,65 @@
+// Inflates zlib-wrapped deflate data, as PNG and TIFF both store it.
+export async function inflate(
+  parts: Uint8Array<ArrayBuffer>[],
+): Promise<Uint8Array> {
+  const stream = new Blob(parts)
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decodes TIFF's LZW: codes of 9 to 12 bits, most significant bit first,
+ * widening one code early. Stops once `size` bytes are out.
+ */
+export function decodeLzw(input: Uint8Array, size: number) {
+  const clearCode = 256;
+  const endCode = 257;
+  const output = new Uint8Array(size);
+  // Codes from 258 up are runs of earlier output.
+  let starts: number[] = [];
+  let lengths: number[] = [];
+  let width = 9;
+  let written = 0;
+  let previousStart = -1;
+  let previousLength = 0;
+  for (let bit = 0; bit + width <= input.length * 8 && written < size;) {
+    const byte = Math.floor(bit / 8);
+    const window =
+      input[byte] * 65_536 +
+      (input[byte + 1] ?? 0) * 256 +
+      (input[byte + 2] ?? 0);
+    const code =
+      Math.floor(window / 2 ** (24 - (bit % 8) - width)) % 2 ** width;
+    bit += width;
+    if (code === endCode) break;
+    if (code === clearCode) {
+      starts = [];
+      lengths = [];
+      width = 9;
+      previousStart = -1;
+      continue;
+    }
+    const start = written;
+    const entry = code - 258;
+    if (code < 256) {
+      output[written] = code;
+      written += 1;
+    } else if (entry < starts.length) {
+      output.copyWithin(written, starts[entry], starts[entry] + lengths[entry]);
+      written += lengths[entry];
+    } else if (entry === starts.length && previousStart >= 0) {
+      output.copyWithin(written, previousStart, previousStart + previousLength);
+      output[written + previousLength] = output[previousStart];
+      written += previousLength + 1;
+    } else throw new Error('Corrupt LZW data');
+    if (previousStart >= 0) {
+      starts.push(previousStart);
+      lengths.push(previousLength + 1);
+    }
+    previousStart = start;
+    previousLength = written - start;
+    if (starts.length + 258 >= 2 ** width - 1 && width < 12) width += 1;
+  }
+  return output;
+}
@@ -0,0 +1,93 @@
+import type { HeightmapConfig } from '../../config/world-config';
+import type { HeightGrid, HeightSource } from './height-source';
+
+export type HeightmapFormat = 'png' | 'raw' | 'geotiff';
+
+export const heightmapFormats: readonly HeightmapFormat[] = [
+  'png',
+  'raw',
+  'geotiff',
+];
+
+export type HeightmapEdges = 'tile' | 'clamp' | 'noise';
+
+export const heightmapEdges: readonly HeightmapEdges[] = [
+  'tile',
+  'clamp',
+  'noise',
+];
+
+function clamp(value: number, max: number) {
+  return Math.min(Math.max(value, 0), max);
+}
+
+function wrap(value: number, period: number) {
+  return ((value % period) + period) % period;
+}
+
+/**
+ * Heights from a decoded heightmap laid over the cell lattice, `spacing`
+ * cells between samples and centred on (`centerX`, `centerZ`). Past its
+ * edges it repeats, stretches its border or hands over to `fallback`.
+ */
+export class HeightmapHeightSource implements HeightSource {
+  private readonly grid: HeightGrid;
+  private readonly config: HeightmapConfig;
+  private readonly fallback: HeightSource;
+  // Cell coordinates of the first sample.
+  private readonly originX: number;
+  private readonly originZ: number;
+
+  constructor(options: {
+    grid: HeightGrid;
+    config: HeightmapConfig;
+    fallback: HeightSource;
+  }) {
+    const { grid, config, fallback } = options;
+    this.grid = grid;
+    this.config = config;
+    this.fallback = fallback;
+    this.originX = config.centerX - ((grid.width - 1) * config.spacing) / 2;
+    this.originZ = config.centerZ - ((grid.depth - 1) * config.spacing) / 2;
+  }
+
+  sample(x: number, z: number) {
+    const { grid, config, fallback, originX, originZ } = this;
+    const { width, depth } = grid;
+    const { spacing, edges, blend } = config;
+    const px = (x - originX) / spacing;
+    const pz = (z - originZ) / spacing;
+    if (edges === 'tile')
+      return this.height(wrap(px, width), wrap(pz, depth), true);
+    if (edges === 'clamp')
+      return this.height(clamp(px, width - 1), clamp(pz, depth - 1), false);
+
+    // Cells to the nearest edge, negative outside the map.
+    const inside = Math.min(px, width - 1 - px, pz, depth - 1 - pz) * spacing;
+    if (inside < 0) return fallback.sample(x, z);
+    const height = this.height(px, pz, false);
+    if (inside >= blend) return height;
+    const fade = inside / blend;
+    const weight = fade * fade * (3 - 2 * fade);
+    const noise = fallback.sample(x, z);
+    return noise + (height - noise) * weight;
+  }
+
+  // Bilinear height between samples; wrapping reads past the last into the first.
+  private height(px: number, pz: number, wrapping: boolean) {
+    const { grid, config } = this;
+    const { width, depth, heights } = grid;
+    const x0 = Math.min(Math.floor(px), width - 1);
+    const z0 = Math.min(Math.floor(pz), depth - 1);
+    const x1 = wrapping ? (x0 + 1) % width : Math.min(x0 + 1, width - 1);
+    const z1 = wrapping ? (z0 + 1) % depth : Math.min(z0 + 1, depth - 1);
+    const tx = px - x0;
+    const tz = pz - z0;
+    const top =
+      heights[x0 + z0 * width] * (1 - tx) + heights[x1 + z0 * width] * tx;
+    const bottom =
+      heights[x0 + z1 * width] * (1 - tx) + heights[x1 + z1 * width] * tx;
+    const value = top * (1 - tz) + bottom * tz;
+    return config.low + (config.high - config.low) * value;
+  }
+}
@@ -0,0 +1,31 @@
+import { HeightmapConfig } from '../../config/world-config';
+import { decodeGeoTiffHeightmap } from './geotiff-heightmap';
+import { HeightGrid } from './height-source';
+import { decodePngHeightmap } from './png-heightmap';
+import { decodeRawHeightmap } from './raw-heightmap';
+
+/**
+ * Fetch and decode the heightmap `config` names, or null when the terrain
+ * comes from noise alone.
+ */
+export async function loadHeightGrid(
+  config: HeightmapConfig,
+): Promise<HeightGrid | null> {
+  const { source, url, rawWidth } = config;
+  if (source === 'noise') return null;
+  if (!url) throw new Error(`A ${source} heightmap needs heightmap.url`);
+  const response = await fetch(url);
+  if (!response.ok)
+    throw new Error(
+      `Failed to load heightmap ${url}: ${String(response.status)}`,
+    );
+  const buffer = await response.arrayBuffer();
+  switch (source) {
+    case 'png':
+      return decodePngHeightmap(buffer);
+    case 'raw':
+      return decodeRawHeightmap(buffer, rawWidth);
+    default:
+      return decodeGeoTiffHeightmap(buffer);
+  }
+}
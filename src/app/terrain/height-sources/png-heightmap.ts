@@ -0,0 +1,131 @@
+import { HeightGrid } from './height-source';
+import { inflate } from './heightmap-decoding';
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Channels per pixel by PNG colour type; heights come from the first.
+const channelCounts: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+type PngHeader = {
+  width: number;
+  height: number;
+  bitDepth: number;
+  channels: number;
+};
+
+function readHeader(view: DataView, at: number): PngHeader {
+  const bitDepth = view.getUint8(at + 8);
+  const colorType = view.getUint8(at + 9);
+  if (!(colorType in channelCounts) || ![8, 16].includes(bitDepth))
+    throw new Error('PNG heightmaps must be 8 or 16-bit, without a palette');
+  if (view.getUint8(at + 12) !== 0)
+    throw new Error('Interlaced PNG heightmaps are not supported');
+  return {
+    bitDepth,
+    channels: channelCounts[colorType],
+    height: view.getUint32(at + 4),
+    width: view.getUint32(at),
+  };
+}
+
+function readChunks(bytes: Uint8Array<ArrayBuffer>) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (SIGNATURE.some((byte, index) => bytes[index] !== byte))
+    throw new Error('Heightmap is not a PNG file');
+  let header: PngHeader | null = null;
+  const data: Uint8Array<ArrayBuffer>[] = [];
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCodePoint(
+      ...bytes.subarray(offset + 4, offset + 8),
+    );
+    const body = bytes.subarray(offset + 8, offset + 8 + length);
+    switch (type) {
+      case 'IHDR':
+        header = readHeader(view, offset + 8);
+        break;
+      case 'IDAT':
+        data.push(body);
+        break;
+      default:
+        break;
+    }
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  if (!header) throw new Error('PNG heightmap has no header');
+  return { data, header };
+}
+
+function paeth(left: number, up: number, upLeft: number) {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+function predict(filter: number, left: number, up: number, upLeft: number) {
+  switch (filter) {
+    case 0:
+      return 0;
+    case 1:
+      return left;
+    case 2:
+      return up;
+    case 3:
+      return Math.floor((left + up) / 2);
+    case 4:
+      return paeth(left, up, upLeft);
+    default:
+      throw new Error(`Unknown PNG filter ${String(filter)}`);
+  }
+}
+
+// Undoes the per-row filters, leaving the bare pixel bytes.
+function unfilter(data: Uint8Array, header: PngHeader) {
+  const { width, height, bitDepth, channels } = header;
+  const pixelBytes = (channels * bitDepth) / 8;
+  const stride = width * pixelBytes;
+  if (data.length < (stride + 1) * height)
+    throw new Error('PNG heightmap is truncated');
+  const pixels = new Uint8Array(stride * height);
+  for (let row = 0; row < height; row += 1) {
+    const filter = data[row * (stride + 1)];
+    const source = row * (stride + 1) + 1;
+    const target = row * stride;
+    for (let index = 0; index < stride; index += 1) {
+      const left =
+        index >= pixelBytes ? pixels[target + index - pixelBytes] : 0;
+      const up = row > 0 ? pixels[target + index - stride] : 0;
+      const upLeft =
+        row > 0 && index >= pixelBytes
+          ? pixels[target + index - stride - pixelBytes]
+          : 0;
+      pixels[target + index] =
+        (data[source + index] + predict(filter, left, up, upLeft)) % 256;
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Decodes an 8 or 16-bit PNG into heights: black is the lowest, white the
+ * highest. Colour images use their red channel.
+ */
+export async function decodePngHeightmap(
+  buffer: ArrayBuffer,
+): Promise<HeightGrid> {
+  const { data, header } = readChunks(new Uint8Array(buffer));
+  const { width, height, bitDepth, channels } = header;
+  const pixels = unfilter(await inflate(data), header);
+  const view = new DataView(pixels.buffer);
+  const heights = new Float32Array(width * height);
+  for (let index = 0; index < heights.length; index += 1)
+    heights[index] =
+      bitDepth === 16
+        ? view.getUint16(index * channels * 2) / 65_535
+        : pixels[index * channels] / 255;
+  return { depth: height, heights, width };
+}
@@ -0,0 +1,59 @@
+import { TerrainConfig } from '../../config/world-config';
+import { NoiseGenerator, NoiseOptions } from '../noise';
+import type { NoiseRanges } from '../terrain-chunk-generator';
+import {
+  detailNoiseOptions,
+  hillNoiseOptions,
+  smoothStep,
+} from '../terrain-utilities';
+import type { HeightSource } from './height-source';
+
+/**
+ * The built-in terrain: broad hills from one noise field, with finer detail
+ * from another only where the hills rise above `flatThreshold`.
+ */
+export class ProceduralHeightSource implements HeightSource {
+  private readonly terrain: TerrainConfig;
+  private readonly noiseGenerator: NoiseGenerator;
+  private readonly noiseRanges: NoiseRanges;
+  private readonly hillOptions: NoiseOptions;
+  private readonly detailOptions: NoiseOptions;
+
+  constructor(options: {
+    terrain: TerrainConfig;
+    noiseGenerator: NoiseGenerator;
+    noiseRanges: NoiseRanges;
+  }) {
+    const { terrain, noiseGenerator, noiseRanges } = options;
+    this.terrain = terrain;
+    this.noiseGenerator = noiseGenerator;
+    this.noiseRanges = noiseRanges;
+    this.hillOptions = hillNoiseOptions(terrain);
+    this.detailOptions = detailNoiseOptions(terrain);
+  }
+
+  sample(x: number, z: number) {
+    const { terrain, noiseGenerator, noiseRanges: nr } = this;
+    const { hillOptions, detailOptions } = this;
+    const hillRange = nr.hillMax - nr.hillMin || 1;
+    const detailRange = nr.detailMax - nr.detailMin || 1;
+    const edge0 = terrain.flatThreshold - terrain.flatBlend;
+    const edge1 = terrain.flatThreshold + terrain.flatBlend;
+
+    const hRaw = noiseGenerator.sample(x, z, hillOptions);
+    const hillNorm = (hRaw - nr.hillMin) / hillRange;
+
+    const mask = smoothStep(hillNorm, edge0, edge1);
+    let detailNorm = 0;
+    if (mask > 0) {
+      const dRaw = noiseGenerator.sample(x, z, detailOptions);
+      detailNorm = (dRaw - nr.detailMin) / detailRange;
+    }
+
+    const combined =
+      hillNorm * terrain.hillAmplitude +
+      detailNorm * terrain.detailAmplitude * mask;
+    const clamped = Math.max(0, combined);
+    return clamped ** terrain.elevationExponent;
+  }
+}
@@ -0,0 +1,22 @@
+import { HeightGrid } from './height-source';
+
+/**
+ * Decodes a raw heightmap of little-endian 16-bit samples, row by row, as
+ * terrain tools export it. Without a `width` the map is taken to be square.
+ */
+export function decodeRawHeightmap(
+  buffer: ArrayBuffer,
+  width: number,
+): HeightGrid {
+  const count = Math.floor(buffer.byteLength / 2);
+  const rowLength = width || Math.round(Math.sqrt(count));
+  if (buffer.byteLength % 2 !== 0 || rowLength === 0 || count % rowLength !== 0)
+    throw new Error(
+      `Raw heightmap of ${String(buffer.byteLength)} bytes is not rows of ${String(rowLength)} 16-bit samples`,
+    );
+  const view = new DataView(buffer);
+  const heights = new Float32Array(count);
+  for (let index = 0; index < count; index += 1)
+    heights[index] = view.getUint16(index * 2, true) / 65_535;
+  return { depth: count / rowLength, heights, width: rowLength };
+}
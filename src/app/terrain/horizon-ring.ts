@@ -0,0 +1,166 @@
+import * as THREE from 'three';
+import { TerrainPalette, createTerrainMaterial } from './terrain-utilities';
+import { WorldConfig } from '../config/world-config';
+import {
+  ChunkGenerationContext,
+  createHeightSampler,
+} from './terrain-chunk-generator';
+import { createBiomeSampler } from './biomes/biome-sampler';
+
+export type HorizonRingOptions = {
+  innerRadius: number;
+  outerRadius: number;
+  rings: number;
+  segments: number;
+  // World-space terrain height at world (x, z).
+  sampleHeight: (x: number, z: number) => number;
+  palette: TerrainPalette;
+  waterLevel: number;
+  waterColor: string;
+};
+
+// Lowered slightly so full-detail chunks overlapping the ring win the depth test.
+const SINK = 4;
+
+/**
+ * Coarse polar grid of terrain from the edge of the streamed chunks out to
+ * the far plane. Rings are spaced quadratically so detail falls off with
+ * distance; everything below the water line is flattened and water-tinted.
+ */
+export class HorizonRing extends THREE.Mesh<
+  THREE.BufferGeometry,
+  THREE.MeshPhysicalMaterial
+> {
+  private readonly options: HorizonRingOptions;
+  private readonly offsets: Float32Array;
+  private pending: {
+    x: number;
+    z: number;
+    nextVertex: number;
+    positions: Float32Array | null;
+    colors: Float32Array | null;
+  } | null = null;
+
+  constructor(options: HorizonRingOptions) {
+    super(new THREE.BufferGeometry(), createTerrainMaterial());
+    this.options = options;
+    this.name = 'HorizonRing';
+    this.frustumCulled = false;
+
+    const { rings, segments, innerRadius, outerRadius } = options;
+    const vertexCount = rings * segments;
+    this.offsets = new Float32Array(vertexCount * 2);
+    for (let ring = 0; ring < rings; ring += 1) {
+      const along = ring / (rings - 1);
+      const radius = innerRadius + (outerRadius - innerRadius) * along * along;
+      for (let segment = 0; segment < segments; segment += 1) {
+        const angle = (segment / segments) * Math.PI * 2;
+        const vertex = ring * segments + segment;
+        this.offsets[vertex * 2] = Math.cos(angle) * radius;
+        this.offsets[vertex * 2 + 1] = Math.sin(angle) * radius;
+      }
+    }
+
+    const indices: number[] = [];
+    for (let ring = 0; ring + 1 < rings; ring += 1)
+      for (let segment = 0; segment < segments; segment += 1) {
+        const next = (segment + 1) % segments;
+        const inner0 = ring * segments + segment;
+        const inner1 = ring * segments + next;
+        const outer0 = inner0 + segments;
+        const outer1 = inner1 + segments;
+        indices.push(inner0, inner1, outer0, inner1, outer1, outer0);
+      }
+    this.geometry.setIndex(indices);
+    this.visible = false;
+  }
+
+  // Schedule a rebuild around world (x, z); `update` carries it out.
+  recenter(x: number, z: number) {
+    this.pending = { colors: null, nextVertex: 0, positions: null, x, z };
+  }
+
+  /**
+   * Continue a pending rebuild for at most `budget` milliseconds. The ring
+   * keeps showing the previous centre until every vertex is resampled.
+   */
+  update(budget: number) {
+    const rebuild = this.pending;
+    if (!rebuild) return;
+    const { sampleHeight, palette, segments, waterLevel, waterColor } =
+      this.options;
+    const vertexCount = this.offsets.length / 2;
+    const positions = rebuild.positions ?? new Float32Array(vertexCount * 3);
+    const colors = rebuild.colors ?? new Float32Array(vertexCount * 3);
+    rebuild.positions = positions;
+    rebuild.colors = colors;
+    const water = new THREE.Color(waterColor);
+    const color = new THREE.Color();
+    const start = performance.now();
+    for (let vertex = rebuild.nextVertex; vertex < vertexCount; vertex += 1) {
+      // Check the clock once per ring of vertices.
+      if (vertex % segments === 0 && performance.now() - start > budget) {
+        rebuild.nextVertex = vertex;
+        return;
+      }
+      const worldX = rebuild.x + this.offsets[vertex * 2];
+      const worldZ = rebuild.z + this.offsets[vertex * 2 + 1];
+      const height = sampleHeight(worldX, worldZ);
+      positions[vertex * 3] = this.offsets[vertex * 2];
+      positions[vertex * 3 + 1] = Math.max(height, waterLevel) - SINK;
+      positions[vertex * 3 + 2] = this.offsets[vertex * 2 + 1];
+      if (height < waterLevel) color.copy(water);
+      else palette(color, worldX, height, worldZ);
+      colors[vertex * 3] = color.r;
+      colors[vertex * 3 + 1] = color.g;
+      colors[vertex * 3 + 2] = color.b;
+    }
+
+    this.pending = null;
+    this.position.set(rebuild.x, 0, rebuild.z);
+    this.geometry.setAttribute(
+      'position',
+      new THREE.BufferAttribute(positions, 3),
+    );
+    this.geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    this.geometry.computeVertexNormals();
+    this.visible = true;
+  }
+
+  dispose() {
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+}
+
+// The ring the config asks for, or null when it would sit inside the chunks.
+export function createHorizonRing(
+  config: WorldConfig,
+  context: ChunkGenerationContext,
+) {
+  const { terrain, water, vegetation } = config;
+  const chunkWorldSize = terrain.chunkSize * terrain.cellSize;
+  const innerRadius = (terrain.chunkRadius + 0.5) * chunkWorldSize;
+  if (terrain.horizonRadius <= innerRadius) return null;
+  const { noiseGenerator } = context;
+  // Raw heights; eroding tiles out to the horizon would cost seconds.
+  const generateCellHeight = createHeightSampler(context);
+  const biomes = createBiomeSampler({
+    noiseGenerator,
+    terrain,
+    vegetation,
+    waterLevel: water.level,
+  });
+  return new HorizonRing({
+    innerRadius,
+    outerRadius: terrain.horizonRadius,
+    palette: (target, x, y, z) => biomes.groundColorAt(x, z, y, target),
+    rings: terrain.horizonRings,
+    sampleHeight: (x, z) =>
+      generateCellHeight(x / terrain.cellSize, z / terrain.cellSize) *
+      terrain.heightScale,
+    segments: terrain.horizonSegments,
+    waterColor: water.color,
+    waterLevel: water.level,
+  });
+}
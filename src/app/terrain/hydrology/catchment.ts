@@ -0,0 +1,107 @@
+import { floodGrid } from './priority-flood';
+import { HydrologyOptions } from './hydrology-region';
+
+// Lattice cells per catchment grid cell, on a lattice shared by all regions.
+export const CATCHMENT_STEP = 16;
+// Regions the catchment reaches past each side of the area it serves.
+const CATCHMENT_REGIONS = 4;
+
+// Inclusive rectangle of lattice cells.
+export type LatticeBox = {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+};
+
+// Water crossing the edge of a box, at the lattice cell on the edge.
+export type CatchmentCrossing = {
+  ix: number;
+  iz: number;
+  // Hydrology grid cells draining across.
+  cells: number;
+};
+
+export type Catchment = {
+  // Depth the wide flood stands over lattice cell (ix, iz), in world units.
+  depthAt: (ix: number, iz: number) => number;
+  // Where the land around brings water into the box and takes it out.
+  inflows: CatchmentCrossing[];
+  outflows: CatchmentCrossing[];
+};
+
+/**
+ * Coarse drainage of the land around `box`, reaching several regions past
+ * it, which tells a region's own flood where water crosses its edge: it only
+ * leaves where the wider land carries it on towards the sea, and rivers from
+ * outside arrive with their whole catchment. Only the sea and the far edge
+ * of this coarse grid are outlets.
+ */
+export function floodCatchment(options: {
+  box: LatticeBox;
+  // Lattice cells per cell of the grid the crossings are counted in.
+  step: number;
+  hydrology: HydrologyOptions;
+}): Catchment {
+  const { box, step, hydrology } = options;
+  const { regionSize, heightScale, seaLevel, sampleHeight } = hydrology;
+  const reach = CATCHMENT_REGIONS * regionSize;
+  const originX = Math.floor((box.minX - reach) / CATCHMENT_STEP);
+  const originZ = Math.floor((box.minZ - reach) / CATCHMENT_STEP);
+  const gridSize = Math.ceil((box.maxX + reach) / CATCHMENT_STEP) - originX + 1;
+  const toLattice = (cell: number): [number, number] => [
+    (originX + (cell % gridSize)) * CATCHMENT_STEP,
+    (originZ + Math.floor(cell / gridSize)) * CATCHMENT_STEP,
+  ];
+
+  const heights = new Float32Array(gridSize * gridSize);
+  for (let cell = 0; cell < heights.length; cell += 1)
+    heights[cell] = sampleHeight(...toLattice(cell)) * heightScale;
+  const { filled, order, receiver } = floodGrid(
+    heights,
+    gridSize,
+    seaLevel,
+    null,
+  );
+  // In cells of `step`, so it adds to a region's own accumulation.
+  const accumulation = new Float32Array(heights.length).fill(
+    (CATCHMENT_STEP / step) ** 2,
+  );
+  for (let index = order.length - 1; index >= 0; index -= 1) {
+    const cell = order[index];
+    if (receiver[cell] >= 0) accumulation[receiver[cell]] += accumulation[cell];
+  }
+
+  const inBox = ([ix, iz]: [number, number]) =>
+    ix >= box.minX && ix <= box.maxX && iz >= box.minZ && iz <= box.maxZ;
+  const clamp = ([ix, iz]: [number, number]) => ({
+    ix: Math.min(box.maxX, Math.max(box.minX, ix)),
+    iz: Math.min(box.maxZ, Math.max(box.minZ, iz)),
+  });
+  const inflows: CatchmentCrossing[] = [];
+  const outflows: CatchmentCrossing[] = [];
+  for (const [cell, next] of receiver.entries()) {
+    if (next < 0) continue;
+    const from = toLattice(cell);
+    const to = toLattice(next);
+    if (inBox(from) === inBox(to)) continue;
+    const crossings = inBox(to) ? inflows : outflows;
+    crossings.push({
+      ...clamp(inBox(to) ? from : to),
+      cells: accumulation[cell],
+    });
+  }
+
+  return {
+    depthAt: (ix, iz) => {
+      const gx = Math.round(ix / CATCHMENT_STEP) - originX;
+      const gz = Math.round(iz / CATCHMENT_STEP) - originZ;
+      const cell =
+        Math.min(gridSize - 1, Math.max(0, gx)) +
+        Math.min(gridSize - 1, Math.max(0, gz)) * gridSize;
+      return filled[cell] - heights[cell];
+    },
+    inflows,
+    outflows,
+  };
+}
@@ -0,0 +1,121 @@
+import { TerrainConfig } from '../../config/world-config';
+import { LruCache } from '../../lru-cache';
+import { makeKey } from '../terrain-utilities';
+import {
+  HYDROLOGY_STEP,
+  HydrologyOptions,
+  HydrologyRegion,
+  generateHydrologyRegion,
+} from './hydrology-region';
+
+// Bytes of regions kept per field; a region of 128 cells is about 130 KB.
+const REGION_CACHE_BUDGET = 4 * 1024 * 1024;
+// Ground this far above the water surface still counts as wet.
+const SHORE_MARGIN = 0.25;
+
+/**
+ * Rivers and lakes for the whole world, worked out region by region on
+ * demand. Every lattice cell belongs to exactly one region, so chunks carve
+ * the same channels along their shared borders whichever order they load in.
+ */
+export class HydrologyField {
+  private readonly options: HydrologyOptions;
+  private readonly regions: LruCache<HydrologyRegion>;
+
+  constructor(options: HydrologyOptions) {
+    const unit = HYDROLOGY_STEP * 2;
+    this.options = {
+      ...options,
+      regionSize: Math.max(unit, Math.floor(options.regionSize / unit) * unit),
+    };
+    this.regions = new LruCache<HydrologyRegion>({
+      budget: REGION_CACHE_BUDGET,
+      sizeOf: (region) => region.bed.byteLength + region.surface.byteLength,
+    });
+  }
+
+  get regionSize() {
+    return this.options.regionSize;
+  }
+
+  getRegion(rx: number, rz: number) {
+    const key = makeKey(rx, rz);
+    const cached = this.regions.get(key);
+    if (cached) return cached;
+    const region = generateHydrologyRegion(rx, rz, this.options);
+    this.regions.set(key, region);
+    return region;
+  }
+
+  /**
+   * Carves river channels into `heightData` (`width` x `depth` cells from
+   * `offsetX`, `offsetZ`, normalised) and writes 1 into `wetness` wherever
+   * the ground ends up under a river or lake.
+   */
+  apply(options: {
+    heightData: Float32Array;
+    wetness: Float32Array;
+    width: number;
+    depth: number;
+    offsetX: number;
+    offsetZ: number;
+  }) {
+    const { heightData, wetness, width, depth, offsetX, offsetZ } = options;
+    const { heightScale } = this.options;
+    for (let dz = 0; dz < depth; dz += 1)
+      for (let dx = 0; dx < width; dx += 1) {
+        const index = dx + dz * width;
+        const [height, wet] = this.shape(
+          offsetX + dx,
+          offsetZ + dz,
+          heightData[index] * heightScale,
+        );
+        heightData[index] = height / heightScale;
+        wetness[index] = wet ? 1 : 0;
+      }
+  }
+
+  // Normalised height of cell (ix, iz) after carving `height` (normalised).
+  carveCell(ix: number, iz: number, height: number) {
+    const { heightScale } = this.options;
+    return this.shape(ix, iz, height * heightScale)[0] / heightScale;
+  }
+
+  // Whether a river or lake covers cell (ix, iz), its ground at `height` (normalised).
+  isWet(ix: number, iz: number, height: number) {
+    return this.shape(ix, iz, height * this.options.heightScale)[1];
+  }
+
+  // Carved height in world units, and whether water covers it.
+  private shape(ix: number, iz: number, height: number) {
+    const { regionSize } = this.options;
+    const rx = Math.floor(ix / regionSize);
+    const rz = Math.floor(iz / regionSize);
+    const { bed, surface } = this.getRegion(rx, rz);
+    const cell = ix - rx * regionSize + (iz - rz * regionSize) * regionSize;
+    const carved = Math.min(height, bed[cell]);
+    return [carved, carved < surface[cell] + SHORE_MARGIN] as const;
+  }
+}
+
+// The rivers and lakes the terrain config asks for, or null for none.
+export function createHydrologyField(options: {
+  terrain: TerrainConfig;
+  seaLevel: number;
+  sampleHeight: (ix: number, iz: number) => number;
+}) {
+  const { terrain, seaLevel, sampleHeight } = options;
+  const enabled = terrain.riverThreshold > 0 || terrain.lakeMinDepth > 0;
+  if (!enabled || terrain.heightScale <= 0) return null;
+  return new HydrologyField({
+    cellSize: terrain.cellSize,
+    heightScale: terrain.heightScale,
+    lakeMinDepth: terrain.lakeMinDepth,
+    regionSize: terrain.hydrologyRegionSize,
+    riverDepth: terrain.riverDepth,
+    riverThreshold: terrain.riverThreshold,
+    riverWidth: terrain.riverWidth,
+    sampleHeight,
+    seaLevel,
+  });
+}
@@ -0,0 +1,240 @@
+import { findLakes, floodGrid, gridNeighbours } from './priority-flood';
+import { clipRiver, stampRiver, traceRivers } from './river-network';
+import { CATCHMENT_STEP, floodCatchment } from './catchment';
+
+// Terrain cells per hydrology grid cell.
+export const HYDROLOGY_STEP = 2;
+
+export type RiverPoint = {
+  // World position of the centre line.
+  x: number;
+  z: number;
+  surface: number;
+  width: number;
+};
+
+export type River = { points: RiverPoint[] };
+
+export type Lake = {
+  surface: number;
+  // World x, z centres of the grid cells the water mesh covers.
+  cells: Float32Array;
+  // World size of one of those cells.
+  cellWidth: number;
+};
+
+export type HydrologyRegion = {
+  rx: number;
+  rz: number;
+  // Lattice cell of the region's first core cell and cells per side.
+  originX: number;
+  originZ: number;
+  size: number;
+  // Rivers and lakes whose meshes belong to this region.
+  rivers: River[];
+  lakes: Lake[];
+  // Per core cell in world units. Channel floor, Infinity without a river.
+  bed: Float32Array;
+  // Water surface, -Infinity where there is none.
+  surface: Float32Array;
+};
+
+export type HydrologyOptions = {
+  // Core cells per side, a multiple of twice `HYDROLOGY_STEP`.
+  regionSize: number;
+  cellSize: number;
+  heightScale: number;
+  seaLevel: number;
+  // Grid cells draining through a cell before it carries a river; 0 disables.
+  riverThreshold: number;
+  riverDepth: number;
+  riverWidth: number;
+  // Shallower depressions stay dry; 0 disables lakes.
+  lakeMinDepth: number;
+  // Normalised height of lattice cell (ix, iz).
+  sampleHeight: (ix: number, iz: number) => number;
+};
+
+// The lake's grid cells grown by one, so the water runs under the shore.
+function coverLake(cells: number[], gridSize: number) {
+  const covered = new Set<number>();
+  for (const cell of cells) {
+    const gx = cell % gridSize;
+    const gz = Math.floor(cell / gridSize);
+    for (const [dx, dz] of [[0, 0], ...gridNeighbours]) {
+      const nx = gx + dx;
+      const nz = gz + dz;
+      if (nx >= 0 && nz >= 0 && nx < gridSize && nz < gridSize)
+        covered.add(nx + nz * gridSize);
+    }
+  }
+  return covered;
+}
+
+// Raises the water surface over the core cells a lake grid cell covers.
+function stampLake(
+  region: HydrologyRegion,
+  ix: number,
+  iz: number,
+  level: number,
+) {
+  const { originX, originZ, size, surface } = region;
+  const fromX = ix - originX - HYDROLOGY_STEP / 2;
+  const fromZ = iz - originZ - HYDROLOGY_STEP / 2;
+  for (let dz = 0; dz < HYDROLOGY_STEP; dz += 1)
+    for (let dx = 0; dx < HYDROLOGY_STEP; dx += 1) {
+      const lx = fromX + dx;
+      const lz = fromZ + dz;
+      if (lx < 0 || lz < 0 || lx >= size || lz >= size) continue;
+      surface[lx + lz * size] = Math.max(surface[lx + lz * size], level);
+    }
+}
+
+/**
+ * Rivers and lakes of one square region of the world. Drainage is worked out
+ * on a grid reaching half a region past every side, whose edge lets water
+ * out and in only where a coarser flood of the land around does, so rivers
+ * run on towards the sea and arrive with their whole catchment; only the
+ * core is kept. Heights are the raw generator heights, the same wherever
+ * this runs.
+ *
+ * Each region still floods on its own: neighbours agree on their shared
+ * border only as far as their coarse floods, which share samples but not
+ * outer edges, and their overlapping grids agree. Water crossing the grid
+ * edge within half a coarse cell of where the coarse flood crosses it may pick a
+ * slightly different path than a single world-wide flood would.
+ */
+export function generateHydrologyRegion(
+  rx: number,
+  rz: number,
+  hydrology: HydrologyOptions,
+): HydrologyRegion {
+  const {
+    regionSize,
+    cellSize,
+    heightScale,
+    seaLevel,
+    riverThreshold,
+    lakeMinDepth,
+    sampleHeight,
+  } = hydrology;
+  const margin = regionSize / 2;
+  const gridSize = (regionSize + margin * 2) / HYDROLOGY_STEP + 1;
+  const originX = rx * regionSize;
+  const originZ = rz * regionSize;
+  const gridX = originX - margin;
+  const gridZ = originZ - margin;
+  const toLattice = (cell: number): [number, number] => [
+    gridX + (cell % gridSize) * HYDROLOGY_STEP,
+    gridZ + Math.floor(cell / gridSize) * HYDROLOGY_STEP,
+  ];
+
+  const heights = new Float32Array(gridSize * gridSize);
+  for (let gz = 0; gz < gridSize; gz += 1)
+    for (let gx = 0; gx < gridSize; gx += 1)
+      heights[gx + gz * gridSize] =
+        sampleHeight(gridX + gx * HYDROLOGY_STEP, gridZ + gz * HYDROLOGY_STEP) *
+        heightScale;
+
+  const last = (gridSize - 1) * HYDROLOGY_STEP;
+  const catchment = floodCatchment({
+    box: { maxX: gridX + last, maxZ: gridZ + last, minX: gridX, minZ: gridZ },
+    hydrology,
+    step: HYDROLOGY_STEP,
+  });
+  const toCell = (ix: number, iz: number) =>
+    Math.round((ix - gridX) / HYDROLOGY_STEP) +
+    Math.round((iz - gridZ) / HYDROLOGY_STEP) * gridSize;
+  // Edge cells drain only half a coarse cell either side of an outflow.
+  const edgeLevels = new Float32Array(heights.length).fill(Infinity);
+  for (const { ix, iz } of catchment.outflows) {
+    const reach = CATCHMENT_STEP / HYDROLOGY_STEP / 2;
+    const centre = toCell(ix, iz);
+    const gx = centre % gridSize;
+    const gz = Math.floor(centre / gridSize);
+    for (let nz = gz - reach; nz <= gz + reach; nz += 1)
+      for (let nx = gx - reach; nx <= gx + reach; nx += 1) {
+        if (nx < 0 || nz < 0 || nx >= gridSize || nz >= gridSize) continue;
+        const cell = nx + nz * gridSize;
+        edgeLevels[cell] =
+          heights[cell] + catchment.depthAt(...toLattice(cell));
+      }
+  }
+  const { filled, order, receiver } = floodGrid(
+    heights,
+    gridSize,
+    seaLevel,
+    edgeLevels,
+  );
+  const accumulation = new Float32Array(heights.length).fill(1);
+  for (const { ix, iz, cells } of catchment.inflows)
+    accumulation[toCell(ix, iz)] += cells;
+  for (let index = order.length - 1; index >= 0; index -= 1) {
+    const cell = order[index];
+    if (receiver[cell] >= 0) accumulation[receiver[cell]] += accumulation[cell];
+  }
+  const { labels, lakes } =
+    lakeMinDepth > 0
+      ? findLakes({
+          filled,
+          gridSize,
+          heights,
+          minDepth: lakeMinDepth,
+          seaLevel,
+        })
+      : { labels: new Int32Array(heights.length), lakes: [] };
+  const rivers =
+    riverThreshold > 0
+      ? traceRivers({
+          accumulation,
+          gridSize,
+          heights,
+          hydrology,
+          lakeLabels: labels,
+          receiver,
+          toWorld: (cell) => {
+            const [ix, iz] = toLattice(cell);
+            return [ix * cellSize, iz * cellSize];
+          },
+        })
+      : [];
+
+  const region: HydrologyRegion = {
+    bed: new Float32Array(regionSize * regionSize).fill(Infinity),
+    lakes: [],
+    originX,
+    originZ,
+    rivers: [],
+    rx,
+    rz,
+    size: regionSize,
+    surface: new Float32Array(regionSize * regionSize).fill(-Infinity),
+  };
+  const inCore = (ix: number, iz: number) =>
+    ix >= originX &&
+    ix < originX + regionSize &&
+    iz >= originZ &&
+    iz < originZ + regionSize;
+
+  for (const river of rivers) {
+    stampRiver(river, region, hydrology);
+    region.rivers.push(
+      ...clipRiver(river, (x, z) => inCore(x / cellSize, z / cellSize)),
+    );
+  }
+  for (const lake of lakes) {
+    const covered = coverLake(lake.cells, gridSize);
+    const lattice = [...covered].map((cell) => toLattice(cell));
+    for (const [ix, iz] of lattice) stampLake(region, ix, iz, lake.surface);
+    // The region holding the outlet builds the mesh, so it is built once.
+    if (!inCore(...toLattice(lake.outlet))) continue;
+    region.lakes.push({
+      cellWidth: HYDROLOGY_STEP * cellSize,
+      cells: Float32Array.from(
+        lattice.flatMap(([ix, iz]) => [ix * cellSize, iz * cellSize]),
+      ),
+      surface: lake.surface,
+    });
+  }
+  return region;
+}
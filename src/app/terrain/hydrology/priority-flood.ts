@@ -0,0 +1,181 @@
+// Rise added per cell while flooding so filled basins still drain.
+const FLOOD_EPSILON = 0.001;
+// Pits smaller than this many grid cells stay dry however deep.
+const MIN_LAKE_CELLS = 6;
+
+// Eight neighbours, the four sharing an edge first.
+export const gridNeighbours = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+] as const;
+
+// Binary min-heap of grid cells keyed by height.
+class CellHeap {
+  private readonly cells: number[] = [];
+  private readonly keys: number[] = [];
+
+  get size() {
+    return this.cells.length;
+  }
+
+  push(cell: number, key: number) {
+    const { cells, keys } = this;
+    let index = cells.length;
+    cells.push(cell);
+    keys.push(key);
+    while (index > 0) {
+      const parent = Math.floor((index - 1) / 2);
+      if (keys[parent] <= key) break;
+      cells[index] = cells[parent];
+      keys[index] = keys[parent];
+      index = parent;
+    }
+    cells[index] = cell;
+    keys[index] = key;
+  }
+
+  pop() {
+    const { cells, keys } = this;
+    const [top] = cells;
+    const lastCell = cells.pop() ?? top;
+    const lastKey = keys.pop() ?? 0;
+    if (cells.length > 0) this.sink(lastCell, lastKey);
+    return top;
+  }
+
+  // Places `cell` at the root and moves it down to where `key` belongs.
+  private sink(cell: number, key: number) {
+    const { cells, keys } = this;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      if (left >= cells.length) break;
+      const right = left + 1;
+      const child =
+        right < cells.length && keys[right] < keys[left] ? right : left;
+      if (keys[child] >= key) break;
+      cells[index] = cells[child];
+      keys[index] = keys[child];
+      index = child;
+    }
+    cells[index] = cell;
+    keys[index] = key;
+  }
+}
+
+/**
+ * Priority flood from the sea and the grid edge inwards. Every cell gets the
+ * lowest level water could drain at (`filled`), the neighbour it drains to
+ * (`receiver`, -1 at outlets) and `order`, upstream cells last. Edge cells
+ * drain at their `edgeLevels` entry, or their own height without one; an
+ * infinite entry makes the cell an inlet that drains inwards instead.
+ */
+export function floodGrid(
+  heights: Float32Array,
+  gridSize: number,
+  seaLevel: number,
+  edgeLevels: Float32Array | null,
+) {
+  const count = gridSize * gridSize;
+  const filled = Float32Array.from(heights);
+  const receiver = new Int32Array(count).fill(-1);
+  const order = new Int32Array(count);
+  const closed = new Uint8Array(count);
+  const heap = new CellHeap();
+  const seed = (cell: number, level: number) => {
+    closed[cell] = 1;
+    filled[cell] = level;
+    heap.push(cell, level);
+  };
+  let lowestEdge = 0;
+  for (let cell = 0; cell < count; cell += 1) {
+    const gx = cell % gridSize;
+    const gz = Math.floor(cell / gridSize);
+    const edge =
+      gx === 0 || gz === 0 || gx === gridSize - 1 || gz === gridSize - 1;
+    if (heights[cell] <= seaLevel) seed(cell, heights[cell]);
+    if (!edge || closed[cell] === 1) continue;
+    if (heights[cell] < heights[lowestEdge]) lowestEdge = cell;
+    const level = edgeLevels ? edgeLevels[cell] : heights[cell];
+    if (Number.isFinite(level)) seed(cell, Math.max(heights[cell], level));
+  }
+  // Water has to leave somewhere, even if every edge cell is an inlet.
+  if (heap.size === 0) seed(lowestEdge, heights[lowestEdge]);
+  let popped = 0;
+  while (heap.size > 0) {
+    const cell = heap.pop();
+    order[popped] = cell;
+    popped += 1;
+    const gx = cell % gridSize;
+    const gz = Math.floor(cell / gridSize);
+    for (const [dx, dz] of gridNeighbours) {
+      const nx = gx + dx;
+      const nz = gz + dz;
+      if (nx < 0 || nz < 0 || nx >= gridSize || nz >= gridSize) continue;
+      const next = nx + nz * gridSize;
+      if (closed[next] === 1) continue;
+      closed[next] = 1;
+      filled[next] = Math.max(heights[next], filled[cell] + FLOOD_EPSILON);
+      receiver[next] = cell;
+      heap.push(next, filled[next]);
+    }
+  }
+  return { filled, order, receiver };
+}
+
+/**
+ * Connected groups of flooded cells deep and large enough to hold a lake.
+ * `labels` holds the lake number from 1 per cell, or 0 or -1 for none.
+ */
+export function findLakes(options: {
+  heights: Float32Array;
+  filled: Float32Array;
+  gridSize: number;
+  seaLevel: number;
+  minDepth: number;
+}) {
+  const { heights, filled, gridSize, seaLevel, minDepth } = options;
+  const labels = new Int32Array(heights.length);
+  const lakes: { cells: number[]; surface: number; outlet: number }[] = [];
+  const flooded = (cell: number) =>
+    filled[cell] - heights[cell] > FLOOD_EPSILON * 100 &&
+    filled[cell] > seaLevel;
+  for (let start = 0; start < heights.length; start += 1) {
+    if (labels[start] !== 0 || !flooded(start)) continue;
+    const cells = [start];
+    labels[start] = -1;
+    let surface = Infinity;
+    let outlet = start;
+    let depth = 0;
+    for (let next = 0; next < cells.length; next += 1) {
+      const cell = cells[next];
+      if (filled[cell] < surface) {
+        surface = filled[cell];
+        outlet = cell;
+      }
+      depth = Math.max(depth, filled[cell] - heights[cell]);
+      const gx = cell % gridSize;
+      const gz = Math.floor(cell / gridSize);
+      for (const [dx, dz] of gridNeighbours.slice(0, 4)) {
+        const nx = gx + dx;
+        const nz = gz + dz;
+        if (nx < 0 || nz < 0 || nx >= gridSize || nz >= gridSize) continue;
+        const neighbour = nx + nz * gridSize;
+        if (labels[neighbour] !== 0 || !flooded(neighbour)) continue;
+        labels[neighbour] = -1;
+        cells.push(neighbour);
+      }
+    }
+    const keep = depth >= minDepth && cells.length >= MIN_LAKE_CELLS;
+    const label = keep ? lakes.length + 1 : -1;
+    for (const cell of cells) labels[cell] = label;
+    if (keep) lakes.push({ cells, outlet, surface });
+  }
+  return { labels, lakes };
+}
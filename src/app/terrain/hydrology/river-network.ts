@@ -0,0 +1,176 @@
+import {
+  HydrologyOptions,
+  HydrologyRegion,
+  River,
+  RiverPoint,
+} from './hydrology-region';
+
+// Water surface sits this far below the raw ground it follows.
+const RIVER_INSET = 0.3;
+// Carving reaches this many half-widths from the river centre.
+const CARVE_REACH = 4;
+
+// Corner-cutting smoothing of the grid-aligned centre line, ends kept.
+function smoothRiver(points: RiverPoint[], iterations: number) {
+  let current = points;
+  for (let pass = 0; pass < iterations; pass += 1) {
+    if (current.length < 3) return current;
+    const next: RiverPoint[] = [current[0]];
+    for (let index = 0; index + 1 < current.length; index += 1) {
+      const from = current[index];
+      const to = current[index + 1];
+      for (const share of [0.25, 0.75])
+        next.push({
+          surface: from.surface + (to.surface - from.surface) * share,
+          width: from.width + (to.width - from.width) * share,
+          x: from.x + (to.x - from.x) * share,
+          z: from.z + (to.z - from.z) * share,
+        });
+    }
+    next.push(current.at(-1) ?? current[0]);
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Follows the drainage from every river source down to the sea, a lake, the
+ * grid edge or a river already traced, so each stretch is traced once.
+ */
+export function traceRivers(options: {
+  heights: Float32Array;
+  accumulation: Float32Array;
+  receiver: Int32Array;
+  lakeLabels: Int32Array;
+  gridSize: number;
+  toWorld: (cell: number) => [number, number];
+  hydrology: HydrologyOptions;
+}) {
+  const {
+    heights,
+    accumulation,
+    receiver,
+    lakeLabels,
+    gridSize,
+    toWorld,
+    hydrology,
+  } = options;
+  const { riverThreshold, riverWidth, seaLevel } = hydrology;
+  const count = gridSize * gridSize;
+  const isRiver = (cell: number) =>
+    accumulation[cell] >= riverThreshold &&
+    heights[cell] > seaLevel &&
+    lakeLabels[cell] <= 0;
+  const fed = new Uint8Array(count);
+  for (let cell = 0; cell < count; cell += 1)
+    if (isRiver(cell) && receiver[cell] >= 0) fed[receiver[cell]] = 1;
+
+  const visited = new Uint8Array(count);
+  const rivers: River[] = [];
+  for (let source = 0; source < count; source += 1) {
+    if (!isRiver(source) || fed[source] === 1) continue;
+    const points: RiverPoint[] = [];
+    let surface = Infinity;
+    let cell = source;
+    for (;;) {
+      const [x, z] = toWorld(cell);
+      surface = Math.max(
+        seaLevel,
+        Math.min(surface, heights[cell] - RIVER_INSET),
+      );
+      const strength = Math.sqrt(accumulation[cell] / riverThreshold);
+      points.push({ surface, width: riverWidth * Math.min(4, strength), x, z });
+      const done = visited[cell] === 1 || !isRiver(cell);
+      visited[cell] = 1;
+      if (done || receiver[cell] < 0) break;
+      cell = receiver[cell];
+    }
+    if (points.length > 1) rivers.push({ points: smoothRiver(points, 2) });
+  }
+  return rivers;
+}
+
+// Lowers `bed` along a river and marks the water it covers in `surface`.
+export function stampRiver(
+  river: River,
+  region: HydrologyRegion,
+  hydrology: HydrologyOptions,
+) {
+  const { cellSize, riverDepth } = hydrology;
+  const { originX, originZ, size, bed, surface } = region;
+  const { points } = river;
+  for (let index = 0; index + 1 < points.length; index += 1) {
+    const from = points[index];
+    const to = points[index + 1];
+    const reach = (Math.max(from.width, to.width) / 2) * CARVE_REACH;
+    const minX = Math.max(
+      0,
+      Math.floor((Math.min(from.x, to.x) - reach) / cellSize) - originX,
+    );
+    const maxX = Math.min(
+      size - 1,
+      Math.ceil((Math.max(from.x, to.x) + reach) / cellSize) - originX,
+    );
+    const minZ = Math.max(
+      0,
+      Math.floor((Math.min(from.z, to.z) - reach) / cellSize) - originZ,
+    );
+    const maxZ = Math.min(
+      size - 1,
+      Math.ceil((Math.max(from.z, to.z) + reach) / cellSize) - originZ,
+    );
+    const segmentX = to.x - from.x;
+    const segmentZ = to.z - from.z;
+    const lengthSquared = segmentX * segmentX + segmentZ * segmentZ || 1;
+    for (let lz = minZ; lz <= maxZ; lz += 1)
+      for (let lx = minX; lx <= maxX; lx += 1) {
+        const x = (originX + lx) * cellSize;
+        const z = (originZ + lz) * cellSize;
+        const along = Math.max(
+          0,
+          Math.min(
+            1,
+            ((x - from.x) * segmentX + (z - from.z) * segmentZ) / lengthSquared,
+          ),
+        );
+        const distance = Math.hypot(
+          x - from.x - segmentX * along,
+          z - from.z - segmentZ * along,
+        );
+        const halfWidth = (from.width + (to.width - from.width) * along) / 2;
+        if (distance > halfWidth * CARVE_REACH) continue;
+        const level = from.surface + (to.surface - from.surface) * along;
+        const cell = lx + lz * size;
+        // Parabolic channel, level with the water at the banks.
+        const floor = level - riverDepth * (1 - (distance / halfWidth) ** 2);
+        bed[cell] = Math.min(bed[cell], floor);
+        if (distance <= halfWidth)
+          surface[cell] = Math.max(surface[cell], level);
+      }
+  }
+}
+
+// Pieces of `river` inside the core, each reaching one point past it.
+export function clipRiver(
+  river: River,
+  inCore: (x: number, z: number) => boolean,
+) {
+  const pieces: River[] = [];
+  let current: RiverPoint[] = [];
+  const { points } = river;
+  for (const [index, point] of points.entries()) {
+    const inside = inCore(point.x, point.z);
+    const nextInside =
+      index + 1 < points.length &&
+      inCore(points[index + 1].x, points[index + 1].z);
+    const previousInside =
+      index > 0 && inCore(points[index - 1].x, points[index - 1].z);
+    if (inside || nextInside || previousInside) current.push(point);
+    else if (current.length > 0) {
+      if (current.length > 1) pieces.push({ points: current });
+      current = [];
+    }
+  }
+  if (current.length > 1) pieces.push({ points: current });
+  return pieces;
+}
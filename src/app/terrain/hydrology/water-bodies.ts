@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+import { HydrologyField } from './hydrology-field';
+import { Lake, River } from './hydrology-region';
+import { makeKey } from '../terrain-utilities';
+
+// Lift above the carved surface so the water never z-fights the banks.
+const SURFACE_LIFT = 0.05;
+
+// Ribbon along the centre line, `width` wide, at the river's surface height.
+function createRiverGeometry(river: River) {
+  const { points } = river;
+  const positions = new Float32Array(points.length * 2 * 3);
+  const uvs = new Float32Array(points.length * 2 * 2);
+  const indices: number[] = [];
+  let travelled = 0;
+  for (const [index, point] of points.entries()) {
+    const previous = points[Math.max(0, index - 1)];
+    const next = points[Math.min(points.length - 1, index + 1)];
+    const tangentX = next.x - previous.x;
+    const tangentZ = next.z - previous.z;
+    const length = Math.hypot(tangentX, tangentZ) || 1;
+    const sideX = (-tangentZ / length) * (point.width / 2);
+    const sideZ = (tangentX / length) * (point.width / 2);
+    if (index > 0)
+      travelled += Math.hypot(point.x - previous.x, point.z - previous.z);
+    const y = point.surface + SURFACE_LIFT;
+    positions.set(
+      [
+        point.x - sideX,
+        y,
+        point.z - sideZ,
+        point.x + sideX,
+        y,
+        point.z + sideZ,
+      ],
+      index * 6,
+    );
+    uvs.set(
+      [0, travelled / point.width, 1, travelled / point.width],
+      index * 4,
+    );
+    if (index > 0) {
+      const base = (index - 1) * 2;
+      indices.push(base, base + 2, base + 1, base + 1, base + 2, base + 3);
+    }
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+// One flat quad per covered grid cell at the lake's surface height.
+function createLakeGeometry(lake: Lake) {
+  const { cells, cellWidth, surface } = lake;
+  const quads = cells.length / 2;
+  const half = cellWidth / 2;
+  const positions = new Float32Array(quads * 4 * 3);
+  const uvs = new Float32Array(quads * 4 * 2);
+  const indices: number[] = [];
+  const y = surface + SURFACE_LIFT;
+  for (let quad = 0; quad < quads; quad += 1) {
+    const x = cells[quad * 2];
+    const z = cells[quad * 2 + 1];
+    positions.set(
+      [
+        x - half,
+        y,
+        z - half,
+        x + half,
+        y,
+        z - half,
+        x - half,
+        y,
+        z + half,
+        x + half,
+        y,
+        z + half,
+      ],
+      quad * 12,
+    );
+    uvs.set(
+      [
+        x - half,
+        z - half,
+        x + half,
+        z - half,
+        x - half,
+        z + half,
+        x + half,
+        z + half,
+      ].map((coordinate) => coordinate / cellWidth),
+      quad * 8,
+    );
+    const base = quad * 4;
+    indices.push(base, base + 2, base + 1, base + 1, base + 2, base + 3);
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * Water meshes for the rivers and lakes around the player: one mesh per
+ * river stretch and per lake, grouped by hydrology region. At most one
+ * region is worked out per update so crossing into new ground never stalls
+ * a frame for long.
+ */
+export class WaterBodies extends THREE.Group {
+  private readonly hydrology: HydrologyField;
+  private readonly material: THREE.MeshStandardMaterial;
+  private readonly cellSize: number;
+  // Regions kept in every direction around the one the player is in.
+  private readonly radius: number;
+  private readonly regions = new Map<string, THREE.Group>();
+  private wanted: [number, number][] = [];
+
+  constructor(options: {
+    hydrology: HydrologyField;
+    cellSize: number;
+    radius: number;
+    color: string;
+  }) {
+    super();
+    this.name = 'WaterBodies';
+    this.hydrology = options.hydrology;
+    this.cellSize = options.cellSize;
+    this.radius = options.radius;
+    this.material = new THREE.MeshStandardMaterial({
+      color: options.color,
+      metalness: 0.1,
+      opacity: 0.85,
+      roughness: 0.08,
+      transparent: true,
+    });
+  }
+
+  recenter(x: number, z: number) {
+    const regionWorldSize = this.hydrology.regionSize * this.cellSize;
+    const centerX = Math.floor(x / regionWorldSize);
+    const centerZ = Math.floor(z / regionWorldSize);
+    const wanted: [number, number][] = [];
+    for (let rz = centerZ - this.radius; rz <= centerZ + this.radius; rz += 1)
+      for (let rx = centerX - this.radius; rx <= centerX + this.radius; rx += 1)
+        wanted.push([rx, rz]);
+    // Nearest first.
+    wanted.sort(
+      ([ax, az], [bx, bz]) =>
+        Math.hypot(ax - centerX, az - centerZ) -
+        Math.hypot(bx - centerX, bz - centerZ),
+    );
+    const keep = new Set(wanted.map(([rx, rz]) => makeKey(rx, rz)));
+    for (const [key, group] of this.regions) {
+      if (keep.has(key)) continue;
+      this.disposeRegion(group);
+      this.regions.delete(key);
+    }
+    this.wanted = wanted.filter(
+      ([rx, rz]) => !this.regions.has(makeKey(rx, rz)),
+    );
+  }
+
+  update() {
+    const next = this.wanted.shift();
+    if (!next) return;
+    const [rx, rz] = next;
+    const region = this.hydrology.getRegion(rx, rz);
+    const group = new THREE.Group();
+    group.name = `Water ${makeKey(rx, rz)}`;
+    for (const river of region.rivers)
+      group.add(new THREE.Mesh(createRiverGeometry(river), this.material));
+    for (const lake of region.lakes)
+      group.add(new THREE.Mesh(createLakeGeometry(lake), this.material));
+    this.regions.set(makeKey(rx, rz), group);
+    this.add(group);
+  }
+
+  dispose() {
+    for (const group of this.regions.values()) this.disposeRegion(group);
+    this.regions.clear();
+    this.wanted = [];
+    this.material.dispose();
+  }
+
+  private disposeRegion(group: THREE.Group) {
+    for (const child of group.children)
+      if (child instanceof THREE.Mesh) child.geometry.dispose();
+    this.remove(group);
+  }
+}
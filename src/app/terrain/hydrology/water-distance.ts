@@ -0,0 +1,51 @@
+import { ChunkGenerationContext } from '../terrain-chunk-generator';
+import { createSurfaceHeightSampler } from '../terrain-shaping';
+
+// Cells past a chunk's edge searched for water.
+export const WATER_SEARCH_RADIUS = 6;
+
+/**
+ * World units from each height sample of a chunk to the nearest cell under
+ * the sea, a river or a lake, searching `radius` cells past the chunk. With
+ * no water that close a sample gets `radius` cells' worth.
+ */
+export function measureWaterDistance(
+  context: ChunkGenerationContext,
+  grid: {
+    heightData: Float32Array;
+    wetness: Float32Array;
+    width: number;
+    depth: number;
+    offsetX: number;
+    offsetZ: number;
+    radius: number;
+  },
+) {
+  const { heightData, wetness, width, depth, offsetX, offsetZ, radius } = grid;
+  const { terrain, hydrology, waterLevel } = context;
+  const { cellSize, heightScale } = terrain;
+  const surfaceHeight = createSurfaceHeightSampler(context);
+  const isWater = (dx: number, dz: number) => {
+    const inside = dx >= 0 && dz >= 0 && dx < width && dz < depth;
+    if (inside && wetness[dx + dz * width] > 0) return true;
+    const ix = offsetX + dx;
+    const iz = offsetZ + dz;
+    const height = inside ? heightData[dx + dz * width] : surfaceHeight(ix, iz);
+    if (height * heightScale < waterLevel) return true;
+    return !inside && (hydrology?.isWet(ix, iz, height) ?? false);
+  };
+  const water: [number, number][] = [];
+  for (let dz = -radius; dz < depth + radius; dz += 1)
+    for (let dx = -radius; dx < width + radius; dx += 1)
+      if (isWater(dx, dz)) water.push([dx, dz]);
+
+  const distances = new Float32Array(width * depth);
+  for (let dz = 0; dz < depth; dz += 1)
+    for (let dx = 0; dx < width; dx += 1) {
+      let nearest = radius;
+      for (const [wx, wz] of water)
+        nearest = Math.min(nearest, Math.hypot(wx - dx, wz - dz));
+      distances[dx + dz * width] = nearest * cellSize;
+    }
+  return distances;
+}
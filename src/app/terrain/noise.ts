@@ -1,4 +1,18 @@
-import { ImprovedNoise } from 'three/addons/math/ImprovedNoise.js';
+import { createRandom, hashSeed } from '../random';
+
+export type NoiseBasis = 'perlin' | 'simplex' | 'worley';
+export type NoiseFractal = 'fbm' | 'ridged' | 'billow';
+
+export const noiseBases: readonly NoiseBasis[] = [
+  'perlin',
+  'simplex',
+  'worley',
+];
+export const noiseFractals: readonly NoiseFractal[] = [
+  'fbm',
+  'ridged',
+  'billow',
+];
 
 export interface MultiOctaveOptions {
   octaves: number;
@@ -8,22 +22,259 @@ export interface MultiOctaveOptions {
   offsetZ: number;
 }
 
+export interface NoiseOptions extends MultiOctaveOptions {
+  basis: NoiseBasis;
+  fractal: NoiseFractal;
+  // Domain warp displacement in input units; 0 disables warping.
+  warpStrength: number;
+  warpScale: number;
+}
+
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+// Gradient set shared by Perlin and simplex (cube edge midpoints).
+const gradients = [
+  [1, 1, 0],
+  [-1, 1, 0],
+  [1, -1, 0],
+  [-1, -1, 0],
+  [1, 0, 1],
+  [-1, 0, 1],
+  [1, 0, -1],
+  [-1, 0, -1],
+  [0, 1, 1],
+  [0, -1, 1],
+  [0, 1, -1],
+  [0, -1, -1],
+] as const;
+
+function fade(value: number) {
+  return value * value * value * (value * (value * 6 - 15) + 10);
+}
+
+function lerp(amount: number, from: number, to: number) {
+  return from + amount * (to - from);
+}
+
+function wrap(value: number) {
+  return ((value % 256) + 256) % 256;
+}
+
+// Simplex traversal order (second and third corner) by offset-axis ranking.
+function simplexOrder(x0: number, y0: number, z0: number) {
+  if (x0 >= y0) {
+    if (y0 >= z0) return [1, 0, 0, 1, 1, 0] as const;
+    if (x0 >= z0) return [1, 0, 0, 1, 0, 1] as const;
+    return [0, 0, 1, 1, 0, 1] as const;
+  }
+  if (y0 < z0) return [0, 0, 1, 0, 1, 1] as const;
+  if (x0 < z0) return [0, 1, 0, 0, 1, 1] as const;
+  return [0, 1, 0, 1, 1, 0] as const;
+}
+
+function dotGradient(hash: number, x: number, y: number, z: number) {
+  const gradient = gradients[hash % 12];
+  return gradient[0] * x + gradient[1] * y + gradient[2] * z;
+}
+
 export class NoiseGenerator {
-  private perlin: ImprovedNoise;
+  private readonly permutation: Uint8Array;
 
-  constructor() {
-    this.perlin = new ImprovedNoise();
+  constructor(seed: number) {
+    // Seeded Fisher-Yates shuffle, duplicated to avoid index wrapping.
+    const random = createRandom(hashSeed(seed, 24_301));
+    const table = new Uint8Array(256);
+    for (let index = 0; index < 256; index += 1) table[index] = index;
+    for (let index = 255; index > 0; index -= 1) {
+      const swap = Math.floor(random() * (index + 1));
+      const value = table[index];
+      table[index] = table[swap];
+      table[swap] = value;
+    }
+    this.permutation = new Uint8Array(512);
+    for (let index = 0; index < 512; index += 1)
+      this.permutation[index] = table[index % 256];
   }
 
-  sampleOctaves(x: number, y: number, options: MultiOctaveOptions) {
+  // Expects lattice coordinates already wrapped into [0, 256].
+  private hash(ix: number, iy: number, iz: number) {
+    const table = this.permutation;
+    return table[table[table[ix] + iy] + iz];
+  }
+
+  perlin(x: number, y: number, z: number) {
+    const floorX = Math.floor(x);
+    const floorY = Math.floor(y);
+    const floorZ = Math.floor(z);
+    const fx = x - floorX;
+    const fy = y - floorY;
+    const fz = z - floorZ;
+    const ix = wrap(floorX);
+    const iy = wrap(floorY);
+    const iz = wrap(floorZ);
+    const fadeX = fade(fx);
+    const fadeY = fade(fy);
+    const fadeZ = fade(fz);
+
+    const corner = (dx: number, dy: number, dz: number) =>
+      dotGradient(
+        this.hash(ix + dx, iy + dy, iz + dz),
+        fx - dx,
+        fy - dy,
+        fz - dz,
+      );
+
+    return lerp(
+      fadeZ,
+      lerp(
+        fadeY,
+        lerp(fadeX, corner(0, 0, 0), corner(1, 0, 0)),
+        lerp(fadeX, corner(0, 1, 0), corner(1, 1, 0)),
+      ),
+      lerp(
+        fadeY,
+        lerp(fadeX, corner(0, 0, 1), corner(1, 0, 1)),
+        lerp(fadeX, corner(0, 1, 1), corner(1, 1, 1)),
+      ),
+    );
+  }
+
+  simplex(x: number, y: number, z: number) {
+    const skew = (x + y + z) * F3;
+    const cellX = Math.floor(x + skew);
+    const cellY = Math.floor(y + skew);
+    const cellZ = Math.floor(z + skew);
+    const unskew = (cellX + cellY + cellZ) * G3;
+    const x0 = x - (cellX - unskew);
+    const y0 = y - (cellY - unskew);
+    const z0 = z - (cellZ - unskew);
+
+    const [ax, ay, az, bx, by, bz] = simplexOrder(x0, y0, z0);
+    const corners = [
+      [0, 0, 0, x0, y0, z0],
+      [ax, ay, az, x0 - ax + G3, y0 - ay + G3, z0 - az + G3],
+      [bx, by, bz, x0 - bx + 2 * G3, y0 - by + 2 * G3, z0 - bz + 2 * G3],
+      [1, 1, 1, x0 - 1 + 3 * G3, y0 - 1 + 3 * G3, z0 - 1 + 3 * G3],
+    ];
+    const wrappedX = wrap(cellX);
+    const wrappedY = wrap(cellY);
+    const wrappedZ = wrap(cellZ);
+    let total = 0;
+    for (const [ox, oy, oz, dx, dy, dz] of corners) {
+      const falloff = 0.6 - dx * dx - dy * dy - dz * dz;
+      if (falloff <= 0) continue;
+      const hash = this.hash(wrappedX + ox, wrappedY + oy, wrappedZ + oz);
+      const falloffSq = falloff * falloff;
+      total += falloffSq * falloffSq * dotGradient(hash, dx, dy, dz);
+    }
+    // Scale the sum into roughly [-1, 1].
+    return 32 * total;
+  }
+
+  worley(x: number, y: number, z: number) {
+    const cellX = Math.floor(x);
+    const cellY = Math.floor(y);
+    const cellZ = Math.floor(z);
+    let nearest = Infinity;
+    for (let dz = -1; dz <= 1; dz += 1)
+      for (let dy = -1; dy <= 1; dy += 1)
+        for (let dx = -1; dx <= 1; dx += 1) {
+          const cx = cellX + dx;
+          const cy = cellY + dy;
+          const cz = cellZ + dz;
+          const hash = this.hash(wrap(cx), wrap(cy), wrap(cz));
+          const px = cx + this.permutation[hash] / 255 - x;
+          const py = cy + this.permutation[hash + 1] / 255 - y;
+          const pz = cz + this.permutation[hash + 2] / 255 - z;
+          const distanceSq = px * px + py * py + pz * pz;
+          if (distanceSq < nearest) nearest = distanceSq;
+        }
+    // F1 distance mapped so cell centres are high and borders low.
+    return 1 - 2 * Math.min(1, Math.sqrt(nearest));
+  }
+
+  private basis(basis: NoiseBasis, x: number, y: number, z: number) {
+    switch (basis) {
+      case 'simplex':
+        return this.simplex(x, y, z);
+      case 'worley':
+        return this.worley(x, y, z);
+      default:
+        return this.perlin(x, y, z);
+    }
+  }
+
+  private accumulate(
+    options: NoiseOptions,
+    x: number,
+    y: number,
+    z: number,
+    scaleZ: boolean,
+  ) {
     let amp = 1;
     let freq = options.scale;
     let value = 0;
     for (let index = 0; index < options.octaves; index += 1) {
-      value += this.perlin.noise(x * freq, y * freq, options.offsetZ) * amp;
+      const sampleZ = scaleZ ? z * freq + options.offsetZ : options.offsetZ;
+      const raw = this.basis(options.basis, x * freq, y * freq, sampleZ);
+      switch (options.fractal) {
+        case 'ridged': {
+          const ridge = 1 - Math.abs(raw);
+          value += (ridge * ridge * 2 - 1) * amp;
+          break;
+        }
+        case 'billow':
+          value += (Math.abs(raw) * 2 - 1) * amp;
+          break;
+        default:
+          value += raw * amp;
+          break;
+      }
       amp *= options.persistence;
       freq *= options.lacunarity;
     }
     return value;
   }
+
+  private warp(x: number, y: number, options: NoiseOptions) {
+    if (options.warpStrength === 0) return [x, y] as const;
+    const warpX = this.perlin(
+      x * options.warpScale,
+      y * options.warpScale,
+      options.offsetZ + 101,
+    );
+    const warpY = this.perlin(
+      x * options.warpScale,
+      y * options.warpScale,
+      options.offsetZ + 211,
+    );
+    return [
+      x + warpX * options.warpStrength,
+      y + warpY * options.warpStrength,
+    ] as const;
+  }
+
+  /** Plain Perlin fBm on a constant Z slice. */
+  sampleOctaves(x: number, y: number, options: MultiOctaveOptions) {
+    return this.sample(x, y, {
+      ...options,
+      basis: 'perlin',
+      fractal: 'fbm',
+      warpScale: 0,
+      warpStrength: 0,
+    });
+  }
+
+  /** Fractal noise on the plane at `offsetZ`, as used for heightfields. */
+  sample(x: number, y: number, options: NoiseOptions) {
+    const [wx, wy] = this.warp(x, y, options);
+    return this.accumulate(options, wx, wy, 0, false);
+  }
+
+  /** Fractal noise through a volume; `offsetZ` separates layers. */
+  sampleVolume(x: number, y: number, z: number, options: NoiseOptions) {
+    const [wx, wy] = this.warp(x, y, options);
+    return this.accumulate(options, wx, wy, z, true);
+  }
 }
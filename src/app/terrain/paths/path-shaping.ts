@@ -0,0 +1,69 @@
+import { TerrainPath, nearestOnPath, pathSurfaces } from './terrain-path';
+
+/**
+ * Share of the path's height at `distance`: all of it across the strip,
+ * easing out to none at the end of the falloff.
+ */
+function flattenWeight(path: TerrainPath, distance: number) {
+  const edge = path.width / 2;
+  if (distance <= edge) return 1;
+  if (path.falloff <= 0) return 0;
+  const fade = Math.max(0, 1 - (distance - edge) / path.falloff);
+  return fade * fade * (3 - 2 * fade);
+}
+
+/**
+ * Normalised height at world (x, z) once `paths` are laid over `height`,
+ * later paths over earlier ones where they cross.
+ */
+export function flattenUnderPaths(options: {
+  paths: readonly TerrainPath[];
+  x: number;
+  z: number;
+  height: number;
+  heightScale: number;
+}) {
+  const { paths, x, z, height, heightScale } = options;
+  return paths.reduce((shaped, path) => {
+    const nearest = nearestOnPath(path, x, z);
+    const weight = flattenWeight(path, nearest.distance);
+    return shaped + (nearest.height / heightScale - shaped) * weight;
+  }, height);
+}
+
+/**
+ * Flattens chunk height data under `paths` in place. Returns, per entry of
+ * `pathSurfaces`, a map of how far inside a strip of that surface each
+ * sample lies: 0.5 on its edge, rising to 1 one cell in and falling to 0 one
+ * cell out, so the painted edge survives interpolation between vertices.
+ */
+export function applyPaths(options: {
+  paths: readonly TerrainPath[];
+  heightData: Float32Array;
+  width: number;
+  depth: number;
+  offsetX: number;
+  offsetZ: number;
+  cellSize: number;
+  heightScale: number;
+}) {
+  const { paths, heightData, width, depth, offsetX, offsetZ } = options;
+  const { cellSize, heightScale } = options;
+  const masks = pathSurfaces.map(() => new Float32Array(width * depth));
+  for (let dz = 0; dz < depth; dz += 1)
+    for (let dx = 0; dx < width; dx += 1) {
+      const index = dx + dz * width;
+      const x = (offsetX + dx) * cellSize;
+      const z = (offsetZ + dz) * cellSize;
+      for (const path of paths) {
+        const { distance, height } = nearestOnPath(path, x, z);
+        const weight = flattenWeight(path, distance);
+        heightData[index] +=
+          (height / heightScale - heightData[index]) * weight;
+        const mask = masks[pathSurfaces.indexOf(path.surface)];
+        const inside = 0.5 + (path.width / 2 - distance) / (2 * cellSize);
+        mask[index] = Math.max(mask[index], Math.min(1, inside));
+      }
+    }
+  return masks;
+}
@@ -0,0 +1,40 @@
+import * as THREE from 'three';
+import { PathSurface, TerrainPath } from './terrain-path';
+
+/**
+ * Lays a centripetal Catmull-Rom spline through `controlPoints` onto the
+ * ground: sampled every `spacing` world units, with heights read from
+ * `groundHeight` and averaged over `smoothing` samples either side so the
+ * path evens out bumps rather than following them.
+ */
+export function traceTerrainPath(options: {
+  controlPoints: readonly THREE.Vector3[];
+  surface: PathSurface;
+  width: number;
+  falloff: number;
+  spacing: number;
+  smoothing: number;
+  groundHeight: (x: number, z: number) => number;
+}): TerrainPath {
+  const { controlPoints, surface, width, falloff } = options;
+  const { spacing, smoothing, groundHeight } = options;
+  if (controlPoints.length < 2)
+    throw new RangeError('A path needs at least two control points');
+  const flat = controlPoints.map(({ x, z }) => new THREE.Vector3(x, 0, z));
+  const curve = new THREE.CatmullRomCurve3(flat, false, 'centripetal');
+  const divisions = Math.max(1, Math.ceil(curve.getLength() / spacing));
+  const samples = curve.getSpacedPoints(divisions);
+  const ground = samples.map(({ x, z }) => groundHeight(x, z));
+  return {
+    falloff,
+    points: samples.map(({ x, z }, index) => {
+      const from = Math.max(0, index - smoothing);
+      const to = Math.min(ground.length - 1, index + smoothing);
+      let sum = 0;
+      for (let near = from; near <= to; near += 1) sum += ground[near];
+      return [x, sum / (to - from + 1), z];
+    }),
+    surface,
+    width,
+  };
+}
@@ -0,0 +1,118 @@
+export const pathSurfaces = ['dirt', 'gravel'] as const;
+
+export type PathSurface = (typeof pathSurfaces)[number];
+
+/**
+ * A laid path, as saved and as posted to the chunk workers: its spline
+ * sampled every few world units, with the smoothed height the ground is
+ * flattened to at each point.
+ */
+export type TerrainPath = {
+  surface: PathSurface;
+  // Full width of the flat, painted strip, in world units.
+  width: number;
+  // World units beyond the strip over which the ground blends back.
+  falloff: number;
+  // World x, height and z along the centre line.
+  points: [number, number, number][];
+};
+
+export type PathBounds = {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+};
+
+// How far from its centre line a path changes the ground.
+export function pathReach(path: TerrainPath) {
+  return path.width / 2 + path.falloff;
+}
+
+// The area a path changes the ground over.
+export function pathBounds(path: TerrainPath): PathBounds {
+  const reach = pathReach(path);
+  const bounds = {
+    maxX: -Infinity,
+    maxZ: -Infinity,
+    minX: Infinity,
+    minZ: Infinity,
+  };
+  for (const [x, , z] of path.points) {
+    bounds.minX = Math.min(bounds.minX, x - reach);
+    bounds.minZ = Math.min(bounds.minZ, z - reach);
+    bounds.maxX = Math.max(bounds.maxX, x + reach);
+    bounds.maxZ = Math.max(bounds.maxZ, z + reach);
+  }
+  return bounds;
+}
+
+/**
+ * The point of `path`'s centre line nearest (x, z): how far away it is, and
+ * the path's height there.
+ */
+export function nearestOnPath(path: TerrainPath, x: number, z: number) {
+  const { points } = path;
+  let distance = Infinity;
+  let height = 0;
+  for (let index = 0; index < points.length; index += 1) {
+    const [ax, ay, az] = points[index];
+    const [bx, by, bz] = points[Math.min(index + 1, points.length - 1)];
+    const dx = bx - ax;
+    const dz = bz - az;
+    const length = dx * dx + dz * dz;
+    const along =
+      length > 0
+        ? Math.max(0, Math.min(1, ((x - ax) * dx + (z - az) * dz) / length))
+        : 0;
+    const gap = Math.hypot(x - ax - dx * along, z - az - dz * along);
+    if (gap < distance) {
+      distance = gap;
+      height = ay + (by - ay) * along;
+    }
+  }
+  return { distance, height };
+}
+
+// Whether (x, z) lies on the strip of any of `paths`.
+export function isOnPaths(paths: readonly TerrainPath[], x: number, z: number) {
+  return paths.some(
+    (path) => nearestOnPath(path, x, z).distance < path.width / 2,
+  );
+}
+
+/**
+ * The paths that reach into `bounds`, each cut down to the run of points
+ * from its first segment that does to its last. A path that leaves the
+ * bounds and comes back stays one entry, so every cell blends it once,
+ * towards its nearest point, as the chunks around do. The segments left in
+ * between are too far away to win within the path's reach, and the ones cut
+ * off are further still, so nearest points inside the bounds stay the same.
+ */
+export function clipPaths(
+  paths: readonly TerrainPath[],
+  bounds: PathBounds,
+): TerrainPath[] {
+  const clipped: TerrainPath[] = [];
+  for (const path of paths) {
+    const reach = pathReach(path);
+    const { points } = path;
+    let first = -1;
+    let last = -1;
+    for (let index = 0; index < points.length; index += 1) {
+      const [ax, , az] = points[index];
+      const [bx, , bz] = points[Math.min(index + 1, points.length - 1)];
+      const inside =
+        Math.min(ax, bx) - reach <= bounds.maxX &&
+        Math.max(ax, bx) + reach >= bounds.minX &&
+        Math.min(az, bz) - reach <= bounds.maxZ &&
+        Math.max(az, bz) + reach >= bounds.minZ;
+      if (!inside) continue;
+      if (first < 0) first = index;
+      last = index;
+    }
+    if (first >= 0)
+      clipped.push({ ...path, points: points.slice(first, last + 2) });
+  }
+  return clipped;
+}
@@ -0,0 +1,99 @@
+import { TerrainPath, clipPaths, pathBounds } from './terrain-path';
+import { flattenUnderPaths } from './path-shaping';
+
+/**
+ * The paths laid over the terrain, in the order they were laid. Chunks are
+ * generated with the paths that reach them, so paths come back with every
+ * chunk that streams in.
+ */
+export class TerrainPaths {
+  private readonly cellSize: number;
+  private readonly chunkSize: number;
+  private readonly heightScale: number;
+  private paths: TerrainPath[] = [];
+
+  constructor(options: {
+    cellSize: number;
+    chunkSize: number;
+    heightScale: number;
+  }) {
+    const { cellSize, chunkSize, heightScale } = options;
+    this.cellSize = cellSize;
+    this.chunkSize = chunkSize;
+    this.heightScale = heightScale;
+  }
+
+  get count() {
+    return this.paths.length;
+  }
+
+  // Lays `path` on top of the others; returns the chunks it changes.
+  add(path: TerrainPath) {
+    this.paths.push(path);
+    return this.chunksUnder(path);
+  }
+
+  // Takes up the newest path; returns the chunks it changed.
+  removeLast() {
+    const path = this.paths.pop();
+    return path ? this.chunksUnder(path) : [];
+  }
+
+  // A copy of every path, for saving.
+  snapshot(): TerrainPath[] {
+    return this.paths.map((path) => ({
+      ...path,
+      points: path.points.map(([x, y, z]): [number, number, number] => [
+        x,
+        y,
+        z,
+      ]),
+    }));
+  }
+
+  // Replaces all paths with saved ones.
+  restore(saved: readonly TerrainPath[]) {
+    this.paths = saved.map((path) => ({ ...path, points: [...path.points] }));
+  }
+
+  // The parts of the paths reaching chunk (cx, cz)'s height data.
+  near(cx: number, cz: number) {
+    const { cellSize, chunkSize, paths } = this;
+    if (paths.length === 0) return [];
+    const size = chunkSize * cellSize;
+    return clipPaths(paths, {
+      maxX: (cx + 1) * size,
+      maxZ: (cz + 1) * size,
+      minX: cx * size,
+      minZ: cz * size,
+    });
+  }
+
+  // Normalised height of cell (ix, iz) once the paths are laid over `height`.
+  shapeCell(ix: number, iz: number, height: number) {
+    const { cellSize, heightScale, paths } = this;
+    if (paths.length === 0) return height;
+    return flattenUnderPaths({
+      height,
+      heightScale,
+      paths,
+      x: ix * cellSize,
+      z: iz * cellSize,
+    });
+  }
+
+  // Chunks whose height data or scattered objects `path` reaches.
+  private chunksUnder(path: TerrainPath) {
+    const { cellSize, chunkSize } = this;
+    const bounds = pathBounds(path);
+    // A chunk's height data ends on the first cell of the next one.
+    const fromX = Math.ceil(bounds.minX / cellSize / chunkSize) - 1;
+    const fromZ = Math.ceil(bounds.minZ / cellSize / chunkSize) - 1;
+    const toX = Math.floor(bounds.maxX / cellSize / chunkSize);
+    const toZ = Math.floor(bounds.maxZ / cellSize / chunkSize);
+    const chunks: [number, number][] = [];
+    for (let cz = fromZ; cz <= toZ; cz += 1)
+      for (let cx = fromX; cx <= toX; cx += 1) chunks.push([cx, cz]);
+    return chunks;
+  }
+}
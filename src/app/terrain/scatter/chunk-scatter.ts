@@ -0,0 +1,271 @@
+import { NoiseGenerator } from '../noise';
+import { RandomLayer, RandomLayerId, RandomSource } from '../../random';
+import { BiomeMap } from '../biomes/biome-map';
+import { BiomeTraits, createBiomeTraits } from '../biomes/biome-sampler';
+import { biomeCount, biomeDefinitions } from '../biomes/biome-definitions';
+import { smoothStep } from '../terrain-utilities';
+import {
+  ScatterBounds,
+  ScatterCandidate,
+  ScatterPattern,
+} from './scatter-pattern';
+import { ScatterPoints } from './scatter-points';
+import {
+  ScatterAsset,
+  ScatterDensityNoise,
+  ScatterLayer,
+  ScatterRule,
+} from './scatter-rules';
+
+// A spot a rule let through, handed to its layer to fill.
+export type ScatterSite = {
+  x: number;
+  y: number;
+  z: number;
+  // Steepness of the ground, in radians.
+  slope: number;
+  // Blended biome traits here; reused for the next site.
+  traits: BiomeTraits;
+  // The candidate's own stream, past the draws the rule made.
+  random: RandomSource;
+};
+
+// Fill a site with a rule's asset; false leaves it empty, exclusions included.
+export type ScatterPlacers = {
+  [Kind in ScatterAsset['kind']]: (
+    site: ScatterSite,
+    asset: Extract<ScatterAsset, { kind: Kind }>,
+  ) => boolean;
+};
+
+// What the rules read of the ground, at points in world units.
+export type ScatterGround = {
+  biomes: Pick<BiomeMap, 'traitsAt' | 'weightsAt'>;
+  sampleHeight: (x: number, z: number) => number;
+  // Erosion run-off in 0..1.
+  sampleFlow: (x: number, z: number) => number;
+  // Above 0 near rivers and lakes.
+  sampleWetness: (x: number, z: number) => number;
+  // True on a path strip.
+  isOnPath: (x: number, z: number) => boolean;
+};
+
+const scatterRandomLayers: Record<ScatterLayer, RandomLayerId> = {
+  flowers: RandomLayer.flowers,
+  grass: RandomLayer.grass,
+  rocks: RandomLayer.rocks,
+  trees: RandomLayer.trees,
+};
+
+function noiseDensity(
+  noise: ScatterDensityNoise | null,
+  generator: NoiseGenerator,
+  options: { x: number; z: number; cellSize: number; seed: number },
+) {
+  if (!noise) return 1;
+  const { x, z, cellSize, seed } = options;
+  const raw = generator.sample(x / cellSize, z / cellSize, {
+    ...noise,
+    offsetZ: seed + noise.offsetZ,
+  });
+  let amplitude = 1;
+  let amplitudeSum = 0;
+  for (let octave = 0; octave < noise.octaves; octave += 1) {
+    amplitudeSum += amplitude;
+    amplitude *= noise.persistence;
+  }
+  const normalised = (raw / (amplitudeSum || 1) + 1) * 0.5;
+  const [low, high] = noise.ramp;
+  return noise.floor + (1 - noise.floor) * smoothStep(normalised, low, high);
+}
+
+function place(
+  placers: ScatterPlacers,
+  asset: ScatterAsset,
+  site: ScatterSite,
+) {
+  switch (asset.kind) {
+    case 'biomeTree':
+      return placers.biomeTree(site, asset);
+    case 'biomeFlower':
+      return placers.biomeFlower(site, asset);
+    case 'model':
+      return placers.model(site, asset);
+    default:
+      return placers.grassBlade(site, asset);
+  }
+}
+
+// Share of the biomes in `mask` at (x, z); all of it without a mask.
+function biomeShare(
+  mask: ScatterRule['biomes'],
+  on: ScatterGround,
+  position: { x: number; z: number; weights: Float32Array },
+) {
+  if (!mask) return 1;
+  const { x, z } = position;
+  const weights = on.biomes.weightsAt(x, z, position.weights);
+  let share = 0;
+  for (const [index, { id }] of biomeDefinitions.entries())
+    if (mask.includes(id)) share += weights[index];
+  return share;
+}
+
+// The checks of `rule`: the site it lets through for a candidate, or null.
+function createSiteFilter(options: {
+  rule: ScatterRule;
+  placed: ReadonlyMap<ScatterLayer, ScatterPoints>;
+  slopeAt: (on: ScatterGround, x: number, z: number) => number;
+  // Filled in for each site; reused for the next.
+  traits: BiomeTraits;
+  noiseGenerator: NoiseGenerator;
+  cellSize: number;
+  seed: number;
+  waterLevel: number;
+}) {
+  const { rule, placed, slopeAt, traits, noiseGenerator } = options;
+  const { cellSize, seed, waterLevel } = options;
+  const { biomes: mask, densityNoise, densityTrait, flowAvoidance } = rule;
+  const { exclusions, heightRange, slopeRange } = rule;
+  const [minHeight, maxHeight] = heightRange;
+  const [minSlope, maxSlope] = slopeRange;
+  const weights = new Float32Array(biomeCount);
+  return (on: ScatterGround, candidate: ScatterCandidate) => {
+    const { x, z, random } = candidate;
+    const keep = random();
+    if (on.sampleWetness(x, z) > 0 || on.isOnPath(x, z)) return null;
+    const y = on.sampleHeight(x, z);
+    const altitude = y - waterLevel;
+    if (altitude < minHeight || altitude > maxHeight) return null;
+    on.biomes.traitsAt(x, z, traits);
+    const chance =
+      noiseDensity(densityNoise, noiseGenerator, { cellSize, seed, x, z }) *
+      biomeShare(mask, on, { weights, x, z }) *
+      traits[densityTrait] *
+      (1 - flowAvoidance * on.sampleFlow(x, z));
+    if (keep >= chance) return null;
+    const slope = slopeAt(on, x, z);
+    if (slope < minSlope || slope > maxSlope) return null;
+    for (const exclusion of exclusions)
+      if (placed.get(exclusion.layer)?.has(x, z, exclusion.radius)) return null;
+    const site: ScatterSite = { random, slope, traits, x, y, z };
+    return site;
+  };
+}
+
+/**
+ * Applies `rules` in order over the chunk at (`offsetX`, `offsetZ`) and hands
+ * each site they let through to the placer for the rule's asset. Exclusions see what
+ * earlier layers placed in this chunk and, past its edges, the candidates
+ * the same rule lets through on `surroundings`, so bare rings line up across
+ * borders. Those skip the placers' own choices, such as a tree species that
+ * cannot grow there, and the sculpting a neighbour's heights may carry.
+ */
+export function scatterChunk(options: {
+  rules: readonly ScatterRule[];
+  placers: ScatterPlacers;
+  lod: number;
+  seed: number;
+  cellSize: number;
+  chunkSize: number;
+  offsetX: number;
+  offsetZ: number;
+  waterLevel: number;
+  noiseGenerator: NoiseGenerator;
+  // The chunk's own maps.
+  ground: ScatterGround;
+  // The ground past the chunk's edges, as far as the generator knows it.
+  surroundings: ScatterGround;
+}) {
+  const { rules, placers, lod, seed, cellSize, chunkSize } = options;
+  const { offsetX, offsetZ, waterLevel, noiseGenerator } = options;
+  const { ground, surroundings } = options;
+  const bounds: ScatterBounds = {
+    maxX: (offsetX + chunkSize) * cellSize,
+    maxZ: (offsetZ + chunkSize) * cellSize,
+    minX: offsetX * cellSize,
+    minZ: offsetZ * cellSize,
+  };
+  const patterns = new Map(
+    rules.map((rule) => [
+      rule.layer,
+      new ScatterPattern({
+        cell: (chunkSize * cellSize) / Math.sqrt(Math.max(1, rule.count)),
+        layer: scatterRandomLayers[rule.layer],
+        seed,
+        spacing: rule.spacing,
+      }),
+    ]),
+  );
+  const excluded = new Set(
+    rules.flatMap(({ exclusions }) => exclusions.map(({ layer }) => layer)),
+  );
+  const placed = new Map<ScatterLayer, ScatterPoints>();
+  const traits = createBiomeTraits();
+  // Slopes from differences kept inside the chunk, where heights are known.
+  const step = cellSize / 2;
+  const clampX = (x: number) =>
+    Math.min(bounds.maxX - 1e-3, Math.max(bounds.minX, x));
+  const clampZ = (z: number) =>
+    Math.min(bounds.maxZ - 1e-3, Math.max(bounds.minZ, z));
+  const slopeAt = (on: ScatterGround, x: number, z: number) => {
+    const inside = on === ground;
+    const x0 = inside ? clampX(x - step) : x - step;
+    const x1 = inside ? clampX(x + step) : x + step;
+    const z0 = inside ? clampZ(z - step) : z - step;
+    const z1 = inside ? clampZ(z + step) : z + step;
+    const dx = (on.sampleHeight(x1, z) - on.sampleHeight(x0, z)) / (x1 - x0);
+    const dz = (on.sampleHeight(x, z1) - on.sampleHeight(x, z0)) / (z1 - z0);
+    return Math.atan(Math.hypot(dx, dz));
+  };
+
+  for (const rule of rules) {
+    const { layer, asset, count, fullDetailOnly } = rule;
+    const pattern = patterns.get(layer);
+    if (count <= 0 || !pattern || (fullDetailOnly && lod > 0)) continue;
+    const points = excluded.has(layer) ? new ScatterPoints() : null;
+    if (points) placed.set(layer, points);
+    const admit = createSiteFilter({
+      cellSize,
+      noiseGenerator,
+      placed,
+      rule,
+      seed,
+      slopeAt,
+      traits,
+      waterLevel,
+    });
+
+    // Neighbours' instances, as far as they can be known from here.
+    if (points) {
+      const reach = Math.max(
+        0,
+        ...rules.flatMap((other) =>
+          other.exclusions
+            .filter((exclusion) => exclusion.layer === layer)
+            .map(({ radius }) => radius),
+        ),
+      );
+      const ring = {
+        maxX: bounds.maxX + reach,
+        maxZ: bounds.maxZ + reach,
+        minX: bounds.minX - reach,
+        minZ: bounds.minZ - reach,
+      };
+      pattern.scan(ring, (candidate) => {
+        const { x, z } = candidate;
+        const inside =
+          x >= bounds.minX &&
+          z >= bounds.minZ &&
+          x < bounds.maxX &&
+          z < bounds.maxZ;
+        if (!inside && admit(surroundings, candidate)) points.add(x, z);
+      });
+    }
+
+    pattern.scan(bounds, (candidate) => {
+      const site = admit(ground, candidate);
+      if (site && place(placers, asset, site)) points?.add(site.x, site.z);
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  RandomLayerId,
+  RandomSource,
+  createRandom,
+  hashSeed,
+} from '../../random';
+
+export type ScatterCandidate = {
+  x: number;
+  z: number;
+  // Wins against closer neighbours with a lower priority.
+  priority: number;
+  // The candidate's own stream, already past its position and priority.
+  random: RandomSource;
+};
+
+// World rectangle, in world units; the maximum edges are exclusive.
+export type ScatterBounds = {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+};
+
+/**
+ * Blue-noise points fixed in world space: one candidate jittered inside each
+ * cell of a `cell`-sized grid, dropped when a neighbour within `spacing` has
+ * a higher priority. Every candidate depends only on its own cell and the
+ * cells around it, so chunks agree on the points along their borders.
+ */
+export class ScatterPattern {
+  // The seed and layer, mixed once for every cell.
+  private readonly layerSeed: number;
+  private readonly cell: number;
+  private readonly spacing: number;
+
+  constructor(options: {
+    seed: number;
+    layer: RandomLayerId;
+    cell: number;
+    spacing: number;
+  }) {
+    const { seed, layer, cell, spacing } = options;
+    this.layerSeed = hashSeed(seed, layer);
+    this.cell = cell;
+    this.spacing = spacing;
+  }
+
+  // Calls `visit` with every surviving candidate inside `bounds`.
+  public scan(
+    bounds: ScatterBounds,
+    visit: (candidate: ScatterCandidate) => void,
+  ) {
+    const { cell, layerSeed } = this;
+    const { minX, minZ, maxX, maxZ } = bounds;
+    for (let gz = Math.floor(minZ / cell); gz * cell < maxZ; gz += 1) {
+      const rowSeed = hashSeed(layerSeed, gz);
+      for (let gx = Math.floor(minX / cell); gx * cell < maxX; gx += 1) {
+        const candidate = this.candidateAt(rowSeed, gx, gz);
+        const { x, z } = candidate;
+        if (x < minX || z < minZ || x >= maxX || z >= maxZ) continue;
+        if (this.isSpaced(candidate, gx, gz)) visit(candidate);
+      }
+    }
+  }
+
+  // The candidate in cell (`gx`, `gz`); `rowSeed` mixes in the row.
+  private candidateAt(
+    rowSeed: number,
+    gx: number,
+    gz: number,
+  ): ScatterCandidate {
+    const random = createRandom(hashSeed(rowSeed, gx));
+    const x = (gx + random()) * this.cell;
+    const z = (gz + random()) * this.cell;
+    return { priority: random(), random, x, z };
+  }
+
+  private isSpaced(candidate: ScatterCandidate, gx: number, gz: number) {
+    const { spacing, cell, layerSeed } = this;
+    if (spacing <= 0) return true;
+    const reach = Math.ceil(spacing / cell);
+    for (let dz = -reach; dz <= reach; dz += 1)
+      for (let dx = -reach; dx <= reach; dx += 1) {
+        if (dx === 0 && dz === 0) continue;
+        const rowSeed = hashSeed(layerSeed, gz + dz);
+        const other = this.candidateAt(rowSeed, gx + dx, gz + dz);
+        if (other.priority <= candidate.priority) continue;
+        if (Math.hypot(other.x - candidate.x, other.z - candidate.z) < spacing)
+          return false;
+      }
+    return true;
+  }
+}
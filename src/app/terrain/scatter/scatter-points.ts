@@ -0,0 +1,37 @@
+// Side of the buckets placed instances are looked up in, in world units.
+const BUCKET_SIZE = 8;
+
+// Placed instances of one layer, bucketed for radius queries.
+export class ScatterPoints {
+  private readonly buckets = new Map<number, number[]>();
+
+  public add(x: number, z: number) {
+    const key = bucketKey(
+      Math.floor(x / BUCKET_SIZE),
+      Math.floor(z / BUCKET_SIZE),
+    );
+    const bucket = this.buckets.get(key) ?? [];
+    bucket.push(x, z);
+    this.buckets.set(key, bucket);
+  }
+
+  public has(x: number, z: number, radius: number) {
+    const minX = Math.floor((x - radius) / BUCKET_SIZE);
+    const maxX = Math.floor((x + radius) / BUCKET_SIZE);
+    const minZ = Math.floor((z - radius) / BUCKET_SIZE);
+    const maxZ = Math.floor((z + radius) / BUCKET_SIZE);
+    for (let bz = minZ; bz <= maxZ; bz += 1)
+      for (let bx = minX; bx <= maxX; bx += 1) {
+        const bucket = this.buckets.get(bucketKey(bx, bz));
+        if (!bucket) continue;
+        for (let index = 0; index < bucket.length; index += 2)
+          if (Math.hypot(bucket[index] - x, bucket[index + 1] - z) < radius)
+            return true;
+      }
+    return false;
+  }
+}
+
+function bucketKey(bx: number, bz: number) {
+  return bx * 1_000_003 + bz;
+}
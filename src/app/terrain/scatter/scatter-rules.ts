@@ -0,0 +1,166 @@
+import { VegetationConfig } from '../../config/world-config';
+import { NoiseOptions } from '../noise';
+import { BiomeId } from '../biomes/biome-definitions';
+import { BiomeTraits } from '../biomes/biome-sampler';
+import { FlowerModelKind } from '../flowers/flower-models';
+
+// Scatter layers, in the order their rules are applied.
+export type ScatterLayer = 'trees' | 'rocks' | 'flowers' | 'grass';
+
+// Biome traits that can set how densely a layer grows.
+export type BiomeDensityTrait = {
+  [Key in keyof BiomeTraits]: BiomeTraits[Key] extends number ? Key : never;
+}[keyof BiomeTraits];
+
+// Density noise; its `offsetZ` is added to the world seed.
+export type ScatterDensityNoise = NoiseOptions & {
+  // Normalised noise values over which density ramps from `floor` to 1.
+  ramp: [number, number];
+  floor: number;
+};
+
+export type ScatterExclusion = {
+  layer: ScatterLayer;
+  // Least distance kept from that layer's instances.
+  radius: number;
+};
+
+// What a rule's sites get: the biome's tree or flower, a model, or grass.
+export type ScatterAsset =
+  | { kind: 'biomeTree' }
+  | { kind: 'biomeFlower' }
+  | {
+      kind: 'model';
+      model: FlowerModelKind;
+      // How far instances take on the colour of the ground, 0..1.
+      groundTint: number;
+    }
+  | { kind: 'grassBlade' };
+
+/**
+ * Where one layer grows. Candidates sit on a jittered grid fixed in world
+ * space; each one that survives the spacing is kept with a chance built from
+ * the density noise, biome and run-off, then tested against the ranges and
+ * the exclusions. Wet ground and paths are always left bare.
+ */
+export type ScatterRule = {
+  layer: ScatterLayer;
+  asset: ScatterAsset;
+  // Candidates per chunk; their grid has about one per cell this many.
+  count: number;
+  // Least distance between two instances of the layer; 0 skips the check.
+  spacing: number;
+  densityNoise: ScatterDensityNoise | null;
+  // Biomes it grows in, or null for all; a blend keeps their share.
+  biomes: readonly BiomeId[] | null;
+  densityTrait: BiomeDensityTrait;
+  // How much erosion run-off, 0..1, thins it out along water courses.
+  flowAvoidance: number;
+  // Heights above the water level it grows between, in world units.
+  heightRange: [number, number];
+  // Ground steepness it grows on, in radians.
+  slopeRange: [number, number];
+  // Layers applied before this one that it keeps clear of.
+  exclusions: readonly ScatterExclusion[];
+  // Whether it only grows on full-detail chunks.
+  fullDetailOnly: boolean;
+};
+
+// The scatter rules for `vegetation`, in the order they are applied.
+export function createScatterRules(
+  vegetation: VegetationConfig,
+): ScatterRule[] {
+  const { densityNoiseBasis: basis, densityNoiseFractal: fractal } = vegetation;
+  const { maxTreesPerChunk, maxFlowersPerChunk, grassBladeCount } = vegetation;
+  const { treeNoiseOctaves, treeNoisePersistence, treeNoiseScale } = vegetation;
+  const { flowerNoiseScale } = vegetation;
+  const flowerNoise: Omit<ScatterDensityNoise, 'offsetZ'> = {
+    basis,
+    floor: 0,
+    fractal,
+    lacunarity: 2,
+    octaves: 2,
+    persistence: 0.5,
+    ramp: [0, 1],
+    scale: flowerNoiseScale,
+    warpScale: 0,
+    warpStrength: 0,
+  };
+  return [
+    {
+      asset: { kind: 'biomeTree' },
+      biomes: null,
+      count: maxTreesPerChunk,
+      densityNoise: {
+        basis,
+        // Patches of dense noise grow woods; elsewhere trees thin out.
+        floor: 0.25,
+        fractal,
+        lacunarity: 2,
+        octaves: treeNoiseOctaves,
+        offsetZ: 2048,
+        persistence: treeNoisePersistence,
+        ramp: [0.45, 0.65],
+        scale: treeNoiseScale,
+        warpScale: 0,
+        warpStrength: 0,
+      },
+      densityTrait: 'treeDensity',
+      exclusions: [],
+      flowAvoidance: 1,
+      fullDetailOnly: false,
+      heightRange: [12, Infinity],
+      layer: 'trees',
+      slopeRange: [0, Math.PI / 2],
+      spacing: 12,
+    },
+    {
+      asset: { groundTint: 0.35, kind: 'model', model: 'rock' },
+      biomes: null,
+      count: maxFlowersPerChunk,
+      densityNoise: { ...flowerNoise, offsetZ: 6144 },
+      densityTrait: 'rockFrequency',
+      exclusions: [{ layer: 'trees', radius: 4 }],
+      flowAvoidance: 0,
+      fullDetailOnly: true,
+      heightRange: [12, Infinity],
+      layer: 'rocks',
+      slopeRange: [0, 0.9],
+      spacing: 4,
+    },
+    {
+      asset: { kind: 'biomeFlower' },
+      biomes: ['meadow', 'forest', 'steppe', 'alpine'],
+      count: maxFlowersPerChunk,
+      densityNoise: { ...flowerNoise, offsetZ: 4096 },
+      densityTrait: 'flowerDensity',
+      exclusions: [
+        { layer: 'trees', radius: 3 },
+        { layer: 'rocks', radius: 2 },
+      ],
+      flowAvoidance: 0,
+      fullDetailOnly: true,
+      heightRange: [12, Infinity],
+      layer: 'flowers',
+      slopeRange: [0, 0.55],
+      spacing: 2,
+    },
+    {
+      asset: { kind: 'grassBlade' },
+      biomes: null,
+      count: grassBladeCount,
+      densityNoise: null,
+      densityTrait: 'grassDensity',
+      exclusions: [
+        { layer: 'trees', radius: 0.8 },
+        { layer: 'rocks', radius: 1.5 },
+      ],
+      flowAvoidance: 0.8,
+      fullDetailOnly: true,
+      heightRange: [8, Infinity],
+      layer: 'grass',
+      slopeRange: [0, Math.PI / 2],
+      spacing: 0,
+    },
+  ];
+}
@@ -0,0 +1,247 @@
+import * as THREE from 'three';
+import { BiomeMap } from '../biomes/biome-map';
+import { ChunkGenerationContext } from '../terrain-chunk-generator';
+import { makeSampleFromHeightData } from '../terrain-utilities';
+import { TerrainPath, isOnPaths } from '../paths/terrain-path';
+import { TreeSpecies } from '../biomes/biome-definitions';
+import { FlowerModelKind } from '../flowers/flower-models';
+import { GrassInstanceData } from '../grass/grass-utilities';
+import { suitsTreeSpecies, treeSpeciesDefinitions } from '../tree-species';
+import { TerrainSampler } from '../terrain-sampler';
+import { createSurfaceHeightSampler } from '../terrain-shaping';
+import { createBiomeSampler } from '../biomes/biome-sampler';
+import {
+  ScatterGround,
+  ScatterPlacers,
+  ScatterSite,
+  scatterChunk,
+} from './chunk-scatter';
+import { createScatterRules } from './scatter-rules';
+
+// A tree the scatter planted. Plain data, as it comes from the workers.
+export type TreePlacement = {
+  species: TreeSpecies;
+  // Picks from the species' prototypes, 0..1.
+  variant: number;
+  x: number;
+  y: number;
+  z: number;
+  scale: number;
+};
+
+// A flower or rock the scatter placed. Plain data, like `TreePlacement`.
+export type FlowerPlacement = {
+  kind: FlowerModelKind;
+  x: number;
+  y: number;
+  z: number;
+  // Turn about the vertical axis, in radians.
+  rotation: number;
+  scale: number;
+  // Linear RGB multiplying the model's colours.
+  tint: [number, number, number];
+};
+
+export type VegetationScatter = {
+  trees: TreePlacement[];
+  flowers: FlowerPlacement[];
+  grass: GrassInstanceData;
+};
+
+function placeFlower(
+  site: ScatterSite,
+  kind: FlowerModelKind,
+  tint: THREE.Color,
+): FlowerPlacement {
+  const { x, y, z, random } = site;
+  const brightness = 0.85 + random() * 0.3;
+  return {
+    kind,
+    rotation: random() * Math.PI * 2,
+    scale: (0.8 + random() * 0.4) * (0.8 + random() * 0.6),
+    tint: tint.multiplyScalar(brightness).toArray() as [number, number, number],
+    x,
+    y,
+    z,
+  };
+}
+
+/**
+ * Runs the scatter rules over a chunk's per-sample maps and fills what they
+ * let through: a species for each tree site, a biome's flower or a rock for
+ * the others, and a blade of grass wherever grass may grow.
+ */
+export function scatterVegetation(
+  context: ChunkGenerationContext,
+  chunk: {
+    lod: number;
+    width: number;
+    depth: number;
+    offsetX: number;
+    offsetZ: number;
+    centerX: number;
+    centerZ: number;
+    heightData: Float32Array;
+    biomeWeights: Float32Array;
+    flow: Float32Array;
+    wetness: Float32Array;
+    waterDistance: Float32Array;
+    paths: TerrainPath[];
+  },
+): VegetationScatter {
+  const { terrain, vegetation, waterLevel, noiseGenerator } = context;
+  const { cellSize, heightScale, chunkSize, seed } = terrain;
+  const { lod, width, depth, offsetX, offsetZ, centerX, centerZ } = chunk;
+  const { heightData, biomeWeights, flow, wetness, waterDistance, paths } =
+    chunk;
+  const grid = { cd: depth, cellSize, cw: width, offsetX, offsetZ };
+  const sampleMap = (map: Float32Array) =>
+    makeSampleFromHeightData({ ...grid, heightData: map, heightScale: 1 });
+  const sampleWaterDistance = sampleMap(waterDistance);
+  const biomes = new BiomeMap({
+    cellSize,
+    depth,
+    offsetX,
+    offsetZ,
+    weights: biomeWeights,
+    width,
+  });
+  const trees: TreePlacement[] = [];
+  const flowers: FlowerPlacement[] = [];
+  const grass = {
+    angles: [] as number[],
+    indices: [] as number[],
+    offsets: [] as number[],
+    scales: [] as number[],
+    tints: [] as number[],
+  };
+  const tint = new THREE.Color();
+
+  const placers: ScatterPlacers = {
+    biomeFlower: (site) => {
+      const { flowers: kinds } = pickBiome(biomes, site);
+      if (kinds.length === 0) return false;
+      const kind = kinds[Math.floor(site.random() * kinds.length)];
+      flowers.push(placeFlower(site, kind, tint.setRGB(1, 1, 1)));
+      return true;
+    },
+    biomeTree: (site) => {
+      const { x, y, z, slope, random } = site;
+      const suited = {
+        altitude: y - waterLevel,
+        slope,
+        waterDistance: sampleWaterDistance(x, z),
+      };
+      // The biome names the species; the site rules out those that can't grow.
+      const species = pickBiome(biomes, site).trees.filter((candidate) =>
+        suitsTreeSpecies(candidate, suited),
+      );
+      if (species.length === 0) return false;
+      const chosen = species[Math.floor(random() * species.length)];
+      const definition = treeSpeciesDefinitions[chosen];
+      if (random() >= definition.density) return false;
+      const [minScale, maxScale] = definition.scale;
+      trees.push({
+        scale: minScale + random() * (maxScale - minScale),
+        species: chosen,
+        variant: random(),
+        x,
+        y,
+        z,
+      });
+      return true;
+    },
+    grassBlade: ({ x, y, z, traits, random }) => {
+      const angle = Math.PI - random() * (2 * Math.PI);
+      grass.indices.push(random());
+      grass.offsets.push(x - centerX, y, z - centerZ);
+      grass.angles.push(Math.sin(0.5 * angle), Math.cos(0.5 * angle));
+      grass.scales.push(2 + random() * (random() < 2 / 3 ? 1.25 : 1));
+      const { grassTint } = traits;
+      grass.tints.push(grassTint.r, grassTint.g, grassTint.b);
+      return true;
+    },
+    model: (site, { model, groundTint }) => {
+      tint.setRGB(1, 1, 1).lerp(site.traits.groundColor, groundTint);
+      flowers.push(placeFlower(site, model, tint));
+      return true;
+    },
+  };
+  const isOnPath = (x: number, z: number) => isOnPaths(paths, x, z);
+  scatterChunk({
+    cellSize,
+    chunkSize,
+    ground: {
+      biomes,
+      isOnPath,
+      sampleFlow: sampleMap(flow),
+      sampleHeight: makeSampleFromHeightData({
+        ...grid,
+        heightData,
+        heightScale,
+      }),
+      sampleWetness: sampleMap(wetness),
+    },
+    lod,
+    noiseGenerator,
+    offsetX,
+    offsetZ,
+    placers,
+    rules: createScatterRules(vegetation),
+    seed,
+    surroundings: { ...createGeneratedGround(context), isOnPath },
+    waterLevel,
+  });
+
+  return {
+    flowers,
+    grass: {
+      halfRootAngles: Float32Array.from(grass.angles),
+      indices: Float32Array.from(grass.indices),
+      offsets: Float32Array.from(grass.offsets),
+      placedCount: grass.indices.length,
+      scales: Float32Array.from(grass.scales),
+      tints: Float32Array.from(grass.tints),
+    },
+    trees,
+  };
+}
+
+// The ground anywhere, straight from the generator: no chunk maps needed.
+function createGeneratedGround(
+  context: ChunkGenerationContext,
+): Omit<ScatterGround, 'isOnPath'> {
+  const { terrain, erosion, hydrology } = context;
+  const { cellSize, chunkSize, heightScale } = terrain;
+  const surfaceHeight = createSurfaceHeightSampler(context);
+  const heights = new TerrainSampler({
+    cellSize,
+    chunkSize,
+    generateCellHeight: surfaceHeight,
+    getChunk: null,
+    heightScale,
+  });
+  const sampleHeight = (x: number, z: number) => heights.getHeightAt(x, z);
+  const sampler = createBiomeSampler(context);
+  const toCell = (value: number) => Math.round(value / cellSize);
+  return {
+    biomes: {
+      traitsAt: (x, z, target) =>
+        sampler.traitsAt(x, z, sampleHeight(x, z), target),
+      weightsAt: (x, z, target) =>
+        sampler.weightsAt(x, z, sampleHeight(x, z), target),
+    },
+    sampleFlow: (x, z) => erosion?.sampleFlow(toCell(x), toCell(z)) ?? 0,
+    sampleHeight,
+    sampleWetness: (x, z) => {
+      const ix = toCell(x);
+      const iz = toCell(z);
+      const wet = hydrology?.isWet(ix, iz, surfaceHeight(ix, iz)) ?? false;
+      return wet ? 1 : 0;
+    },
+  };
+}
+
+function pickBiome(biomes: BiomeMap, site: ScatterSite) {
+  return biomes.pick(site.x, site.z, site.random);
+}
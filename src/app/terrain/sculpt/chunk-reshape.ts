@@ -0,0 +1,98 @@
+import { TerrainChunk } from '../terrain-chunk';
+import { smoothChunkBorders } from '../terrain-seams';
+import { applyHeightEdits } from '../terrain-shaping';
+import { lodGridSize, lodStep, refreshSkirts } from '../terrain-lod';
+import {
+  buildGeometry,
+  makeKey,
+  makeSampleFromHeightData,
+} from '../terrain-utilities';
+import { TerrainEdits } from './terrain-edits';
+
+type ReshapeOptions = {
+  edits: TerrainEdits;
+  chunkSize: number;
+  cellSize: number;
+  heightScale: number;
+};
+
+/**
+ * Lays the current edits over a loaded chunk's base heights and moves its
+ * surface, normals, skirts and scattered objects to match, without waiting
+ * for the chunk to be generated again. Grass and ground colours catch up when
+ * the regenerated chunk replaces this one.
+ */
+export function reshapeChunk(chunk: TerrainChunk, options: ReshapeOptions) {
+  const { edits, chunkSize, cellSize, heightScale } = options;
+  const { heightData, baseHeightData, trees, flowers } = chunk;
+  const { width, depth, offsetX, offsetZ, lod, mesh } = chunk;
+  const grid = { cd: depth, cellSize, cw: width, offsetX, offsetZ };
+  const before = Float32Array.from(heightData);
+  applyHeightEdits({
+    base: baseHeightData,
+    edits: edits.sampleGrid({ depth, offsetX, offsetZ, width }),
+    target: heightData,
+  });
+
+  // A fresh grid gets its normals exactly as a generated chunk would.
+  const { geometry: surface } = buildGeometry({
+    ...grid,
+    heightData,
+    heightScale,
+    step: lodStep(lod),
+  });
+  const gridSize = lodGridSize(chunkSize, lod);
+  const { geometry } = mesh;
+  for (const name of ['position', 'normal']) {
+    const source = surface.getAttribute(name).array as Float32Array;
+    (geometry.getAttribute(name).array as Float32Array).set(source);
+  }
+  surface.dispose();
+  let minHeight = Infinity;
+  let maxHeight = -Infinity;
+  for (const height of heightData) {
+    minHeight = Math.min(minHeight, height);
+    maxHeight = Math.max(maxHeight, height);
+  }
+  refreshSkirts({
+    depth: (maxHeight - minHeight) * heightScale + cellSize,
+    geometry,
+    gridDepth: gridSize,
+    gridWidth: gridSize,
+  });
+  geometry.computeBoundingSphere();
+  geometry.computeBoundingBox();
+
+  const sampleBefore = makeSampleFromHeightData({
+    ...grid,
+    heightData: before,
+    heightScale,
+  });
+  const sampleAfter = makeSampleFromHeightData({
+    ...grid,
+    heightData,
+    heightScale,
+  });
+  const heightChange = (x: number, z: number) =>
+    sampleAfter(x, z) - sampleBefore(x, z);
+  trees?.settle(heightChange);
+  flowers?.settle(heightChange);
+}
+
+// Reshapes the loaded ones of `coordinates`, then evens out their borders.
+export function reshapeChunks(
+  chunks: Map<string, TerrainChunk>,
+  coordinates: [number, number][],
+  options: ReshapeOptions,
+) {
+  const { chunkSize } = options;
+  const reshaped: { cx: number; cz: number; lod: number }[] = [];
+  for (const [cx, cz] of coordinates) {
+    const chunk = chunks.get(makeKey(cx, cz));
+    if (!chunk) continue;
+    reshapeChunk(chunk, options);
+    reshaped.push({ cx, cz, lod: chunk.lod });
+  }
+  for (const { cx, cz, lod } of reshaped)
+    smoothChunkBorders({ chunkSize, chunks, cx, cz, lod });
+}
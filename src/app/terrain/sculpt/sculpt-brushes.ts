@@ -0,0 +1,60 @@
+export type SculptBrush = 'raise' | 'lower' | 'smooth' | 'flatten' | 'noise';
+
+export const sculptBrushes: readonly SculptBrush[] = [
+  'raise',
+  'lower',
+  'smooth',
+  'flatten',
+  'noise',
+];
+
+// Share of the way to the neighbour average, or the flatten height, per second.
+const SMOOTH_RATE = 4;
+const FLATTEN_RATE = 3;
+
+// One at the brush centre, falling smoothly to zero at `radius`.
+export function brushWeight(distance: number, radius: number) {
+  if (distance >= radius) return 0;
+  const falloff = 1 - (distance / radius) ** 2;
+  return falloff * falloff;
+}
+
+/**
+ * New height, in world units, of one cell under a brush held for `delta`
+ * seconds. `strength` is in world units per second at the brush centre.
+ */
+export function brushHeight(options: {
+  brush: SculptBrush;
+  height: number;
+  // Mean height of the cell's four neighbours.
+  average: number;
+  // Ground height where the stroke started, for flattening.
+  target: number;
+  // Noise in roughly -1..1 at the cell.
+  noise: number;
+  weight: number;
+  strength: number;
+  delta: number;
+}) {
+  const { brush, height, average, target, noise, weight, strength, delta } =
+    options;
+  const amount = strength * delta * weight;
+  switch (brush) {
+    case 'raise':
+      return height + amount;
+    case 'lower':
+      return height - amount;
+    case 'smooth':
+      return (
+        height + (average - height) * Math.min(1, SMOOTH_RATE * delta * weight)
+      );
+    case 'flatten':
+      return (
+        height + (target - height) * Math.min(1, FLATTEN_RATE * delta * weight)
+      );
+    case 'noise':
+      return height + noise * amount;
+    default:
+      return height;
+  }
+}
@@ -0,0 +1,123 @@
+import { makeKey } from '../terrain-utilities';
+
+// The deltas of one chunk, as saved: `chunkSize` squared cells, row by row.
+export type ChunkEdits = { cx: number; cz: number; deltas: Float32Array };
+
+/**
+ * Sculpted height changes on top of the procedural terrain, in normalised
+ * height units. Each chunk stores the cells it owns, `chunkSize` squared from
+ * its offset; the border row a chunk shares with its neighbour is owned by
+ * the neighbour, so both always read the same value and stay stitched.
+ */
+export class TerrainEdits {
+  private readonly chunkSize: number;
+  private readonly chunks = new Map<string, ChunkEdits>();
+
+  constructor(options: { chunkSize: number }) {
+    this.chunkSize = options.chunkSize;
+  }
+
+  get isEmpty() {
+    return this.chunks.size === 0;
+  }
+
+  sampleCell(ix: number, iz: number) {
+    const { chunkSize, chunks } = this;
+    const cx = Math.floor(ix / chunkSize);
+    const cz = Math.floor(iz / chunkSize);
+    const edited = chunks.get(makeKey(cx, cz));
+    if (!edited) return 0;
+    return edited.deltas[
+      ix - cx * chunkSize + (iz - cz * chunkSize) * chunkSize
+    ];
+  }
+
+  setCell(ix: number, iz: number, value: number) {
+    const { chunkSize, chunks } = this;
+    const cx = Math.floor(ix / chunkSize);
+    const cz = Math.floor(iz / chunkSize);
+    const key = makeKey(cx, cz);
+    let edited = chunks.get(key);
+    if (!edited) {
+      if (value === 0) return;
+      edited = { cx, cz, deltas: new Float32Array(chunkSize * chunkSize) };
+      chunks.set(key, edited);
+    }
+    edited.deltas[ix - cx * chunkSize + (iz - cz * chunkSize) * chunkSize] =
+      value;
+  }
+
+  /**
+   * Deltas for a `width` x `depth` grid of cells from `offsetX`, `offsetZ`,
+   * laid out like chunk height data, or null when none of it is edited.
+   */
+  sampleGrid(options: {
+    offsetX: number;
+    offsetZ: number;
+    width: number;
+    depth: number;
+  }) {
+    const { offsetX, offsetZ, width, depth } = options;
+    if (!this.overlaps(options)) return null;
+    const grid = new Float32Array(width * depth);
+    for (let dz = 0; dz < depth; dz += 1)
+      for (let dx = 0; dx < width; dx += 1)
+        grid[dx + dz * width] = this.sampleCell(offsetX + dx, offsetZ + dz);
+    return grid;
+  }
+
+  // A copy of every edited chunk, for saving.
+  snapshot(): ChunkEdits[] {
+    return [...this.chunks.values()].map(({ cx, cz, deltas }) => ({
+      cx,
+      cz,
+      deltas: Float32Array.from(deltas),
+    }));
+  }
+
+  // Replaces all edits with saved ones.
+  restore(saved: readonly ChunkEdits[]) {
+    const { chunkSize, chunks } = this;
+    chunks.clear();
+    for (const { cx, cz, deltas } of saved) {
+      if (deltas.length !== chunkSize * chunkSize)
+        throw new RangeError(
+          `Edits for chunk ${makeKey(cx, cz)} hold ${String(deltas.length)} cells, expected ${String(chunkSize * chunkSize)}`,
+        );
+      chunks.set(makeKey(cx, cz), {
+        cx,
+        cz,
+        deltas: Float32Array.from(deltas),
+      });
+    }
+  }
+
+  // Chunks whose height data includes cell (ix, iz): one, two or four.
+  chunksSharing(ix: number, iz: number) {
+    const { chunkSize } = this;
+    const cx = Math.floor(ix / chunkSize);
+    const cz = Math.floor(iz / chunkSize);
+    const xs = ix === cx * chunkSize ? [cx - 1, cx] : [cx];
+    const zs = iz === cz * chunkSize ? [cz - 1, cz] : [cz];
+    return zs.flatMap((sz) => xs.map((sx): [number, number] => [sx, sz]));
+  }
+
+  // Whether the grid reaches a chunk holding edits; cheap to ask.
+  overlaps(grid: {
+    offsetX: number;
+    offsetZ: number;
+    width: number;
+    depth: number;
+  }) {
+    const { chunkSize, chunks } = this;
+    const { offsetX, offsetZ, width, depth } = grid;
+    const fromX = Math.floor(offsetX / chunkSize);
+    const fromZ = Math.floor(offsetZ / chunkSize);
+    const toX = Math.floor((offsetX + width - 1) / chunkSize);
+    const toZ = Math.floor((offsetZ + depth - 1) / chunkSize);
+    for (let cz = fromZ; cz <= toZ; cz += 1)
+      for (let cx = fromX; cx <= toX; cx += 1)
+        if (chunks.has(makeKey(cx, cz))) return true;
+    return false;
+  }
+}
@@ -0,0 +1,186 @@
+import { NoiseGenerator, NoiseOptions } from '../noise';
+import { makeKey } from '../terrain-utilities';
+import { SculptBrush, brushHeight, brushWeight } from './sculpt-brushes';
+import { TerrainEdits } from './terrain-edits';
+
+// Longest frame a brush applies at once, so a hitch cannot dig a crater.
+const MAX_STEP = 0.1;
+
+// One edited cell: its delta before and after a stroke.
+type CellChange = { ix: number; iz: number; before: number; after: number };
+
+export type TerrainSculptorOptions = {
+  edits: TerrainEdits;
+  cellSize: number;
+  heightScale: number;
+  seed: number;
+  noiseGenerator: NoiseGenerator;
+  // Strokes kept for undo.
+  historyLimit: number;
+  // Normalised height of lattice cell (ix, iz), edits included.
+  getCellHeight: (ix: number, iz: number) => number;
+  /**
+   * Called with the chunks whose heights changed. `settled` is false while a
+   * stroke is still going on and true once it ends, or for undo and redo.
+   */
+  onChange: (chunks: [number, number][], settled: boolean) => void;
+};
+
+function sculptNoiseOptions(seed: number): NoiseOptions {
+  return {
+    basis: 'perlin',
+    fractal: 'fbm',
+    lacunarity: 2,
+    octaves: 3,
+    offsetZ: seed + 77,
+    persistence: 0.5,
+    scale: 0.2,
+    warpScale: 0,
+    warpStrength: 0,
+  };
+}
+
+/**
+ * Applies brush strokes to the terrain edits and keeps them in an undo
+ * history. A stroke runs from `beginStroke` to `endStroke`, with `sculpt`
+ * called every frame in between; each stroke undoes as one step.
+ */
+export class TerrainSculptor {
+  public brush: SculptBrush = 'raise';
+  // World units.
+  public radius: number;
+  // World units per second at the brush centre.
+  public strength: number;
+  private readonly options: TerrainSculptorOptions;
+  private readonly noiseOptions: NoiseOptions;
+  private stroke: { target: number; cells: Map<string, CellChange> } | null =
+    null;
+  private undoStack: CellChange[][] = [];
+  private redoStack: CellChange[][] = [];
+
+  constructor(
+    options: TerrainSculptorOptions & { radius: number; strength: number },
+  ) {
+    this.options = options;
+    this.radius = options.radius;
+    this.strength = options.strength;
+    this.noiseOptions = sculptNoiseOptions(options.seed);
+  }
+
+  get isStroking() {
+    return this.stroke !== null;
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  // Starts a stroke at world position (x, z); flattening levels to its height.
+  beginStroke(x: number, z: number) {
+    const { cellSize, heightScale, getCellHeight } = this.options;
+    const target =
+      getCellHeight(Math.round(x / cellSize), Math.round(z / cellSize)) *
+      heightScale;
+    this.stroke = { cells: new Map(), target };
+  }
+
+  // Applies the brush centred on world position (x, z) for `delta` seconds.
+  sculpt(x: number, z: number, delta: number) {
+    const { stroke, brush, radius, strength, noiseOptions, options } = this;
+    if (!stroke) return;
+    const { edits, cellSize, heightScale, getCellHeight, noiseGenerator } =
+      options;
+    const step = Math.min(delta, MAX_STEP);
+    const heightAt = (ix: number, iz: number) =>
+      getCellHeight(ix, iz) * heightScale;
+    const fromX = Math.ceil((x - radius) / cellSize);
+    const toX = Math.floor((x + radius) / cellSize);
+    const fromZ = Math.ceil((z - radius) / cellSize);
+    const toZ = Math.floor((z + radius) / cellSize);
+
+    // Heights are all worked out first so smoothing reads unchanged ground.
+    const updates: { ix: number; iz: number; change: number }[] = [];
+    for (let iz = fromZ; iz <= toZ; iz += 1)
+      for (let ix = fromX; ix <= toX; ix += 1) {
+        const distance = Math.hypot(ix * cellSize - x, iz * cellSize - z);
+        const weight = brushWeight(distance, radius);
+        if (weight <= 0) continue;
+        const height = heightAt(ix, iz);
+        const next = brushHeight({
+          average:
+            (heightAt(ix - 1, iz) +
+              heightAt(ix + 1, iz) +
+              heightAt(ix, iz - 1) +
+              heightAt(ix, iz + 1)) /
+            4,
+          brush,
+          delta: step,
+          height,
+          noise: noiseGenerator.sample(ix, iz, noiseOptions),
+          strength,
+          target: stroke.target,
+          weight,
+        });
+        if (next !== height)
+          updates.push({ change: (next - height) / heightScale, ix, iz });
+      }
+
+    for (const { ix, iz, change } of updates) {
+      const key = makeKey(ix, iz);
+      const current = edits.sampleCell(ix, iz);
+      const cell = stroke.cells.get(key) ?? {
+        after: current,
+        before: current,
+        ix,
+        iz,
+      };
+      cell.after = current + change;
+      stroke.cells.set(key, cell);
+      edits.setCell(ix, iz, cell.after);
+    }
+    if (updates.length > 0) this.notify(updates, false);
+  }
+
+  endStroke() {
+    const { stroke, undoStack, options } = this;
+    this.stroke = null;
+    if (!stroke || stroke.cells.size === 0) return;
+    const cells = [...stroke.cells.values()];
+    undoStack.push(cells);
+    if (undoStack.length > options.historyLimit) undoStack.shift();
+    this.redoStack = [];
+    this.notify(cells, true);
+  }
+
+  undo() {
+    this.endStroke();
+    const cells = this.undoStack.pop();
+    if (!cells) return;
+    for (const { ix, iz, before } of cells)
+      this.options.edits.setCell(ix, iz, before);
+    this.redoStack.push(cells);
+    this.notify(cells, true);
+  }
+
+  redo() {
+    this.endStroke();
+    const cells = this.redoStack.pop();
+    if (!cells) return;
+    for (const { ix, iz, after } of cells)
+      this.options.edits.setCell(ix, iz, after);
+    this.undoStack.push(cells);
+    this.notify(cells, true);
+  }
+
+  private notify(cells: { ix: number; iz: number }[], settled: boolean) {
+    const chunks = new Map<string, [number, number]>();
+    for (const { ix, iz } of cells)
+      for (const [cx, cz] of this.options.edits.chunksSharing(ix, iz))
+        chunks.set(makeKey(cx, cz), [cx, cz]);
+    this.options.onChange([...chunks.values()], settled);
+  }
+}
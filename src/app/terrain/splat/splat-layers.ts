@@ -0,0 +1,219 @@
+import * as THREE from 'three';
+import { NoiseBasis, NoiseFractal, NoiseGenerator } from '../noise';
+import { RandomSource } from '../../random';
+
+export type SplatLayerId =
+  'grass' | 'dirt' | 'sand' | 'rock' | 'snow' | 'gravel';
+
+export type SplatLayerDefinition = {
+  id: SplatLayerId;
+  // Albedo (sRGB) in the hollows and on the crests of the layer's relief.
+  low: [number, number, number];
+  high: [number, number, number];
+  // Noise features across one texture tile.
+  frequency: number;
+  basis: NoiseBasis;
+  fractal: NoiseFractal;
+  // Share of texels speckled lighter or darker.
+  grit: number;
+  normalStrength: number;
+};
+
+// Order is the texture array layer; the shader refers to layers by index.
+export const splatLayers: readonly SplatLayerDefinition[] = [
+  {
+    // Grey around 0.5 linear: a detail mask over the biome vertex colour.
+    basis: 'perlin',
+    fractal: 'fbm',
+    frequency: 12,
+    grit: 0.25,
+    high: [0.84, 0.84, 0.8],
+    id: 'grass',
+    low: [0.62, 0.63, 0.58],
+    normalStrength: 1.5,
+  },
+  {
+    basis: 'perlin',
+    fractal: 'billow',
+    frequency: 6,
+    grit: 0.15,
+    high: [0.45, 0.35, 0.24],
+    id: 'dirt',
+    low: [0.26, 0.19, 0.13],
+    normalStrength: 2,
+  },
+  {
+    basis: 'simplex',
+    fractal: 'fbm',
+    frequency: 16,
+    grit: 0.35,
+    high: [0.8, 0.72, 0.55],
+    id: 'sand',
+    low: [0.66, 0.57, 0.42],
+    normalStrength: 0.8,
+  },
+  {
+    basis: 'worley',
+    fractal: 'ridged',
+    frequency: 4,
+    grit: 0.1,
+    high: [0.58, 0.56, 0.53],
+    id: 'rock',
+    low: [0.28, 0.27, 0.26],
+    normalStrength: 4,
+  },
+  {
+    basis: 'perlin',
+    fractal: 'fbm',
+    frequency: 5,
+    grit: 0.05,
+    high: [0.96, 0.97, 1],
+    id: 'snow',
+    low: [0.82, 0.86, 0.92],
+    normalStrength: 0.6,
+  },
+  {
+    // Only painted along gravel paths.
+    basis: 'worley',
+    fractal: 'fbm',
+    frequency: 40,
+    grit: 0.5,
+    high: [0.7, 0.67, 0.62],
+    id: 'gravel',
+    low: [0.38, 0.36, 0.33],
+    normalStrength: 3,
+  },
+];
+
+export type SplatTextureData = {
+  size: number;
+  // Linear RGBA per texel per layer; alpha holds the layer's relief height.
+  albedo: Uint8Array;
+  // Tangent-space normals packed into RGB.
+  normal: Uint8Array;
+};
+
+/**
+ * Relief of one layer in 0..1, made to tile by cross-fading the noise with
+ * copies of itself shifted by one tile in each direction.
+ */
+function generateRelief(
+  layer: SplatLayerDefinition,
+  size: number,
+  noiseGenerator: NoiseGenerator,
+  offsetZ: number,
+) {
+  const relief = new Float32Array(size * size);
+  const options = {
+    basis: layer.basis,
+    fractal: layer.fractal,
+    lacunarity: 2,
+    octaves: 3,
+    offsetZ,
+    persistence: 0.5,
+    scale: layer.frequency / size,
+    warpScale: 0,
+    warpStrength: 0,
+  };
+  const sample = (x: number, y: number) => noiseGenerator.sample(x, y, options);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let ty = 0; ty < size; ty += 1)
+    for (let tx = 0; tx < size; tx += 1) {
+      const blendX = tx / size;
+      const blendY = ty / size;
+      const value =
+        sample(tx, ty) * (1 - blendX) * (1 - blendY) +
+        sample(tx - size, ty) * blendX * (1 - blendY) +
+        sample(tx, ty - size) * (1 - blendX) * blendY +
+        sample(tx - size, ty - size) * blendX * blendY;
+      relief[tx + ty * size] = value;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  const range = max - min || 1;
+  for (let index = 0; index < relief.length; index += 1)
+    relief[index] = (relief[index] - min) / range;
+  return relief;
+}
+
+function toByte(value: number) {
+  return Math.round(Math.max(0, Math.min(1, value)) * 255);
+}
+
+// Relief at texel (tx, ty), wrapping at the tile edges.
+function reliefAt(relief: Float32Array, size: number, tx: number, ty: number) {
+  return relief[((tx + size) % size) + ((ty + size) % size) * size];
+}
+
+// Sobel gradient of the relief at texel (tx, ty).
+function reliefGradient(
+  relief: Float32Array,
+  size: number,
+  tx: number,
+  ty: number,
+) {
+  const height = (dx: number, dy: number) =>
+    reliefAt(relief, size, tx + dx, ty + dy);
+  const gradientX =
+    height(1, -1) +
+    2 * height(1, 0) +
+    height(1, 1) -
+    height(-1, -1) -
+    2 * height(-1, 0) -
+    height(-1, 1);
+  const gradientY =
+    height(-1, 1) +
+    2 * height(0, 1) +
+    height(1, 1) -
+    height(-1, -1) -
+    2 * height(0, -1) -
+    height(1, -1);
+  return [gradientX, gradientY] as const;
+}
+
+export function generateSplatTextures(options: {
+  size: number;
+  noiseGenerator: NoiseGenerator;
+  random: RandomSource;
+}): SplatTextureData {
+  const { size, noiseGenerator, random } = options;
+  const texels = size * size;
+  const albedo = new Uint8Array(texels * 4 * splatLayers.length);
+  const normal = new Uint8Array(texels * 4 * splatLayers.length);
+  for (const [layerIndex, layer] of splatLayers.entries()) {
+    const relief = generateRelief(
+      layer,
+      size,
+      noiseGenerator,
+      layerIndex * 37.5,
+    );
+    const low = new THREE.Color().setRGB(...layer.low, THREE.SRGBColorSpace);
+    const high = new THREE.Color().setRGB(...layer.high, THREE.SRGBColorSpace);
+    const texelColor = new THREE.Color();
+    for (let ty = 0; ty < size; ty += 1)
+      for (let tx = 0; tx < size; tx += 1) {
+        const texel = (layerIndex * texels + tx + ty * size) * 4;
+        const value = relief[tx + ty * size];
+        const grit = random() < layer.grit ? (random() - 0.5) * 0.25 : 0;
+        const [red, green, blue] = texelColor
+          .lerpColors(low, high, value)
+          .addScalar(grit)
+          .toArray();
+        albedo[texel] = toByte(red);
+        albedo[texel + 1] = toByte(green);
+        albedo[texel + 2] = toByte(blue);
+        albedo[texel + 3] = toByte(value);
+
+        const [dx, dy] = reliefGradient(relief, size, tx, ty);
+        const nx = -dx * layer.normalStrength;
+        const ny = -dy * layer.normalStrength;
+        const length = Math.hypot(nx, ny, 1);
+        normal[texel] = toByte((nx / length) * 0.5 + 0.5);
+        normal[texel + 1] = toByte((ny / length) * 0.5 + 0.5);
+        normal[texel + 2] = toByte((1 / length) * 0.5 + 0.5);
+        normal[texel + 3] = 255;
+      }
+  }
+  return { albedo, normal, size };
+}
@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+import { NoiseGenerator } from '../noise';
+import { RandomLayer, createChunkRandom } from '../../random';
+import { createTerrainMaterial } from '../terrain-utilities';
+import { generateSplatTextures, splatLayers } from './splat-layers';
+import {
+  splatColorFragment,
+  splatFragmentPars,
+  splatNormalFragment,
+  splatVertex,
+  splatVertexPars,
+} from './splat-shaders';
+
+export type SplatMaterialOptions = {
+  seed: number;
+  // Texels per side of every layer texture.
+  textureSize: number;
+  // World units covered by one repeat of the layer textures.
+  tileSize: number;
+  // Height below which sand takes over.
+  sandLine: number;
+  // Height above which snow settles on all but the steepest ground.
+  snowLine: number;
+  // Slope, in radians, from which bare rock shows.
+  rockSlope: number;
+};
+
+function createLayerTexture(data: Uint8Array, size: number) {
+  const texture = new THREE.DataArrayTexture(
+    data,
+    size,
+    size,
+    splatLayers.length,
+  );
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.generateMipmaps = true;
+  texture.anisotropy = 8;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Terrain material blending grass, dirt, sand, rock and snow by height, slope
+ * and noise, with dirt or gravel painted along paths. The layer textures are
+ * generated here from the seed, so nothing is loaded. One instance is shared by every chunk; it is marked with
+ * `userData.sharedMaterial` so disposing a chunk leaves it alone.
+ */
+export function createSplatMaterial(options: SplatMaterialOptions) {
+  const { seed, textureSize, tileSize, sandLine, snowLine, rockSlope } =
+    options;
+  const textures = generateSplatTextures({
+    noiseGenerator: new NoiseGenerator(seed + 7919),
+    random: createChunkRandom(seed, 0, 0, RandomLayer.terrainTexture),
+    size: textureSize,
+  });
+  const albedo = createLayerTexture(textures.albedo, textureSize);
+  const normal = createLayerTexture(textures.normal, textureSize);
+
+  const material = createTerrainMaterial();
+  material.name = 'TerrainSplat';
+  material.userData.sharedMaterial = true;
+  material.customProgramCacheKey = () => 'terrain-splat';
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, {
+      splatAlbedo: { value: albedo },
+      splatNormal: { value: normal },
+      // The shader compares against one minus the normal's vertical part.
+      splatRockSlope: { value: 1 - Math.cos(rockSlope) },
+      splatSandLine: { value: sandLine },
+      splatSnowLine: { value: snowLine },
+      splatTileSize: { value: tileSize },
+    });
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${splatVertexPars}`)
+      .replace(
+        '#include <begin_vertex>',
+        `#include <begin_vertex>\n${splatVertex}`,
+      );
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\n${splatFragmentPars}`)
+      .replace('#include <color_fragment>', splatColorFragment)
+      .replace(
+        '#include <normal_fragment_maps>',
+        `#include <normal_fragment_maps>\n${splatNormalFragment}`,
+      );
+  };
+  material.addEventListener('dispose', () => {
+    albedo.dispose();
+    normal.dispose();
+  });
+  return material;
+}
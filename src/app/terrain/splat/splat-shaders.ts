@@ -0,0 +1,133 @@
+// GLSL injected into the standard physical material by `createSplatMaterial`.
+
+export const splatVertexPars = `
+// Sediment and flow from the erosion pass, both in 0..1.
+attribute vec2 erosion;
+// How far inside a dirt and a gravel path strip: 0.5 on the edge.
+attribute vec2 pathMask;
+varying vec3 vSplatPosition;
+varying vec3 vSplatNormal;
+varying vec2 vSplatErosion;
+varying vec2 vSplatPath;
+`;
+
+export const splatVertex = `
+vSplatPosition = (modelMatrix * vec4(transformed, 1.0)).xyz;
+vSplatNormal = normalize(mat3(modelMatrix) * objectNormal);
+vSplatErosion = erosion;
+vSplatPath = pathMask;
+`;
+
+export const splatFragmentPars = `
+uniform sampler2DArray splatAlbedo;
+uniform sampler2DArray splatNormal;
+uniform float splatTileSize;
+uniform float splatSandLine;
+uniform float splatSnowLine;
+uniform float splatRockSlope;
+varying vec3 vSplatPosition;
+varying vec3 vSplatNormal;
+varying vec2 vSplatErosion;
+varying vec2 vSplatPath;
+
+// One layer, projected from above on gentle ground and triplanar on steep
+// ground. Tangent normals are whiteout-blended onto each projection axis.
+void sampleSplatLayer(
+  float layer,
+  float weight,
+  vec3 tint,
+  vec3 position,
+  vec3 surfaceNormal,
+  vec3 blend,
+  inout vec3 albedoSum,
+  inout vec3 normalSum
+) {
+  vec3 tangentY = texture(splatNormal, vec3(position.xz, layer)).xyz * 2.0 - 1.0;
+  tangentY = vec3(tangentY.xy + surfaceNormal.xz, abs(tangentY.z) * surfaceNormal.y);
+  vec3 albedo = texture(splatAlbedo, vec3(position.xz, layer)).rgb * blend.y;
+  vec3 normal = tangentY.xzy * blend.y;
+  if (blend.y < 0.999) {
+    vec3 tangentX = texture(splatNormal, vec3(position.zy, layer)).xyz * 2.0 - 1.0;
+    vec3 tangentZ = texture(splatNormal, vec3(position.xy, layer)).xyz * 2.0 - 1.0;
+    tangentX = vec3(tangentX.xy + surfaceNormal.zy, abs(tangentX.z) * surfaceNormal.x);
+    tangentZ = vec3(tangentZ.xy + surfaceNormal.xy, abs(tangentZ.z) * surfaceNormal.z);
+    albedo += texture(splatAlbedo, vec3(position.zy, layer)).rgb * blend.x;
+    albedo += texture(splatAlbedo, vec3(position.xy, layer)).rgb * blend.z;
+    normal += tangentX.zyx * blend.x + tangentZ * blend.z;
+  }
+  albedoSum += albedo * tint * weight;
+  normalSum += normal * weight;
+}
+`;
+
+export const splatColorFragment = `
+vec3 splatSurface = normalize(vSplatNormal);
+vec3 splatPosition = vSplatPosition / splatTileSize;
+vec3 splatBlend = pow(abs(splatSurface), vec3(8.0));
+splatBlend /= dot(splatBlend, vec3(1.0));
+
+// Broad variation from the grass relief, stretched over many tiles.
+float splatVariation = texture(splatAlbedo, vec3(splatPosition.xz / 23.0, 0.0)).a - 0.5;
+float splatSlope = 1.0 - splatSurface.y;
+float splatHeight = vSplatPosition.y;
+// Silt and water courses left by erosion wear the grass down to dirt.
+float splatWear = max(vSplatErosion.x * 0.6, vSplatErosion.y * 0.8);
+float dirtMask = smoothstep(0.5, 0.8, splatSlope / splatRockSlope + splatVariation * 0.8 + splatWear);
+float sandMask = 1.0 - smoothstep(splatSandLine - 2.0, splatSandLine + 2.0, splatHeight + splatVariation * 6.0);
+float rockMask = smoothstep(splatRockSlope * 0.85, splatRockSlope * 1.15, splatSlope + splatVariation * 0.05);
+float snowMask = smoothstep(splatSnowLine - 8.0, splatSnowLine + 8.0, splatHeight + splatVariation * 30.0) * (1.0 - 0.7 * rockMask);
+
+// Paths cover the ground, with their edges roughened by the variation.
+float gravelPath = smoothstep(0.45, 0.55, vSplatPath.y + splatVariation * 0.2);
+float dirtPath = smoothstep(0.45, 0.55, vSplatPath.x + splatVariation * 0.2) * (1.0 - gravelPath);
+float splatUncovered = 1.0 - gravelPath - dirtPath;
+
+// Layers stack bottom to top: grass, dirt, sand, rock, snow, then paths.
+float snowWeight = snowMask * splatUncovered;
+float rockWeight = rockMask * (1.0 - snowMask) * splatUncovered;
+float sandWeight = sandMask * (1.0 - rockMask) * (1.0 - snowMask) * splatUncovered;
+float dirtWeight = dirtMask * (1.0 - sandMask) * (1.0 - rockMask) * (1.0 - snowMask) * splatUncovered + dirtPath;
+float gravelWeight = gravelPath;
+float grassWeight = 1.0 - snowWeight - rockWeight - sandWeight - dirtWeight - gravelWeight;
+
+vec3 splatAlbedoSum = vec3(0.0);
+vec3 splatNormalSum = vec3(0.0);
+float splatWeightSum = 0.0;
+// Grass is a grey detail layer carrying the biome colour of the vertices.
+#ifdef USE_COLOR
+  vec3 grassTint = vColor.rgb * 2.0;
+#else
+  vec3 grassTint = vec3(1.0);
+#endif
+if (grassWeight > 0.01) {
+  sampleSplatLayer(0.0, grassWeight, grassTint, splatPosition, splatSurface, splatBlend, splatAlbedoSum, splatNormalSum);
+  splatWeightSum += grassWeight;
+}
+if (dirtWeight > 0.01) {
+  sampleSplatLayer(1.0, dirtWeight, vec3(1.0), splatPosition, splatSurface, splatBlend, splatAlbedoSum, splatNormalSum);
+  splatWeightSum += dirtWeight;
+}
+if (sandWeight > 0.01) {
+  sampleSplatLayer(2.0, sandWeight, vec3(1.0), splatPosition, splatSurface, splatBlend, splatAlbedoSum, splatNormalSum);
+  splatWeightSum += sandWeight;
+}
+if (rockWeight > 0.01) {
+  sampleSplatLayer(3.0, rockWeight, vec3(1.0), splatPosition, splatSurface, splatBlend, splatAlbedoSum, splatNormalSum);
+  splatWeightSum += rockWeight;
+}
+if (snowWeight > 0.01) {
+  sampleSplatLayer(4.0, snowWeight, vec3(1.0), splatPosition, splatSurface, splatBlend, splatAlbedoSum, splatNormalSum);
+  splatWeightSum += snowWeight;
+}
+if (gravelWeight > 0.01) {
+  sampleSplatLayer(5.0, gravelWeight, vec3(1.0), splatPosition, splatSurface, splatBlend, splatAlbedoSum, splatNormalSum);
+  splatWeightSum += gravelWeight;
+}
+diffuseColor.rgb *= splatAlbedoSum / max(splatWeightSum, 0.0001);
+// Damp ground along the strongest flow.
+diffuseColor.rgb *= 1.0 - 0.25 * smoothstep(0.7, 1.0, vSplatErosion.y);
+`;
+
+export const splatNormalFragment = `
+normal = normalize((viewMatrix * vec4(normalize(splatNormalSum), 0.0)).xyz);
+`;
@@ -0,0 +1,36 @@
+import { NoiseGenerator } from './noise';
+import { createErosionField } from './erosion/erosion-field';
+import { createHydrologyField } from './hydrology/hydrology-field';
+import {
+  ChunkGenerationContext,
+  ChunkGenerationParameters,
+  createHeightSampler,
+} from './terrain-chunk-generator';
+
+/**
+ * Everything chunk generation needs besides the plain parameters. Built once
+ * per worker (or once on the main thread) since the erosion field caches
+ * tiles across chunks.
+ */
+export function createChunkGenerationContext(
+  parameters: ChunkGenerationParameters,
+): ChunkGenerationContext {
+  const { terrain, waterLevel } = parameters;
+  const noiseGenerator = new NoiseGenerator(terrain.seed);
+  const sampleHeight = createHeightSampler({
+    ...parameters,
+    erosion: null,
+    hydrology: null,
+    noiseGenerator,
+  });
+  return {
+    ...parameters,
+    erosion: createErosionField(terrain, sampleHeight),
+    hydrology: createHydrologyField({
+      sampleHeight,
+      seaLevel: waterLevel,
+      terrain,
+    }),
+    noiseGenerator,
+  };
+}
@@ -1,212 +1,147 @@
 import * as THREE from 'three';
 import { ChunkEntry } from './terrain-chunk';
-import { NoiseGenerator } from './noise';
-import {
-  makeSampleFromHeightData,
-  createGrassForChunk,
-  generateTreesForChunk,
-  generateFlowersForChunk,
-} from './terrain-chunk-utilities';
-import {
-  buildGeometry,
-  colorGeometry,
-  createNoiseMaterial,
-  smoothStep,
-} from './terrain-utilities';
-
-export type NoiseRanges = {
-  hillMin: number;
-  hillMax: number;
-  detailMin: number;
-  detailMax: number;
-};
-export type ChunkFactoryParameters = {
-  chunkSize: number;
-  cellSize: number;
-  heightScale: number;
-  waterLevel: number;
-  seed: number;
-  lacunarity: number;
-  hillOctaves: number;
-  detailOctaves: number;
-  hillPersistence: number;
-  detailPersistence: number;
-  hillNoiseScale: number;
-  detailNoiseScale: number;
-  hillAmplitude: number;
-  detailAmplitude: number;
-  elevationExponent: number;
-  flatThreshold: number;
-  flatBlend: number;
-  noiseGenerator: NoiseGenerator;
-  noiseRanges: NoiseRanges;
-  baseTrees: THREE.LOD[];
-  treeNoiseOctaves: number;
-  treeNoisePersistence: number;
-  treeNoiseScale: number;
-  maxTreesPerChunk: number;
-  maxDaisiesPerChunk: number;
-  flowerNoiseScale: number;
-};
-export function generateHeight(
-  width: number,
-  depth: number,
-  parameters: ChunkFactoryParameters,
-  offsetX = 0,
-  offsetZ = 0,
-) {
-  const size = width * depth;
-  const out = new Float32Array(size);
-  const nr = parameters.noiseRanges;
-  const hillRange = nr.hillMax - nr.hillMin || 1;
-  const detailRange = nr.detailMax - nr.detailMin || 1;
-  const edge0 = parameters.flatThreshold - parameters.flatBlend;
-  const edge1 = parameters.flatThreshold + parameters.flatBlend;
-
-  let sampleIndex = 0;
-  for (let dz = 0; dz < depth; dz += 1) {
-    const y = offsetZ + dz;
-    for (let dx = 0; dx < width; dx += 1) {
-      const x = offsetX + dx;
-
-      const hRaw = parameters.noiseGenerator.sampleOctaves(x, y, {
-        lacunarity: parameters.lacunarity,
-        octaves: parameters.hillOctaves,
-        offsetZ: parameters.seed,
-        persistence: parameters.hillPersistence,
-        scale: parameters.hillNoiseScale,
-      });
-
-      const hillNorm = (hRaw - nr.hillMin) / hillRange;
-
-      const mask = smoothStep(hillNorm, edge0, edge1);
-      let detailNorm = 0;
-      if (mask > 0) {
-        const dRaw = parameters.noiseGenerator.sampleOctaves(x, y, {
-          lacunarity: parameters.lacunarity,
-          octaves: parameters.detailOctaves,
-          offsetZ: parameters.seed + 512,
-          persistence: parameters.detailPersistence,
-          scale: parameters.detailNoiseScale,
-        });
-        detailNorm = (dRaw - nr.detailMin) / detailRange;
-      }
-
-      const combined =
-        hillNorm * parameters.hillAmplitude +
-        detailNorm * parameters.detailAmplitude * mask;
-      const clamped = Math.max(0, combined);
-      out[sampleIndex] = clamped ** parameters.elevationExponent;
-      sampleIndex += 1;
-    }
-  }
-
-  return out;
-}
+import { ChunkData, ChunkGenerationContext } from './terrain-chunk-generator';
+import { createGrassForChunk } from './terrain-chunk-utilities';
+import { makeSampleFromHeightData } from './terrain-utilities';
+import { VegetationResources } from './vegetation-resources';
+import { TreeBatch } from './tree-batch';
+import { FlowerBatch } from './flowers/flower-batch';
+import { pathSurfaces } from './paths/terrain-path';
+
+export type ChunkFactoryParameters = ChunkGenerationContext &
+  VegetationResources & {
+    // Shared by every chunk; chunks never dispose it.
+    material: THREE.Material;
+  };
 
+/**
+ * Assemble the renderable chunk from worker output. Only cheap work happens
+ * here: wrapping buffers in attributes and instancing what the scatter placed.
+ */
 export function createChunkEntry(
-  cx: number,
-  cz: number,
+  data: ChunkData,
   parameters: ChunkFactoryParameters,
 ): ChunkEntry {
-  const offsetX = cx * parameters.chunkSize;
-  const offsetZ = cz * parameters.chunkSize;
-  const cw = parameters.chunkSize + 1;
-  const cd = parameters.chunkSize + 1;
-
-  const heightData = generateHeight(cw, cd, parameters, offsetX, offsetZ);
-  for (let hi = 0; hi < heightData.length; hi += 1) {
-    const vertex = heightData[hi];
-    if (!Number.isFinite(vertex) || vertex < 0) heightData[hi] = 0;
-  }
-
-  const { geometry, centerX, centerZ, chunkPlaneWidth, chunkPlaneDepth } =
-    buildGeometry({
-      cw,
-      cd,
-      offsetX,
-      offsetZ,
-      heightData,
-      cellSize: parameters.cellSize,
-      heightScale: parameters.heightScale,
-    });
-
-  colorGeometry({
-    geometry,
-    centerX,
-    centerZ,
-    cellSize: parameters.cellSize,
-    waterLevel: parameters.waterLevel,
-    seed: parameters.seed,
-    noiseGenerator: parameters.noiseGenerator,
-  });
-
-  const material = createNoiseMaterial();
-  const mesh = new THREE.Mesh(geometry, material);
-  mesh.position.set(centerX, 0, centerZ);
-
-  const sampleFromHeightData = makeSampleFromHeightData({
-    heightData,
-    cw,
-    cd,
+  const {
+    terrain,
+    vegetation,
+    treePrototypes,
+    treeBillboards,
+    flowerModels,
+    material,
+  } = parameters;
+  const {
+    cx,
+    cz,
     offsetX,
     offsetZ,
-    cellSize: parameters.cellSize,
-    heightScale: parameters.heightScale,
-  });
-
-  const grass = createGrassForChunk({
-    centerX,
-    centerZ,
-    sample: sampleFromHeightData,
-    width: chunkPlaneWidth,
-    waterLevel: parameters.waterLevel,
-  });
-
-  const trees = generateTreesForChunk({
-    baseTrees: parameters.baseTrees,
-    centerX,
-    centerZ,
-    chunkPlaneWidth,
-    chunkPlaneDepth,
-    sampleFromHeightData,
-    cellSize: parameters.cellSize,
-    noiseGenerator: parameters.noiseGenerator,
-    lacunarity: parameters.lacunarity,
-    treeNoiseOctaves: parameters.treeNoiseOctaves,
-    seed: parameters.seed,
-    treeNoisePersistence: parameters.treeNoisePersistence,
-    treeNoiseScale: parameters.treeNoiseScale,
-    maxTreesPerChunk: parameters.maxTreesPerChunk,
-    waterLevel: parameters.waterLevel,
-  });
-
-  const flowers = generateFlowersForChunk({
+    width: cw,
+    depth: cd,
+    heightData,
+    baseHeightData,
     centerX,
     centerZ,
     chunkPlaneWidth,
-    chunkPlaneDepth,
-    sampleFromHeightData,
-    cellSize: parameters.cellSize,
-    waterLevel: parameters.waterLevel,
-    maxDaisiesPerChunk: parameters.maxDaisiesPerChunk,
-    flowerNoiseScale: parameters.flowerNoiseScale,
-    noiseGenerator: parameters.noiseGenerator,
-    seed: parameters.seed,
-  });
+    positions,
+    normals,
+    colors,
+    uvs,
+    erosion,
+    pathMask,
+    index,
+    trees: placedTrees,
+    flowers: placedFlowers,
+    grass,
+    lod,
+  } = data;
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.setAttribute('erosion', new THREE.BufferAttribute(erosion, 2));
+  geometry.setAttribute(
+    'pathMask',
+    new THREE.BufferAttribute(pathMask, pathSurfaces.length),
+  );
+  geometry.setIndex(new THREE.BufferAttribute(index, 1));
 
-  const objects = [...trees, ...flowers];
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.set(centerX, 0, centerZ);
 
   const entry: ChunkEntry = {
+    baseHeightData,
     depth: cd,
-    grass,
+    flowers: null,
+    grass: null,
     heightData,
+    lod,
     mesh,
-    objects,
     offsetX,
     offsetZ,
+    trees: null,
     width: cw,
   };
 
+  // Trees stand on every chunk, so forests reach the fog as billboards.
+  const trees = placedTrees.flatMap(({ species, variant, x, y, z, scale }) => {
+    const pool = treePrototypes[species];
+    if (pool.length === 0) return [];
+    return [
+      {
+        position: new THREE.Vector3(x, y, z),
+        scale,
+        species,
+        variant: Math.floor(variant * pool.length),
+      },
+    ];
+  });
+  if (trees.length > 0)
+    entry.trees = new TreeBatch({
+      billboards: treeBillboards,
+      centerX,
+      centerZ,
+      cx,
+      cz,
+      impostorDistance: vegetation.treeImpostorDistance,
+      prototypes: treePrototypes,
+      trees,
+    });
+  // Grass and flowers only populate full-detail chunks.
+  if (lod > 0) return entry;
+
+  entry.grass = createGrassForChunk({
+    centerX,
+    centerZ,
+    instances: grass,
+    sample: makeSampleFromHeightData({
+      cd,
+      cellSize: terrain.cellSize,
+      cw,
+      heightData,
+      heightScale: terrain.heightScale,
+      offsetX,
+      offsetZ,
+    }),
+    width: chunkPlaneWidth,
+  });
+  if (placedFlowers.length > 0)
+    entry.flowers = new FlowerBatch({
+      centerX,
+      centerZ,
+      fadeDistance: vegetation.flowerFadeDistance,
+      flowers: placedFlowers.map(
+        ({ kind, x, y, z, rotation, scale, tint }) => ({
+          kind,
+          position: new THREE.Vector3(x, y, z),
+          rotation,
+          scale,
+          tint: new THREE.Color().fromArray(tint),
+        }),
+      ),
+      models: flowerModels,
+      width: chunkPlaneWidth,
+    });
   return entry;
 }
@@ -0,0 +1,288 @@
+import { NoiseGenerator } from './noise';
+import {
+  HeightmapConfig,
+  TerrainConfig,
+  VegetationConfig,
+} from '../config/world-config';
+import { GrassInstanceData } from './grass/grass-utilities';
+import {
+  buildGeometry,
+  colorGeometry,
+  setGridAttribute,
+} from './terrain-utilities';
+import { addSkirts, lodGridSize, lodStep } from './terrain-lod';
+import { createBiomeSampler } from './biomes/biome-sampler';
+import { generateBiomeWeights } from './biomes/biome-map';
+import { ErosionField } from './erosion/erosion-field';
+import { shapeHeights } from './terrain-shaping';
+import { HydrologyField } from './hydrology/hydrology-field';
+import { HeightGrid, createHeightSource } from './height-sources/height-source';
+import { TerrainPath } from './paths/terrain-path';
+import {
+  FlowerPlacement,
+  TreePlacement,
+  scatterVegetation,
+} from './scatter/vegetation-scatter';
+
+export type NoiseRanges = {
+  hillMin: number;
+  hillMax: number;
+  detailMin: number;
+  detailMax: number;
+};
+
+// Plain data only: this is posted to the chunk workers as-is.
+export type ChunkGenerationParameters = {
+  terrain: TerrainConfig;
+  vegetation: VegetationConfig;
+  waterLevel: number;
+  noiseRanges: NoiseRanges;
+  heightmap: HeightmapConfig;
+  // The decoded heightmap, or null when heights come from noise alone.
+  heightGrid: HeightGrid | null;
+};
+
+export type ChunkGenerationContext = ChunkGenerationParameters & {
+  noiseGenerator: NoiseGenerator;
+  // Null when erosion, or rivers and lakes, are switched off in the config.
+  erosion: ErosionField | null;
+  hydrology: HydrologyField | null;
+};
+
+// Changes laid over a chunk's generated terrain, read when its job starts.
+export type ChunkChanges = {
+  // Sculpted deltas for the chunk's height data, if it has any.
+  edits: Float32Array | null;
+  // The parts of laid paths that reach the chunk.
+  paths: TerrainPath[];
+};
+
+export type ChunkData = {
+  cx: number;
+  cz: number;
+  lod: number;
+  offsetX: number;
+  offsetZ: number;
+  width: number;
+  depth: number;
+  centerX: number;
+  centerZ: number;
+  chunkPlaneWidth: number;
+  chunkPlaneDepth: number;
+  heightData: Float32Array;
+  // The heights before sculpting, which edits are reapplied on top of.
+  baseHeightData: Float32Array;
+  // Per height sample, one weight per entry of `biomeDefinitions`.
+  biomeWeights: Float32Array;
+  // Per height sample in 0..1: deposited material and water run-off.
+  sediment: Float32Array;
+  flow: Float32Array;
+  // Per height sample: 1 under a river or lake, otherwise 0.
+  wetness: Float32Array;
+  // Per height sample: world units to the nearest water, for the scatter.
+  waterDistance: Float32Array;
+  positions: Float32Array;
+  normals: Float32Array;
+  colors: Float32Array;
+  uvs: Float32Array;
+  // Sediment and flow per vertex, interleaved.
+  erosion: Float32Array;
+  // Per vertex, one mask per entry of `pathSurfaces`, interleaved.
+  pathMask: Float32Array;
+  // The paths reaching the chunk, which nothing grows on.
+  paths: TerrainPath[];
+  index: Uint16Array | Uint32Array;
+  // What the scatter rules placed; flowers and grass on full detail only.
+  trees: TreePlacement[];
+  flowers: FlowerPlacement[];
+  grass: GrassInstanceData;
+};
+
+// Normalised terrain height at a point in cell units, before `heightScale`.
+export function createHeightSampler(parameters: ChunkGenerationContext) {
+  const source = createHeightSource(parameters);
+  return (x: number, y: number) => source.sample(x, y);
+}
+
+export function generateHeight(
+  width: number,
+  depth: number,
+  parameters: ChunkGenerationContext,
+  offsetX = 0,
+  offsetZ = 0,
+) {
+  const size = width * depth;
+  const out = new Float32Array(size);
+  const sampleHeight = createHeightSampler(parameters);
+
+  for (let dz = 0; dz < depth; dz += 1)
+    for (let dx = 0; dx < width; dx += 1)
+      out[dx + dz * width] = sampleHeight(offsetX + dx, offsetZ + dz);
+
+  return out;
+}
+
+/**
+ * Everything about a chunk that can be computed without a renderer: heights,
+ * vertex buffers and the scattered vegetation. Runs inside the chunk workers.
+ */
+export function generateChunkData(
+  cx: number,
+  cz: number,
+  lod: number,
+  context: ChunkGenerationContext,
+  changes: ChunkChanges,
+): ChunkData {
+  const { terrain } = context;
+  const offsetX = cx * terrain.chunkSize;
+  const offsetZ = cz * terrain.chunkSize;
+  const cw = terrain.chunkSize + 1;
+  const cd = terrain.chunkSize + 1;
+
+  const heightData = generateHeight(cw, cd, context, offsetX, offsetZ);
+  const { paths } = changes;
+  const shaped = shapeHeights(context, {
+    ...changes,
+    depth: cd,
+    heightData,
+    offsetX,
+    offsetZ,
+    width: cw,
+  });
+  const { baseHeightData, sediment, flow, wetness, pathMasks, waterDistance } =
+    shaped;
+
+  const step = lodStep(lod);
+  const { geometry, centerX, centerZ, chunkPlaneWidth, chunkPlaneDepth } =
+    buildGeometry({
+      cw,
+      cd,
+      offsetX,
+      offsetZ,
+      heightData,
+      cellSize: terrain.cellSize,
+      heightScale: terrain.heightScale,
+      step,
+    });
+  // The erosion and path maps, per vertex, for the material.
+  const vertexMaps = { erosion: [sediment, flow], pathMask: pathMasks };
+  for (const [name, maps] of Object.entries(vertexMaps))
+    setGridAttribute({ cd, cw, geometry, maps, name, step });
+
+  const biomes = createBiomeSampler(context);
+  const biomeWeights = generateBiomeWeights({
+    cellSize: terrain.cellSize,
+    depth: cd,
+    heightData,
+    heightScale: terrain.heightScale,
+    offsetX,
+    offsetZ,
+    sampler: biomes,
+    width: cw,
+  });
+  colorGeometry({
+    centerX,
+    centerZ,
+    geometry,
+    palette: (target, x, y, z) => biomes.groundColorAt(x, z, y, target),
+  });
+
+  // Deep enough to cover the largest gap a coarser neighbour can leave.
+  let minHeight = Infinity;
+  let maxHeight = -Infinity;
+  for (const height of heightData) {
+    minHeight = Math.min(minHeight, height);
+    maxHeight = Math.max(maxHeight, height);
+  }
+  const gridSize = lodGridSize(terrain.chunkSize, lod);
+  addSkirts({
+    depth: (maxHeight - minHeight) * terrain.heightScale + terrain.cellSize,
+    geometry,
+    gridDepth: gridSize,
+    gridWidth: gridSize,
+  });
+
+  const { trees, flowers, grass } = scatterVegetation(context, {
+    biomeWeights,
+    centerX,
+    centerZ,
+    depth: cd,
+    flow,
+    heightData,
+    lod,
+    offsetX,
+    offsetZ,
+    paths,
+    waterDistance,
+    wetness,
+    width: cw,
+  });
+
+  const { index, attributes } = geometry;
+  if (!index) throw new Error('Chunk geometry is missing its index');
+
+  return {
+    baseHeightData,
+    biomeWeights,
+    centerX,
+    centerZ,
+    chunkPlaneDepth,
+    chunkPlaneWidth,
+    colors: attributes.color.array as Float32Array,
+    cx,
+    cz,
+    depth: cd,
+    erosion: attributes.erosion.array as Float32Array,
+    flow,
+    flowers,
+    grass,
+    heightData,
+    index: index.array as Uint16Array | Uint32Array,
+    lod,
+    normals: attributes.normal.array as Float32Array,
+    offsetX,
+    offsetZ,
+    pathMask: attributes.pathMask.array as Float32Array,
+    paths,
+    positions: attributes.position.array as Float32Array,
+    sediment,
+    trees,
+    uvs: attributes.uv.array as Float32Array,
+    waterDistance,
+    wetness,
+    width: cw,
+  };
+}
+
+export function getChunkDataTransferables(data: ChunkData): ArrayBuffer[] {
+  const buffers = [
+    data.heightData,
+    data.baseHeightData,
+    data.biomeWeights,
+    data.sediment,
+    data.flow,
+    data.wetness,
+    data.waterDistance,
+    data.positions,
+    data.normals,
+    data.colors,
+    data.uvs,
+    data.erosion,
+    data.pathMask,
+    data.index,
+    data.grass.indices,
+    data.grass.offsets,
+    data.grass.scales,
+    data.grass.halfRootAngles,
+    data.grass.tints,
+  ].map((array) => array.buffer as ArrayBuffer);
+  // Views may share a buffer; transferring one twice throws.
+  return [...new Set(buffers)];
+}
+
+export function getChunkDataByteLength(data: ChunkData) {
+  let total = 0;
+  for (const buffer of getChunkDataTransferables(data))
+    total += buffer.byteLength;
+  return total;
+}
@@ -1,42 +1,55 @@
 import * as THREE from 'three';
 import { Grass } from './grass/grass';
+import { TreeBatch } from './tree-batch';
+import { FlowerBatch } from './flowers/flower-batch';
 
 export interface ChunkEntry {
   mesh: THREE.Mesh;
   heightData: Float32Array;
+  // Heights before sculpting; edits are laid over these.
+  baseHeightData: Float32Array;
   width: number;
   depth: number;
   offsetX: number;
   offsetZ: number;
-  grass: Grass;
-  objects: THREE.Object3D[];
+  lod: number;
+  grass: Grass | null;
+  trees: TreeBatch | null;
+  flowers: FlowerBatch | null;
 }
 
 export class TerrainChunk {
   public mesh: THREE.Mesh;
   public heightData: Float32Array;
+  public baseHeightData: Float32Array;
   public width: number;
   public depth: number;
   public offsetX: number;
   public offsetZ: number;
-  public grass: Grass;
-  public objects: THREE.Object3D[];
+  public lod: number;
+  public grass: Grass | null;
+  public trees: TreeBatch | null;
+  public flowers: FlowerBatch | null;
 
   constructor(entry: ChunkEntry) {
     this.mesh = entry.mesh;
     this.heightData = entry.heightData;
+    this.baseHeightData = entry.baseHeightData;
     this.width = entry.width;
     this.depth = entry.depth;
     this.offsetX = entry.offsetX;
     this.offsetZ = entry.offsetZ;
+    this.lod = entry.lod;
     this.grass = entry.grass;
-    this.objects = entry.objects;
+    this.trees = entry.trees;
+    this.flowers = entry.flowers;
   }
 
   addTo(parent: THREE.Group) {
-    parent.add(this.grass.mesh);
+    if (this.grass) parent.add(this.grass.mesh);
     parent.add(this.mesh);
-    for (const object of this.objects) parent.add(object);
+    if (this.trees) parent.add(this.trees.object);
+    if (this.flowers) parent.add(this.flowers.object);
   }
 
   sampleCellHeight(ix: number, iz: number) {
@@ -52,58 +65,16 @@ export class TerrainChunk {
     // Use camera world position for LOD checks — camera.position may be local.
     const camPos = new THREE.Vector3();
     camera.getWorldPosition(camPos);
-    this.grass.update(camPos);
-    // Update any LOD objects in this chunk (including nested LODs)
-    for (const object of this.objects)
-      object.traverse((child) => {
-        if (child instanceof THREE.LOD) child.update(camera);
-      });
+    this.grass?.update(camPos);
+    this.trees?.update(camPos);
+    this.flowers?.update(camPos);
   }
 
   dispose(parent: THREE.Group) {
     parent.remove(this.mesh);
-    this.grass.dispose(parent);
-
-    const disposeMaterial = (
-      materialParameter: THREE.Material | THREE.Material[] | null | undefined,
-    ) => {
-      if (!materialParameter) return;
-      if (Array.isArray(materialParameter)) {
-        for (const item of materialParameter) {
-          const maybeMap = (
-            item as unknown as {
-              map?: { dispose: () => void };
-            }
-          ).map;
-          if (maybeMap && typeof maybeMap.dispose === 'function')
-            maybeMap.dispose();
-          item.dispose();
-        }
-        return;
-      }
-      const maybeMap = (
-        materialParameter as unknown as {
-          map?: { dispose: () => void };
-        }
-      ).map;
-      if (maybeMap && typeof maybeMap.dispose === 'function')
-        maybeMap.dispose();
-      (materialParameter as unknown as { dispose?: () => void }).dispose?.();
-    };
-
-    for (const object of this.objects) {
-      parent.remove(object);
-      object.traverse((child) => {
-        if (!(child instanceof THREE.Mesh)) return;
-        // Skip disposing shared model resources (e.g., flower prototype assets)
-        const { userData } = child as { userData?: Record<string, unknown> };
-        const isShared = userData?.sharedModel === true;
-        if (isShared) return;
-        const meshObject = child as THREE.Mesh;
-        meshObject.geometry.dispose();
-        disposeMaterial(meshObject.material);
-      });
-    }
+    this.grass?.dispose(parent);
+    this.trees?.dispose(parent);
+    this.flowers?.dispose(parent);
 
     const geom = this.mesh.geometry;
     const mat = this.mesh.material;
@@ -117,7 +88,8 @@ export class TerrainChunk {
           maybeMap.dispose();
         matItem.dispose();
       }
-    } else {
+    } else if (mat.userData.sharedMaterial !== true) {
+      // Shared materials, like the terrain's, outlive any one chunk.
       const maybeMap = (mat as unknown as { map?: { dispose: () => void } })
         .map;
       if (maybeMap && typeof maybeMap.dispose === 'function')
@@ -0,0 +1,125 @@
+import * as THREE from 'three';
+import { TerrainConfig } from '../config/world-config';
+
+// Coarsest level whose vertex step still divides the chunk evenly.
+export function maxChunkLod(chunkSize: number) {
+  let lod = 0;
+  while (chunkSize % 2 ** (lod + 1) === 0) lod += 1;
+  return lod;
+}
+
+export function lodStep(lod: number) {
+  return 2 ** lod;
+}
+
+/**
+ * Geomipmap level for a chunk `ring` chunks away from the player: full detail
+ * up to `lodDistance`, then one level coarser each time the distance doubles.
+ */
+export function chunkLodLevel(ring: number, terrain: TerrainConfig) {
+  if (ring <= terrain.lodDistance) return 0;
+  const level = Math.floor(Math.log2(ring / terrain.lodDistance)) + 1;
+  return Math.min(level, maxChunkLod(terrain.chunkSize));
+}
+
+// Vertices per side of a chunk grid at the given level.
+export function lodGridSize(chunkSize: number, lod: number) {
+  return chunkSize / lodStep(lod) + 1;
+}
+
+function edgeVertices(gridWidth: number, gridDepth: number) {
+  const edges: number[][] = [[], [], [], []];
+  for (let gx = 0; gx < gridWidth; gx += 1) {
+    edges[0].push(gx);
+    edges[1].push(gx + (gridDepth - 1) * gridWidth);
+  }
+  for (let gz = 0; gz < gridDepth; gz += 1) {
+    edges[2].push(gz * gridWidth);
+    edges[3].push(gridWidth - 1 + gz * gridWidth);
+  }
+  // Reverse two edges so every skirt strip winds outwards.
+  edges[0].reverse();
+  edges[3].reverse();
+  return edges;
+}
+
+// Copies each border vertex to its skirt vertex, `depth` lower.
+function fillSkirt(options: {
+  array: Float32Array;
+  name: string;
+  itemSize: number;
+  sources: number[];
+  vertexCount: number;
+  depth: number;
+}) {
+  const { array, name, itemSize, sources, vertexCount, depth } = options;
+  for (const [skirtIndex, vertex] of sources.entries())
+    for (let component = 0; component < itemSize; component += 1)
+      array[(vertexCount + skirtIndex) * itemSize + component] =
+        array[vertex * itemSize + component];
+  if (name === 'position')
+    for (let skirtIndex = 0; skirtIndex < sources.length; skirtIndex += 1)
+      array[(vertexCount + skirtIndex) * 3 + 1] -= depth;
+}
+
+/**
+ * Hang a vertical strip `depth` deep below each border of a grid geometry.
+ * Neighbours at a different level meet at T-junctions; the skirts fill the
+ * resulting gaps. Skirt vertices copy every attribute of their border vertex,
+ * so they are shaded like the surface they extend.
+ */
+export function addSkirts(options: {
+  geometry: THREE.BufferGeometry;
+  gridWidth: number;
+  gridDepth: number;
+  depth: number;
+}) {
+  const { geometry, gridWidth, gridDepth, depth } = options;
+  const { index, attributes } = geometry;
+  if (!index) throw new Error('Skirts need an indexed grid geometry');
+  const vertexCount = gridWidth * gridDepth;
+  const edges = edgeVertices(gridWidth, gridDepth);
+  const sources = edges.flat();
+  const total = vertexCount + sources.length;
+
+  for (const [name, attribute] of Object.entries(attributes)) {
+    const { itemSize } = attribute;
+    const source = attribute.array as Float32Array;
+    const array = new Float32Array(total * itemSize);
+    array.set(source.subarray(0, vertexCount * itemSize));
+    fillSkirt({ array, depth, itemSize, name, sources, vertexCount });
+    geometry.setAttribute(name, new THREE.BufferAttribute(array, itemSize));
+  }
+
+  const indices = [...index.array];
+  let skirtStart = vertexCount;
+  for (const edge of edges) {
+    for (let step = 0; step + 1 < edge.length; step += 1) {
+      const top0 = edge[step];
+      const top1 = edge[step + 1];
+      const bottom0 = skirtStart + step;
+      const bottom1 = skirtStart + step + 1;
+      indices.push(top0, bottom0, top1, top1, bottom0, bottom1);
+    }
+    skirtStart += edge.length;
+  }
+  geometry.setIndex(indices);
+}
+
+// Brings the skirts of `addSkirts` back in line after the grid was reshaped.
+export function refreshSkirts(options: {
+  geometry: THREE.BufferGeometry;
+  gridWidth: number;
+  gridDepth: number;
+  depth: number;
+}) {
+  const { geometry, gridWidth, gridDepth, depth } = options;
+  const sources = edgeVertices(gridWidth, gridDepth).flat();
+  const vertexCount = gridWidth * gridDepth;
+  for (const [name, attribute] of Object.entries(geometry.attributes)) {
+    const array = attribute.array as Float32Array;
+    const { itemSize } = attribute;
+    fillSkirt({ array, depth, itemSize, name, sources, vertexCount });
+    attribute.needsUpdate = true;
+  }
+}
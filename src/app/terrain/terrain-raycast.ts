@@ -0,0 +1,220 @@
+import * as THREE from 'three';
+import { TerrainChunk } from './terrain-chunk';
+import { TerrainSampler } from './terrain-sampler';
+import { FlowerModelKind, flowerModelKinds } from './flowers/flower-models';
+import { makeKey } from './terrain-utilities';
+
+export type TerrainSurface =
+  'water' | 'sand' | 'grass' | 'rock' | 'tree' | 'flower' | 'boulder';
+
+export type TerrainRaycastHit = {
+  distance: number;
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  chunkKey: string;
+  surface: TerrainSurface;
+  // The scattered object that was hit, if any.
+  object: THREE.Object3D | null;
+};
+
+export type TerrainRaycastOptions = {
+  // Also test trees, flowers and rocks of the loaded chunks on the ray's path.
+  objects: boolean;
+  // Stop at the water surface instead of the ground below it.
+  water: boolean;
+};
+
+export type TerrainRaycastContext = {
+  sampler: TerrainSampler;
+  cellSize: number;
+  chunkSize: number;
+  waterLevel: number;
+  getChunk: (cx: number, cz: number) => TerrainChunk | undefined;
+};
+
+// Slope, in radians, above which bare ground counts as rock.
+const ROCK_SLOPE = 0.8;
+const BISECTION_STEPS = 20;
+
+export function classifySurface(
+  height: number,
+  slope: number,
+  waterLevel: number,
+): TerrainSurface {
+  if (slope > ROCK_SLOPE) return 'rock';
+  // Matches the shoreline cutoff of the terrain palette.
+  if (height < waterLevel + 8) return 'sand';
+  return 'grass';
+}
+
+function objectSurface(object: THREE.Object3D): TerrainSurface {
+  // Flower batches name their meshes after the model's kind.
+  if (object.name === 'rock') return 'boulder';
+  return flowerModelKinds.includes(object.name as FlowerModelKind)
+    ? 'flower'
+    : 'tree';
+}
+
+/**
+ * Walk the ray across the height grid one cell at a time (2D DDA). Within a
+ * cell the ray is compared against the bilinear surface at entry and exit;
+ * a sign change is refined by bisection. Visits each chunk the ray crosses.
+ */
+function marchHeightfield(
+  ray: THREE.Ray,
+  maxDistance: number,
+  context: TerrainRaycastContext,
+  visitChunk: (cx: number, cz: number) => void,
+) {
+  const { sampler, cellSize, chunkSize } = context;
+  const { origin, direction } = ray;
+  const above = (distance: number) =>
+    origin.y +
+    direction.y * distance -
+    sampler.getHeightAt(
+      origin.x + direction.x * distance,
+      origin.z + direction.z * distance,
+    );
+
+  let cellX = Math.floor(origin.x / cellSize);
+  let cellZ = Math.floor(origin.z / cellSize);
+  const stepX = Math.sign(direction.x);
+  const stepZ = Math.sign(direction.z);
+  const boundary = (
+    cell: number,
+    step: number,
+    start: number,
+    axis: number,
+  ) => {
+    if (step === 0) return Infinity;
+    const edge = step > 0 ? cell + 1 : cell;
+    return (edge * cellSize - start) / axis;
+  };
+  let nextX = boundary(cellX, stepX, origin.x, direction.x);
+  let nextZ = boundary(cellZ, stepZ, origin.z, direction.z);
+  const deltaX = stepX === 0 ? Infinity : cellSize / Math.abs(direction.x);
+  const deltaZ = stepZ === 0 ? Infinity : cellSize / Math.abs(direction.z);
+
+  let enter = 0;
+  if (above(0) <= 0) return 0;
+  let lastChunk = '';
+  while (enter < maxDistance) {
+    const chunkX = Math.floor(cellX / chunkSize);
+    const chunkZ = Math.floor(cellZ / chunkSize);
+    const chunkKey = makeKey(chunkX, chunkZ);
+    if (chunkKey !== lastChunk) visitChunk(chunkX, chunkZ);
+    lastChunk = chunkKey;
+
+    const exit = Math.min(nextX, nextZ, maxDistance);
+    if (above(exit) <= 0) {
+      let low = enter;
+      let high = exit;
+      for (let step = 0; step < BISECTION_STEPS; step += 1) {
+        const middle = (low + high) / 2;
+        if (above(middle) > 0) low = middle;
+        else high = middle;
+      }
+      return high;
+    }
+    enter = exit;
+    if (nextX < nextZ) {
+      cellX += stepX;
+      nextX += deltaX;
+    } else {
+      cellZ += stepZ;
+      nextZ += deltaZ;
+    }
+  }
+  return null;
+}
+
+export function raycastTerrain(
+  inputRay: THREE.Ray,
+  maxDistance: number,
+  context: TerrainRaycastContext,
+  options: TerrainRaycastOptions,
+): TerrainRaycastHit | null {
+  const { sampler, cellSize, chunkSize, waterLevel } = context;
+  const ray = new THREE.Ray(
+    inputRay.origin.clone(),
+    inputRay.direction.clone().normalize(),
+  );
+  const candidates: THREE.Object3D[] = [];
+  const groundDistance = marchHeightfield(
+    ray,
+    maxDistance,
+    context,
+    (cx, cz) => {
+      const chunk = context.getChunk(cx, cz);
+      if (options.objects && chunk)
+        candidates.push(
+          ...(chunk.flowers ? [chunk.flowers.object] : []),
+          ...(chunk.trees ? [chunk.trees.near] : []),
+        );
+    },
+  );
+
+  let hit: TerrainRaycastHit | null = null;
+  if (groundDistance !== null) {
+    const point = ray.at(groundDistance, new THREE.Vector3());
+    const normal = sampler.getNormalAt(point.x, point.z, new THREE.Vector3());
+    hit = {
+      chunkKey: '',
+      distance: groundDistance,
+      normal,
+      object: null,
+      point,
+      surface: classifySurface(
+        point.y,
+        Math.acos(Math.min(1, normal.y)),
+        waterLevel,
+      ),
+    };
+  }
+
+  if (options.water && ray.direction.y < 0 && ray.origin.y > waterLevel) {
+    const waterDistance = (waterLevel - ray.origin.y) / ray.direction.y;
+    if (waterDistance <= maxDistance && (!hit || waterDistance < hit.distance))
+      hit = {
+        chunkKey: '',
+        distance: waterDistance,
+        normal: new THREE.Vector3(0, 1, 0),
+        object: null,
+        point: ray.at(waterDistance, new THREE.Vector3()),
+        surface: 'water',
+      };
+  }
+
+  if (candidates.length > 0) {
+    const raycaster = new THREE.Raycaster(
+      ray.origin,
+      ray.direction,
+      0,
+      hit ? hit.distance : maxDistance,
+    );
+    const intersections = raycaster.intersectObjects(candidates, true);
+    const [first] = intersections;
+    if (intersections.length > 0)
+      hit = {
+        chunkKey: '',
+        distance: first.distance,
+        normal: first.face
+          ? first.face.normal
+              .clone()
+              .transformDirection(first.object.matrixWorld)
+          : ray.direction.clone().negate(),
+        object: first.object,
+        point: first.point,
+        surface: objectSurface(first.object),
+      };
+  }
+
+  if (!hit) return null;
+  const cellX = Math.floor(hit.point.x / cellSize);
+  const cellZ = Math.floor(hit.point.z / cellSize);
+  hit.chunkKey = makeKey(
+    Math.floor(cellX / chunkSize),
+    Math.floor(cellZ / chunkSize),
+  );
+  return hit;
+}
@@ -0,0 +1,96 @@
+import * as THREE from 'three';
+import { TerrainChunk } from './terrain-chunk';
+
+export type TerrainSamplerOptions = {
+  cellSize: number;
+  chunkSize: number;
+  heightScale: number;
+  // Normalised height of lattice cell (ix, iz) straight from the generator.
+  generateCellHeight: (ix: number, iz: number) => number;
+  // Null where no chunks are loaded, as in the chunk workers.
+  getChunk: ((cx: number, cz: number) => TerrainChunk | undefined) | null;
+};
+
+/**
+ * Height, normal and slope queries anywhere in the world. Cells inside a
+ * loaded chunk read its height data; all others are evaluated with the same
+ * generator the chunk workers use, so both paths agree exactly.
+ */
+export class TerrainSampler {
+  private readonly options: TerrainSamplerOptions;
+
+  constructor(options: TerrainSamplerOptions) {
+    this.options = options;
+  }
+
+  getCellHeight(ix: number, iz: number) {
+    const { chunkSize } = this.options;
+    const chunk = this.options.getChunk?.(
+      Math.floor(ix / chunkSize),
+      Math.floor(iz / chunkSize),
+    );
+    if (chunk) return chunk.sampleCellHeight(ix, iz);
+    return this.options.generateCellHeight(ix, iz);
+  }
+
+  getHeightAt(x: number, z: number) {
+    const { cellSize, heightScale } = this.options;
+    const fx = x / cellSize;
+    const fz = z / cellSize;
+    const ix = Math.floor(fx);
+    const iz = Math.floor(fz);
+    const tx = fx - ix;
+    const tz = fz - iz;
+
+    const h11 = this.getCellHeight(ix, iz);
+    const h21 = this.getCellHeight(ix + 1, iz);
+    const h12 = this.getCellHeight(ix, iz + 1);
+    const h22 = this.getCellHeight(ix + 1, iz + 1);
+
+    const h1 = h11 * (1 - tx) + h21 * tx;
+    const h2 = h12 * (1 - tx) + h22 * tx;
+    return (h1 * (1 - tz) + h2 * tz) * heightScale;
+  }
+
+  // Unit surface normal from central differences one cell apart.
+  getNormalAt(x: number, z: number, target: THREE.Vector3) {
+    const { cellSize } = this.options;
+    const left = this.getHeightAt(x - cellSize, z);
+    const right = this.getHeightAt(x + cellSize, z);
+    const back = this.getHeightAt(x, z - cellSize);
+    const front = this.getHeightAt(x, z + cellSize);
+    return target.set(left - right, 2 * cellSize, back - front).normalize();
+  }
+
+  // Angle between the surface and the horizontal plane, in radians.
+  getSlopeAt(x: number, z: number) {
+    const normal = this.getNormalAt(x, z, new THREE.Vector3());
+    return Math.acos(Math.min(1, normal.y));
+  }
+
+  /**
+   * Batch query over interleaved (x, z) pairs. Fills whichever outputs are
+   * given: one height and one slope per pair, three normal components.
+   */
+  sampleBatch(
+    positions: ArrayLike<number>,
+    outputs: {
+      heights: Float32Array | null;
+      normals: Float32Array | null;
+      slopes: Float32Array | null;
+    },
+  ) {
+    const { heights, normals, slopes } = outputs;
+    const normal = new THREE.Vector3();
+    const count = Math.floor(positions.length / 2);
+    for (let index = 0; index < count; index += 1) {
+      const x = positions[index * 2];
+      const z = positions[index * 2 + 1];
+      if (heights) heights[index] = this.getHeightAt(x, z);
+      if (!normals && !slopes) continue;
+      this.getNormalAt(x, z, normal);
+      if (normals) normal.toArray(normals, index * 3);
+      if (slopes) slopes[index] = Math.acos(Math.min(1, normal.y));
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+import { TerrainChunk } from './terrain-chunk';
+import { lodGridSize } from './terrain-lod';
+import { makeKey } from './terrain-utilities';
+
+export function getChunkNormalArray(chunk: TerrainChunk) {
+  const geom = chunk.mesh.geometry as unknown as {
+    attributes?: { normal?: THREE.BufferAttribute };
+  };
+  const attribute = geom.attributes?.normal;
+  if (!attribute) return null;
+  return { array: attribute.array as Float32Array, attr: attribute };
+}
+
+export function mergeBorderNormals(options: {
+  arrayA: Float32Array;
+  attributeA: THREE.BufferAttribute;
+  arrayB: Float32Array;
+  attributeB: THREE.BufferAttribute;
+  cw: number;
+  cd: number;
+  orientation: 'x' | 'z';
+}) {
+  const { arrayA, attributeA, arrayB, attributeB, cw, cd, orientation } =
+    options;
+  if (orientation === 'x') {
+    for (let lz = 0; lz < cd; lz += 1) {
+      const ia = cw - 1 + lz * cw;
+      const ib = 0 + lz * cw;
+      const ax = arrayA[ia * 3];
+      const ay = arrayA[ia * 3 + 1];
+      const az = arrayA[ia * 3 + 2];
+      const bx = arrayB[ib * 3];
+      const by = arrayB[ib * 3 + 1];
+      const bz = arrayB[ib * 3 + 2];
+      const mx = (ax + bx) * 0.5;
+      const my = (ay + by) * 0.5;
+      const mz = (az + bz) * 0.5;
+      arrayA[ia * 3] = mx;
+      arrayA[ia * 3 + 1] = my;
+      arrayA[ia * 3 + 2] = mz;
+      arrayB[ib * 3] = mx;
+      arrayB[ib * 3 + 1] = my;
+      arrayB[ib * 3 + 2] = mz;
+    }
+  } else {
+    for (let lx = 0; lx < cw; lx += 1) {
+      const ia = lx + (cd - 1) * cw;
+      const ib = lx + 0 * cw;
+      const ax = arrayA[ia * 3];
+      const ay = arrayA[ia * 3 + 1];
+      const az = arrayA[ia * 3 + 2];
+      const bx = arrayB[ib * 3];
+      const by = arrayB[ib * 3 + 1];
+      const bz = arrayB[ib * 3 + 2];
+      const mx = (ax + bx) * 0.5;
+      const my = (ay + by) * 0.5;
+      const mz = (az + bz) * 0.5;
+      arrayA[ia * 3] = mx;
+      arrayA[ia * 3 + 1] = my;
+      arrayA[ia * 3 + 2] = mz;
+      arrayB[ib * 3] = mx;
+      arrayB[ib * 3 + 1] = my;
+      arrayB[ib * 3 + 2] = mz;
+    }
+  }
+  attributeA.needsUpdate = true;
+  attributeB.needsUpdate = true;
+}
+
+// Merge border normals with same-level neighbours; skirts hide the rest.
+export function smoothChunkBorders(options: {
+  chunks: Map<string, TerrainChunk>;
+  chunkSize: number;
+  cx: number;
+  cz: number;
+  lod: number;
+}) {
+  const { chunks, chunkSize, cx, cz, lod } = options;
+  const gridSize = lodGridSize(chunkSize, lod);
+  const borders = [
+    { low: makeKey(cx - 1, cz), high: makeKey(cx, cz), orientation: 'x' },
+    { low: makeKey(cx, cz), high: makeKey(cx + 1, cz), orientation: 'x' },
+    { low: makeKey(cx, cz - 1), high: makeKey(cx, cz), orientation: 'z' },
+    { low: makeKey(cx, cz), high: makeKey(cx, cz + 1), orientation: 'z' },
+  ] as const;
+
+  for (const border of borders) {
+    const lowChunk = chunks.get(border.low);
+    const highChunk = chunks.get(border.high);
+    const normalsA = lowChunk ? getChunkNormalArray(lowChunk) : null;
+    const normalsB = highChunk ? getChunkNormalArray(highChunk) : null;
+    if (!normalsA || !normalsB) continue;
+    if (lowChunk?.lod !== lod || highChunk?.lod !== lod) continue;
+    mergeBorderNormals({
+      arrayA: normalsA.array,
+      attributeA: normalsA.attr,
+      arrayB: normalsB.array,
+      attributeB: normalsB.attr,
+      cw: gridSize,
+      cd: gridSize,
+      orientation: border.orientation,
+    });
+  }
+}
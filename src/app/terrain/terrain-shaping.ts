@@ -0,0 +1,73 @@
+import { ChunkGenerationContext } from './terrain-chunk-generator';
+import { createHeightSource } from './height-sources/height-source';
+import { TerrainPath } from './paths/terrain-path';
+import { applyPaths } from './paths/path-shaping';
+import {
+  WATER_SEARCH_RADIUS,
+  measureWaterDistance,
+} from './hydrology/water-distance';
+
+// Adds sculpted deltas to `base`, keeping heights finite and above zero.
+export function applyHeightEdits(options: {
+  base: Float32Array;
+  edits: Float32Array | null;
+  target: Float32Array;
+}) {
+  const { base, edits, target } = options;
+  for (let index = 0; index < target.length; index += 1) {
+    const height = base[index] + (edits ? edits[index] : 0);
+    target[index] = Number.isFinite(height) && height > 0 ? height : 0;
+  }
+}
+
+// Raw heights shaped by erosion and rivers, matching chunk height data.
+export function createSurfaceHeightSampler(context: ChunkGenerationContext) {
+  const source = createHeightSource(context);
+  const { erosion, hydrology } = context;
+  return (ix: number, iz: number) => {
+    let height = source.sample(ix, iz);
+    if (erosion) height += erosion.sampleCell(ix, iz);
+    return hydrology ? hydrology.carveCell(ix, iz, height) : height;
+  };
+}
+
+/**
+ * Runs erosion and river carving over raw chunk heights in place, flattens
+ * them under paths, then lays sculpted edits on top. Returns the maps
+ * erosion, rivers and paths leave behind for the material and the scatter,
+ * the distance to water, and the heights before the edits.
+ */
+export function shapeHeights(
+  context: ChunkGenerationContext,
+  grid: {
+    heightData: Float32Array;
+    edits: Float32Array | null;
+    paths: readonly TerrainPath[];
+    width: number;
+    depth: number;
+    offsetX: number;
+    offsetZ: number;
+  },
+) {
+  const { erosion, hydrology, terrain } = context;
+  const { heightData, edits, width, depth } = grid;
+  const count = width * depth;
+  const sediment = new Float32Array(count);
+  const flow = new Float32Array(count);
+  const wetness = new Float32Array(count);
+  erosion?.apply({ ...grid, flow, sediment });
+  hydrology?.apply({ ...grid, wetness });
+  const pathMasks = applyPaths({
+    ...grid,
+    cellSize: terrain.cellSize,
+    heightScale: terrain.heightScale,
+  });
+  const baseHeightData = Float32Array.from(heightData);
+  applyHeightEdits({ base: baseHeightData, edits, target: heightData });
+  const waterDistance = measureWaterDistance(context, {
+    ...grid,
+    radius: WATER_SEARCH_RADIUS,
+    wetness,
+  });
+  return { baseHeightData, flow, pathMasks, sediment, waterDistance, wetness };
+}
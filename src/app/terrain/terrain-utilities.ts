@@ -1,71 +1,6 @@
 import * as THREE from 'three';
-import { TerrainChunk } from './terrain-chunk';
-import { NoiseGenerator } from './noise';
-
-export function getChunkNormalArray(chunk: TerrainChunk) {
-  const geom = chunk.mesh.geometry as unknown as {
-    attributes?: { normal?: THREE.BufferAttribute };
-  };
-  const attribute = geom.attributes?.normal;
-  if (!attribute) return null;
-  return { array: attribute.array as Float32Array, attr: attribute };
-}
-
-export function mergeBorderNormals(options: {
-  arrayA: Float32Array;
-  attributeA: THREE.BufferAttribute;
-  arrayB: Float32Array;
-  attributeB: THREE.BufferAttribute;
-  cw: number;
-  cd: number;
-  orientation: 'x' | 'z';
-}) {
-  const { arrayA, attributeA, arrayB, attributeB, cw, cd, orientation } =
-    options;
-  if (orientation === 'x') {
-    for (let lz = 0; lz < cd; lz += 1) {
-      const ia = cw - 1 + lz * cw;
-      const ib = 0 + lz * cw;
-      const ax = arrayA[ia * 3];
-      const ay = arrayA[ia * 3 + 1];
-      const az = arrayA[ia * 3 + 2];
-      const bx = arrayB[ib * 3];
-      const by = arrayB[ib * 3 + 1];
-      const bz = arrayB[ib * 3 + 2];
-      const mx = (ax + bx) * 0.5;
-      const my = (ay + by) * 0.5;
-      const mz = (az + bz) * 0.5;
-      arrayA[ia * 3] = mx;
-      arrayA[ia * 3 + 1] = my;
-      arrayA[ia * 3 + 2] = mz;
-      arrayB[ib * 3] = mx;
-      arrayB[ib * 3 + 1] = my;
-      arrayB[ib * 3 + 2] = mz;
-    }
-  } else {
-    for (let lx = 0; lx < cw; lx += 1) {
-      const ia = lx + (cd - 1) * cw;
-      const ib = lx + 0 * cw;
-      const ax = arrayA[ia * 3];
-      const ay = arrayA[ia * 3 + 1];
-      const az = arrayA[ia * 3 + 2];
-      const bx = arrayB[ib * 3];
-      const by = arrayB[ib * 3 + 1];
-      const bz = arrayB[ib * 3 + 2];
-      const mx = (ax + bx) * 0.5;
-      const my = (ay + by) * 0.5;
-      const mz = (az + bz) * 0.5;
-      arrayA[ia * 3] = mx;
-      arrayA[ia * 3 + 1] = my;
-      arrayA[ia * 3 + 2] = mz;
-      arrayB[ib * 3] = mx;
-      arrayB[ib * 3 + 1] = my;
-      arrayB[ib * 3 + 2] = mz;
-    }
-  }
-  attributeA.needsUpdate = true;
-  attributeB.needsUpdate = true;
-}
+import { NoiseGenerator, NoiseOptions } from './noise';
+import { TerrainConfig } from '../config/world-config';
 
 export function smoothStep(value: number, edgeLo: number, edgeHi: number) {
   const tval = Math.max(
@@ -75,26 +10,8 @@ export function smoothStep(value: number, edgeLo: number, edgeHi: number) {
   return tval * tval * (3 - 2 * tval);
 }
 
-export function createNoiseMaterial() {
-  const noiseSize = 256;
-  const noiseData = new Uint8Array(noiseSize * noiseSize);
-  for (let index = 0; index < noiseData.length; index += 1)
-    noiseData[index] = Math.floor(Math.random() * 256);
-  const noiseTex = new THREE.DataTexture(
-    noiseData,
-    noiseSize,
-    noiseSize,
-    THREE.RedFormat,
-  );
-  noiseTex.wrapS = THREE.RepeatWrapping;
-  noiseTex.wrapT = THREE.RepeatWrapping;
-  noiseTex.minFilter = THREE.LinearFilter;
-  noiseTex.magFilter = THREE.LinearFilter;
-  noiseTex.repeat.set(8, 8);
-  noiseTex.needsUpdate = true;
+export function createTerrainMaterial() {
   return new THREE.MeshPhysicalMaterial({
-    bumpMap: noiseTex,
-    bumpScale: 2,
     color: new THREE.Color('#ffffff'),
     envMapIntensity: 0,
     metalness: 0,
@@ -113,28 +30,33 @@ export function buildGeometry(options: {
   heightData: Float32Array;
   cellSize: number;
   heightScale: number;
+  // Sample every `step`-th height; 1 is full resolution.
+  step: number;
 }) {
-  const { cw, cd, offsetX, offsetZ, heightData, cellSize, heightScale } =
+  const { cw, cd, offsetX, offsetZ, heightData, cellSize, heightScale, step } =
     options;
   const chunkPlaneWidth = (cw - 1) * cellSize;
   const chunkPlaneDepth = (cd - 1) * cellSize;
+  const gridWidth = (cw - 1) / step + 1;
   const geometry = new THREE.PlaneGeometry(
     chunkPlaneWidth,
     chunkPlaneDepth,
-    cw - 1,
-    cd - 1,
+    gridWidth - 1,
+    (cd - 1) / step,
   );
   geometry.rotateX(-Math.PI / 2);
 
   const vertices = geometry.attributes.position.array as Float32Array;
-  for (let vi = 0, si = 0; vi < vertices.length; vi += 3, si += 1)
-    vertices[vi + 1] = heightData[si] * heightScale;
+  for (let vi = 0, si = 0; vi < vertices.length; vi += 3, si += 1) {
+    const gx = (si % gridWidth) * step;
+    const gz = Math.floor(si / gridWidth) * step;
+    vertices[vi + 1] = heightData[gx + gz * cw] * heightScale;
+  }
 
   geometry.attributes.position.needsUpdate = true;
   geometry.computeVertexNormals();
   const normalAttribute = geometry.attributes.normal as
-    | THREE.BufferAttribute
-    | undefined;
+    THREE.BufferAttribute | undefined;
   if (normalAttribute) normalAttribute.needsUpdate = true;
 
   const centerX = (offsetX + (cw - 1) / 2) * cellSize;
@@ -142,53 +64,53 @@ export function buildGeometry(options: {
   return { geometry, centerX, centerZ, chunkPlaneWidth, chunkPlaneDepth };
 }
 
+// Per-vertex attribute interleaving `maps`, laid out like `buildGeometry`.
+export function setGridAttribute(options: {
+  geometry: THREE.BufferGeometry;
+  name: string;
+  maps: Float32Array[];
+  cw: number;
+  cd: number;
+  step: number;
+}) {
+  const { geometry, name, maps, cw, cd, step } = options;
+  const gridWidth = (cw - 1) / step + 1;
+  const gridDepth = (cd - 1) / step + 1;
+  const out = new Float32Array(gridWidth * gridDepth * maps.length);
+  let outIndex = 0;
+  for (let gz = 0; gz < gridDepth; gz += 1)
+    for (let gx = 0; gx < gridWidth; gx += 1)
+      for (const map of maps) {
+        out[outIndex] = map[gx * step + gz * step * cw];
+        outIndex += 1;
+      }
+  geometry.setAttribute(name, new THREE.BufferAttribute(out, maps.length));
+}
+
+// Writes the colour at world position (x, y, z) to `target`.
+export type TerrainPalette = (
+  target: THREE.Color,
+  x: number,
+  y: number,
+  z: number,
+) => THREE.Color;
+
 export function colorGeometry(options: {
   geometry: THREE.BufferGeometry;
   centerX: number;
   centerZ: number;
-  cellSize: number;
-  waterLevel: number;
-  seed: number;
-  noiseGenerator: NoiseGenerator;
+  palette: TerrainPalette;
 }) {
-  const {
-    geometry,
-    centerX,
-    centerZ,
-    cellSize,
-    waterLevel,
-    seed,
-    noiseGenerator,
-  } = options;
+  const { geometry, centerX, centerZ, palette } = options;
   const pos = geometry.attributes.position.array as Float32Array;
   const vertCount = pos.length / 3;
   const colors = new Float32Array(vertCount * 3);
-  const sand = new THREE.Color('hsl(40, 44%, 70%)');
-  const grassColor = new THREE.Color('hsl(80, 40%, 15%)');
-  const cutoff = waterLevel + 8;
-  const fuzz = 6;
-  const fuzzHalf = fuzz * 0.5;
-  const noiseAmp = 4;
-  const noiseOptions = {
-    lacunarity: 2,
-    octaves: 3,
-    offsetZ: seed + 1024,
-    persistence: 0.5,
-    scale: 0.02,
-  } as const;
   const temporary = new THREE.Color();
   for (let vi = 0; vi < vertCount; vi += 1) {
     const y = pos[vi * 3 + 1];
-    const localX = pos[vi * 3 + 0];
-    const localZ = pos[vi * 3 + 2];
-    const worldX = centerX + localX;
-    const worldZ = centerZ + localZ;
-    const sx = worldX / cellSize;
-    const sz = worldZ / cellSize;
-    const noiseValue = noiseGenerator.sampleOctaves(sx, sz, noiseOptions);
-    const localCutoff = cutoff + noiseValue * noiseAmp;
-    const blend = smoothStep(y, localCutoff - fuzzHalf, localCutoff + fuzzHalf);
-    temporary.lerpColors(sand, grassColor, blend);
+    const worldX = centerX + pos[vi * 3 + 0];
+    const worldZ = centerZ + pos[vi * 3 + 2];
+    palette(temporary, worldX, y, worldZ);
     colors[vi * 3] = temporary.r;
     colors[vi * 3 + 1] = temporary.g;
     colors[vi * 3 + 2] = temporary.b;
@@ -196,20 +118,39 @@ export function colorGeometry(options: {
   geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3, false));
 }
 
+export function hillNoiseOptions(terrain: TerrainConfig): NoiseOptions {
+  return {
+    basis: terrain.hillNoiseBasis,
+    fractal: terrain.hillNoiseFractal,
+    lacunarity: terrain.lacunarity,
+    octaves: terrain.hillOctaves,
+    offsetZ: terrain.seed,
+    persistence: terrain.hillPersistence,
+    scale: terrain.hillNoiseScale,
+    warpScale: terrain.warpScale,
+    warpStrength: terrain.warpStrength,
+  };
+}
+
+export function detailNoiseOptions(terrain: TerrainConfig): NoiseOptions {
+  return {
+    basis: 'perlin',
+    fractal: 'fbm',
+    lacunarity: terrain.lacunarity,
+    octaves: terrain.detailOctaves,
+    offsetZ: terrain.seed + 512,
+    persistence: terrain.detailPersistence,
+    scale: terrain.detailNoiseScale,
+    warpScale: terrain.warpScale,
+    warpStrength: terrain.warpStrength,
+  };
+}
+
 export function computeNoiseRanges(
   noiseGenerator: NoiseGenerator,
   width: number,
   depth: number,
-  options: {
-    lacunarity: number;
-    hillOctaves: number;
-    detailOctaves: number;
-    seed: number;
-    hillPersistence: number;
-    detailPersistence: number;
-    hillNoiseScale: number;
-    detailNoiseScale: number;
-  },
+  terrain: TerrainConfig,
 ) {
   let hillMin = Infinity;
   let hillMax = -Infinity;
@@ -217,27 +158,16 @@ export function computeNoiseRanges(
   let detailMax = -Infinity;
   const startX = -Math.floor(width / 2);
   const startY = -Math.floor(depth / 2);
+  const hillOptions = hillNoiseOptions(terrain);
+  const detailOptions = detailNoiseOptions(terrain);
 
   for (let dz = 0; dz < depth; dz += 1) {
     const y = startY + dz;
     for (let dx = 0; dx < width; dx += 1) {
       const x = startX + dx;
 
-      const hValue = noiseGenerator.sampleOctaves(x, y, {
-        lacunarity: options.lacunarity,
-        octaves: options.hillOctaves,
-        offsetZ: options.seed,
-        persistence: options.hillPersistence,
-        scale: options.hillNoiseScale,
-      });
-
-      const dValue = noiseGenerator.sampleOctaves(x, y, {
-        lacunarity: options.lacunarity,
-        octaves: options.detailOctaves,
-        offsetZ: options.seed + 512,
-        persistence: options.detailPersistence,
-        scale: options.detailNoiseScale,
-      });
+      const hValue = noiseGenerator.sample(x, y, hillOptions);
+      const dValue = noiseGenerator.sample(x, y, detailOptions);
 
       if (hValue < hillMin) hillMin = hValue;
       if (hValue > hillMax) hillMax = hValue;
@@ -249,6 +179,42 @@ export function computeNoiseRanges(
   return { detailMax, detailMin, hillMax, hillMin };
 }
 
+export function makeSampleFromHeightData(options: {
+  heightData: Float32Array;
+  cw: number;
+  cd: number;
+  offsetX: number;
+  offsetZ: number;
+  cellSize: number;
+  heightScale: number;
+}) {
+  const { heightData, cw, cd, offsetX, offsetZ, cellSize, heightScale } =
+    options;
+
+  return (x: number, z: number) => {
+    const fx = x / cellSize;
+    const fz = z / cellSize;
+    const ix = Math.floor(fx);
+    const iz = Math.floor(fz);
+    const tx = fx - ix;
+    const tz = fz - iz;
+    const lx = ix - offsetX;
+    const lz = iz - offsetZ;
+    if (lx < 0 || lz < 0 || lx + 1 >= cw || lz + 1 >= cd) return 0;
+    const index11 = lx + lz * cw;
+    const index21 = lx + 1 + lz * cw;
+    const index12 = lx + (lz + 1) * cw;
+    const index22 = lx + 1 + (lz + 1) * cw;
+    const h11 = heightData[index11] || 0;
+    const h21 = heightData[index21] || 0;
+    const h12 = heightData[index12] || 0;
+    const h22 = heightData[index22] || 0;
+    const h1 = h11 * (1 - tx) + h21 * tx;
+    const h2 = h12 * (1 - tx) + h22 * tx;
+    return (h1 * (1 - tz) + h2 * tz) * heightScale;
+  };
+}
+
 export function makeKey(cx: number, cz: number) {
   return [cx, cz].join(',');
 }
@@ -3,186 +3,205 @@ import { TerrainChunk } from './terrain-chunk';
 import { Grass } from './grass/grass';
 import { NoiseGenerator } from './noise';
 import { SkyController } from '../sky/sky';
-import { Tree } from '@dgreenheck/ez-tree';
+import { TerrainConfig, WorldConfig } from '../config/world-config';
 import {
   createChunkEntry,
   ChunkFactoryParameters,
-  NoiseRanges,
 } from './terrain-chunk-factory';
 import {
-  computeNoiseRanges,
-  getChunkNormalArray,
-  mergeBorderNormals,
-  makeKey,
-} from './terrain-utilities';
+  ChunkChanges,
+  ChunkData,
+  ChunkGenerationContext,
+  ChunkGenerationParameters,
+  getChunkDataByteLength,
+} from './terrain-chunk-generator';
+import { createChunkGenerationContext } from './terrain-chunk-context';
+import { createSurfaceHeightSampler } from './terrain-shaping';
+import { LruCache } from '../lru-cache';
+import { ChunkWorkerPool } from './workers/chunk-worker-pool';
+import { ChunkStreamer } from './chunk-streamer';
+import { computeNoiseRanges, makeKey } from './terrain-utilities';
+import { HorizonRing, createHorizonRing } from './horizon-ring';
+import { WaterBodies } from './hydrology/water-bodies';
+import { TerrainSampler } from './terrain-sampler';
+import {
+  TerrainRaycastHit,
+  TerrainRaycastOptions,
+  raycastTerrain,
+} from './terrain-raycast';
+import { smoothChunkBorders } from './terrain-seams';
+import { chunkLodLevel } from './terrain-lod';
+import { createVegetationResources } from './vegetation-resources';
+import { createSplatMaterial } from './splat/splat-material';
+import { TerrainEdits } from './sculpt/terrain-edits';
+import { TerrainPaths } from './paths/terrain-paths';
+import { reshapeChunk, reshapeChunks } from './sculpt/chunk-reshape';
+import { HeightGrid } from './height-sources/height-source';
+import { AssetReport } from '../assets/asset-preloader';
 
 export class Terrain extends THREE.Group {
-  private chunkSize = 8;
-  private heightScale = 36;
-  private lacunarity = 2;
-  private seed = 42;
-  private elevationExponent = 1.6;
-  private hillNoiseScale = 0.008;
-  private detailNoiseScale = 0.06;
-  private hillOctaves = 5;
-  private detailOctaves = 5;
-  private hillPersistence = 0.65;
-  private detailPersistence = 0.5;
-  private hillAmplitude = 2;
-  private detailAmplitude = 0.9;
-  private flatThreshold = 0.35;
-  private flatBlend = 0.12;
-  private cellSize = 4096 / (200 - 1);
-  private lastChunkX?: number;
-  private lastChunkZ?: number;
-  private chunks: Map<string, TerrainChunk> = new Map();
-  private noiseRanges: {
-    hillMin: number;
-    hillMax: number;
-    detailMin: number;
-    detailMax: number;
-  };
-  private noiseGenerator: NoiseGenerator;
-  private chunkRadius = 3;
-  private waterLevel = 16;
+  private readonly config: WorldConfig;
+  private readonly terrainConfig: TerrainConfig;
+  // Chunk the player was last in; construction loads around chunk (0,0).
+  private lastChunkX = 0;
+  private lastChunkZ = 0;
+  public readonly chunks: Map<string, TerrainChunk> = new Map();
+  public readonly context: ChunkGenerationContext;
   private skyController: SkyController;
-  private treePoolSize = 8;
-  private baseTrees: THREE.LOD[] = [];
-  private treeNoiseScale = 0.025;
-  private treeNoiseOctaves = 3;
-  private treeNoisePersistence = 0.55;
-  private maxTreesPerChunk = 16;
-  private maxDaisiesPerChunk = 48;
-  private flowerNoiseScale = 0.12;
+  // Context, shared models and material every chunk is assembled with.
+  private readonly chunkParameters: ChunkFactoryParameters;
+  public readonly streamer: ChunkStreamer;
+  public readonly sampler: TerrainSampler;
+  // Sculpted changes, laid over every chunk as it is generated.
+  public readonly edits: TerrainEdits;
+  // Laid paths, flattened into the ground beneath the edits.
+  public readonly paths: TerrainPaths;
+  private horizon: HorizonRing | null = null;
+  private water: WaterBodies | null = null;
 
-  constructor(skyController: SkyController) {
+  constructor(
+    skyController: SkyController,
+    config: WorldConfig,
+    // Decoded `config.heightmap`, or null for heights from noise alone.
+    heightGrid: HeightGrid | null,
+    assets: AssetReport,
+    renderer: THREE.WebGLRenderer,
+  ) {
     super();
+    this.config = config;
+    this.terrainConfig = config.terrain;
     this.skyController = skyController;
-    this.noiseGenerator = new NoiseGenerator();
-    // Pre-generate a small pool of tree prototypes to clone per-chunk
-    for (let index = 0; index < this.treePoolSize; index += 1) {
-      const treePrototype = new Tree();
-      treePrototype.options.seed = Math.random() * 12_345;
-      treePrototype.generate();
-      const treeLod = new THREE.LOD();
-      treeLod.addLevel(treePrototype, 0);
-      treeLod.addLevel(new THREE.Object3D(), 320);
-      this.baseTrees.push(treeLod);
-    }
+    const vegetation = createVegetationResources({
+      flowerFadeDistance: config.vegetation.flowerFadeDistance,
+      missingAssets: assets.missing,
+      poolSize: config.vegetation.treePoolSize,
+      renderer,
+      seed: config.terrain.seed,
+    });
+    this.add(vegetation.treeBillboards.object);
+    const material = createSplatMaterial({
+      rockSlope: config.terrain.rockSlope,
+      // Matches the shoreline cutoff of the biome colours.
+      sandLine: config.water.level + 8,
+      seed: config.terrain.seed,
+      snowLine: config.terrain.snowLine,
+      textureSize: config.terrain.splatTextureSize,
+      tileSize: config.terrain.splatTileSize,
+    });
     const sampleChunks = 4;
-    this.noiseRanges = computeNoiseRanges(
-      this.noiseGenerator,
-      this.chunkSize * sampleChunks,
-      this.chunkSize * sampleChunks,
-      {
-        lacunarity: this.lacunarity,
-        hillOctaves: this.hillOctaves,
-        detailOctaves: this.detailOctaves,
-        seed: this.seed,
-        hillPersistence: this.hillPersistence,
-        detailPersistence: this.detailPersistence,
-        hillNoiseScale: this.hillNoiseScale,
-        detailNoiseScale: this.detailNoiseScale,
-      },
+    const parameters: ChunkGenerationParameters = {
+      heightGrid,
+      heightmap: config.heightmap,
+      noiseRanges: computeNoiseRanges(
+        new NoiseGenerator(config.terrain.seed),
+        this.terrainConfig.chunkSize * sampleChunks,
+        this.terrainConfig.chunkSize * sampleChunks,
+        this.terrainConfig,
+      ),
+      terrain: this.terrainConfig,
+      vegetation: config.vegetation,
+      waterLevel: config.water.level,
+    };
+    this.context = createChunkGenerationContext(parameters);
+    this.chunkParameters = { ...this.context, ...vegetation, material };
+    this.edits = new TerrainEdits({ chunkSize: this.terrainConfig.chunkSize });
+    this.paths = new TerrainPaths(this.terrainConfig);
+    const generateCellHeight = createSurfaceHeightSampler(this.context);
+    this.sampler = new TerrainSampler({
+      cellSize: this.terrainConfig.cellSize,
+      chunkSize: this.terrainConfig.chunkSize,
+      generateCellHeight: (ix, iz) =>
+        this.paths.shapeCell(ix, iz, generateCellHeight(ix, iz)) +
+        this.edits.sampleCell(ix, iz),
+      getChunk: (cx, cz) => this.chunks.get(makeKey(cx, cz)),
+      heightScale: this.terrainConfig.heightScale,
+    });
+
+    const workerCount = Math.max(
+      1,
+      Math.min(4, (navigator.hardwareConcurrency || 2) - 1),
+    );
+    const pool = new ChunkWorkerPool(parameters, workerCount, (cx, cz) =>
+      this.chunkChanges(cx, cz),
     );
+    this.streamer = new ChunkStreamer({
+      cache: new LruCache<ChunkData>({
+        budget: this.terrainConfig.chunkCacheBudget * 1024 * 1024,
+        sizeOf: getChunkDataByteLength,
+      }),
+      frameBudget: this.terrainConfig.streamFrameBudget,
+      load: (data) => {
+        this.createChunk(data);
+      },
+      lodFor: (ring) => chunkLodLevel(ring, this.terrainConfig),
+      maxRequests: workerCount * 2,
+      pool,
+      unload: (cx, cz) => {
+        this.disposeChunk(cx, cz);
+      },
+    });
+
+    this.horizon = createHorizonRing(config, this.context);
+    if (this.horizon) this.add(this.horizon);
+    if (this.context.hydrology) {
+      this.water = new WaterBodies({
+        cellSize: this.terrainConfig.cellSize,
+        color: config.water.color,
+        hydrology: this.context.hydrology,
+        radius: 1,
+      });
+      this.add(this.water);
+    }
 
     // Load an initial area around origin (player at 0,0)
     this.updateChunks(0, 0);
-    // With the new mapping, cell (0,0) sits at world position (0,0).
-    const gx0 = 0 / this.cellSize;
-    const gz0 = 0 / this.cellSize;
-    this.lastChunkX = Math.floor(gx0 / this.chunkSize);
-    this.lastChunkZ = Math.floor(gz0 / this.chunkSize);
   }
 
-  private smoothChunkBorders() {
-    const cw = this.chunkSize + 1;
-    const cd = this.chunkSize + 1;
-
-    for (const key of this.chunks.keys()) {
-      const [cx, cz] = key.split(',').map(Number);
-      const chunk = this.chunks.get(key);
-      if (!chunk) continue;
-      const source = getChunkNormalArray(chunk);
-      if (!source) continue;
-
-      // Neighbor +X
-      const right = this.chunks.get(makeKey(cx + 1, cz));
-      const rightNormals = right ? getChunkNormalArray(right) : null;
-      if (rightNormals) {
-        mergeBorderNormals({
-          arrayA: source.array,
-          attributeA: source.attr,
-          arrayB: rightNormals.array,
-          attributeB: rightNormals.attr,
-          cw,
-          cd,
-          orientation: 'x',
-        });
-      }
-
-      // Neighbor +Z
-      const far = this.chunks.get(makeKey(cx, cz + 1));
-      const farNormals = far ? getChunkNormalArray(far) : null;
-      if (farNormals) {
-        mergeBorderNormals({
-          arrayA: source.array,
-          attributeA: source.attr,
-          arrayB: farNormals.array,
-          attributeB: farNormals.attr,
-          cw,
-          cd,
-          orientation: 'z',
-        });
-      }
-    }
+  private createChunk(data: ChunkData) {
+    // A level change replaces the chunk that is already loaded here.
+    this.disposeChunk(data.cx, data.cz);
+    const entry = createChunkEntry(data, this.chunkParameters);
+    const key = makeKey(data.cx, data.cz);
+    const chunk = new TerrainChunk(entry);
+    // Data generated before the latest edits catches up with them here.
+    if (this.edits.overlaps(chunk)) reshapeChunk(chunk, this.reshapeOptions());
+    chunk.addTo(this);
+    this.chunks.set(key, chunk);
+    smoothChunkBorders({
+      chunkSize: this.terrainConfig.chunkSize,
+      chunks: this.chunks,
+      cx: data.cx,
+      cz: data.cz,
+      lod: data.lod,
+    });
   }
 
-  private sampleCellHeight(ix: number, iz: number) {
-    // Compute the chunk coordinates directly and perform a keyed lookup
-    const cx = Math.floor(ix / this.chunkSize);
-    const cz = Math.floor(iz / this.chunkSize);
-    const key = makeKey(cx, cz);
-    const chunk = this.chunks.get(key);
-    if (!chunk) return 0;
-    return chunk.sampleCellHeight(ix, iz);
+  /**
+   * Reshapes the loaded chunks among `chunks` after their edits changed. Once
+   * the edits have `settled` the chunks are also generated again, bringing
+   * grass, colours and scattered objects in line with the new ground.
+   */
+  public applyEdits(chunks: [number, number][], settled: boolean) {
+    reshapeChunks(this.chunks, chunks, this.reshapeOptions());
+    if (settled)
+      for (const [cx, cz] of chunks) this.streamer.invalidate(cx, cz);
   }
 
-  private createChunk(cx: number, cz: number) {
-    const parameters: ChunkFactoryParameters = {
-      chunkSize: this.chunkSize,
-      cellSize: this.cellSize,
-      heightScale: this.heightScale,
-      waterLevel: this.waterLevel,
-      seed: this.seed,
-      lacunarity: this.lacunarity,
-      hillOctaves: this.hillOctaves,
-      detailOctaves: this.detailOctaves,
-      hillPersistence: this.hillPersistence,
-      detailPersistence: this.detailPersistence,
-      hillNoiseScale: this.hillNoiseScale,
-      detailNoiseScale: this.detailNoiseScale,
-      hillAmplitude: this.hillAmplitude,
-      detailAmplitude: this.detailAmplitude,
-      elevationExponent: this.elevationExponent,
-      flatThreshold: this.flatThreshold,
-      flatBlend: this.flatBlend,
-      noiseGenerator: this.noiseGenerator,
-      noiseRanges: this.noiseRanges as NoiseRanges,
-      baseTrees: this.baseTrees,
-      treeNoiseOctaves: this.treeNoiseOctaves,
-      treeNoisePersistence: this.treeNoisePersistence,
-      treeNoiseScale: this.treeNoiseScale,
-      maxTreesPerChunk: this.maxTreesPerChunk,
-      maxDaisiesPerChunk: this.maxDaisiesPerChunk,
-      flowerNoiseScale: this.flowerNoiseScale,
-    };
+  // Sculpted deltas over chunk (cx, cz)'s height data, and the paths there.
+  private chunkChanges(cx: number, cz: number): ChunkChanges {
+    const { chunkSize } = this.terrainConfig;
+    const edits = this.edits.sampleGrid({
+      depth: chunkSize + 1,
+      offsetX: cx * chunkSize,
+      offsetZ: cz * chunkSize,
+      width: chunkSize + 1,
+    });
+    return { edits, paths: this.paths.near(cx, cz) };
+  }
 
-    const entry = createChunkEntry(cx, cz, parameters);
-    const key = makeKey(cx, cz);
-    const chunk = new TerrainChunk(entry);
-    chunk.addTo(this);
-    this.chunks.set(key, chunk);
+  private reshapeOptions() {
+    const { cellSize, chunkSize, heightScale } = this.terrainConfig;
+    return { cellSize, chunkSize, edits: this.edits, heightScale };
   }
 
   private disposeChunk(cx: number, cz: number) {
@@ -195,40 +214,26 @@ export class Terrain extends THREE.Group {
 
   public updateChunks(playerX: number, playerZ: number) {
     // Map world coordinates to grid cell coordinates (cell size units)
-    const gx = playerX / this.cellSize;
-    const gz = playerZ / this.cellSize;
-    const centerCX = Math.floor(gx / this.chunkSize);
-    const centerCZ = Math.floor(gz / this.chunkSize);
-
-    const wanted = new Set<string>();
-    const side = this.chunkRadius * 2 + 1;
-    const total = side * side;
-    for (let index = 0; index < total; index += 1) {
-      const dx = (index % side) - this.chunkRadius;
-      const dz = Math.floor(index / side) - this.chunkRadius;
-      const cx = centerCX + dx;
-      const cz = centerCZ + dz;
-      const key = makeKey(cx, cz);
-      wanted.add(key);
-      if (!this.chunks.has(key)) this.createChunk(cx, cz);
-    }
+    const gx = playerX / this.terrainConfig.cellSize;
+    const gz = playerZ / this.terrainConfig.cellSize;
+    const centerCX = Math.floor(gx / this.terrainConfig.chunkSize);
+    const centerCZ = Math.floor(gz / this.terrainConfig.chunkSize);
 
-    // Dispose chunks not wanted
-    for (const key of this.chunks.keys())
-      if (!wanted.has(key)) {
-        const [sx, sz] = key.split(',').map(Number);
-        this.disposeChunk(sx, sz);
-      }
-
-    // After creating/disposing chunks, smooth normals along chunk borders
-    this.smoothChunkBorders();
+    const chunkWorldSize =
+      this.terrainConfig.chunkSize * this.terrainConfig.cellSize;
+    this.horizon?.recenter(
+      (centerCX + 0.5) * chunkWorldSize,
+      (centerCZ + 0.5) * chunkWorldSize,
+    );
+    this.water?.recenter(playerX, playerZ);
+    this.streamer.setCenter(centerCX, centerCZ, this.terrainConfig.chunkRadius);
   }
 
   public updatePlayerPosition(position: THREE.Vector3) {
-    const gx = position.x / this.cellSize;
-    const gz = position.z / this.cellSize;
-    const cx = Math.floor(gx / this.chunkSize);
-    const cz = Math.floor(gz / this.chunkSize);
+    const gx = position.x / this.terrainConfig.cellSize;
+    const gz = position.z / this.terrainConfig.cellSize;
+    const cx = Math.floor(gx / this.terrainConfig.chunkSize);
+    const cz = Math.floor(gz / this.terrainConfig.chunkSize);
     if (this.lastChunkX !== cx || this.lastChunkZ !== cz) {
       this.lastChunkX = cx;
       this.lastChunkZ = cz;
@@ -237,33 +242,59 @@ export class Terrain extends THREE.Group {
   }
 
   public getHeightAt(x: number, z: number) {
-    // Map world coordinates to grid cell coordinates
-    const fx = x / this.cellSize;
-    const fz = z / this.cellSize;
-    const ix = Math.floor(fx);
-    const iz = Math.floor(fz);
-    const tx = fx - ix;
-    const tz = fz - iz;
-    // Do not clamp indices; streaming supports chunks beyond original world bounds.
-    const ix1 = ix;
-    const iz1 = iz;
-    const ix2 = ix + 1;
-    const iz2 = iz + 1;
+    return this.sampler.getHeightAt(x, z);
+  }
 
-    const h11 = this.sampleCellHeight(ix1, iz1) * this.heightScale;
-    const h21 = this.sampleCellHeight(ix2, iz1) * this.heightScale;
-    const h12 = this.sampleCellHeight(ix1, iz2) * this.heightScale;
-    const h22 = this.sampleCellHeight(ix2, iz2) * this.heightScale;
+  public getNormalAt(x: number, z: number, target: THREE.Vector3) {
+    return this.sampler.getNormalAt(x, z, target);
+  }
 
-    const h1 = h11 * (1 - tx) + h21 * tx;
-    const h2 = h12 * (1 - tx) + h22 * tx;
-    return h1 * (1 - tz) + h2 * tz;
+  public getSlopeAt(x: number, z: number) {
+    return this.sampler.getSlopeAt(x, z);
+  }
+
+  // Scene raycasts reach the chunk meshes as children; Terrain adds nothing.
+  public override raycast(
+    raycaster: THREE.Raycaster,
+    intersects: THREE.Intersection[],
+  ): void;
+  // First ground, water or scattered-object hit within `maxDistance`.
+  public override raycast(
+    ray: THREE.Ray,
+    maxDistance: number,
+    options?: Partial<TerrainRaycastOptions>,
+  ): TerrainRaycastHit | null;
+  public override raycast(
+    ray: THREE.Ray | THREE.Raycaster,
+    maxDistance: number | THREE.Intersection[],
+    options?: Partial<TerrainRaycastOptions>,
+  ): TerrainRaycastHit | null {
+    if (ray instanceof THREE.Raycaster || typeof maxDistance !== 'number')
+      return null;
+    return raycastTerrain(
+      ray,
+      maxDistance,
+      {
+        cellSize: this.terrainConfig.cellSize,
+        chunkSize: this.terrainConfig.chunkSize,
+        getChunk: (cx, cz) => this.chunks.get(makeKey(cx, cz)),
+        sampler: this.sampler,
+        waterLevel: this.config.water.level,
+      },
+      { objects: options?.objects ?? false, water: options?.water ?? false },
+    );
   }
 
   update(camera: THREE.Camera, delta: number): void {
     const camPos = new THREE.Vector3();
     camera.getWorldPosition(camPos);
     Grass.updateGlobalUniforms(delta, camPos, this.skyController);
+    const viewDirection = new THREE.Vector3();
+    camera.getWorldDirection(viewDirection);
+    this.streamer.setViewDirection(viewDirection.x, viewDirection.z);
+    this.streamer.update();
+    this.horizon?.update(this.terrainConfig.streamFrameBudget);
+    this.water?.update();
     for (const ch of this.chunks.values()) ch.update(camera);
   }
 }
@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import { TreeSpecies } from './biomes/biome-definitions';
+import { TreePrototype, TreePrototypes } from './tree-prototypes';
+import { composeImpostorMatrix } from './tree-impostors';
+import { TreeBillboardSet, TreeBillboards } from './tree-billboards';
+
+// A tree planted in a chunk.
+export type TreeInstance = {
+  species: TreeSpecies;
+  // Index into the species' prototypes.
+  variant: number;
+  position: THREE.Vector3;
+  scale: number;
+};
+
+/**
+ * A chunk's trees, drawn as one instanced mesh per prototype part up close
+ * and handed to the shared `billboards` from `impostorDistance` away.
+ * Geometry, materials and the impostor atlas are shared between chunks.
+ */
+export class TreeBatch {
+  public readonly object = new THREE.Group();
+  // The full meshes; also what raycasts hit.
+  public readonly near = new THREE.Group();
+  public readonly trees: readonly TreeInstance[];
+  private readonly far: TreeBillboardSet;
+  private readonly billboards: TreeBillboards;
+  private showingFar = false;
+  // The trees each near mesh draws, in instance order.
+  private readonly nearTrees = new Map<THREE.InstancedMesh, TreeInstance[]>();
+  private readonly prototypes: TreePrototypes;
+  private readonly centerX: number;
+  private readonly centerZ: number;
+  private readonly impostorDistance: number;
+
+  constructor(options: {
+    trees: readonly TreeInstance[];
+    prototypes: TreePrototypes;
+    billboards: TreeBillboards;
+    impostorDistance: number;
+    cx: number;
+    cz: number;
+    centerX: number;
+    centerZ: number;
+  }) {
+    const { trees, prototypes, billboards, impostorDistance } = options;
+    const { cx, cz, centerX, centerZ } = options;
+    this.trees = trees;
+    this.prototypes = prototypes;
+    this.billboards = billboards;
+    this.centerX = centerX;
+    this.centerZ = centerZ;
+    this.impostorDistance = impostorDistance;
+
+    const byPrototype = new Map<TreePrototype, TreeInstance[]>();
+    for (const tree of trees) {
+      const prototype = this.prototypeOf(tree);
+      byPrototype.set(prototype, [...(byPrototype.get(prototype) ?? []), tree]);
+    }
+    for (const [prototype, planted] of byPrototype)
+      for (const { geometry, material } of prototype.parts) {
+        const mesh = new THREE.InstancedMesh(
+          geometry,
+          material,
+          planted.length,
+        );
+        this.nearTrees.set(mesh, planted);
+        this.near.add(mesh);
+      }
+
+    this.far = {
+      cx,
+      cz,
+      matrices: new Float32Array(trees.length * 16),
+      rows: Float32Array.from(
+        trees,
+        (tree) => this.prototypeOf(tree).impostorRow,
+      ),
+    };
+    this.place();
+    this.object.add(this.near);
+  }
+
+  /**
+   * Moves every tree up or down by `heightChange` at its position, for
+   * ground that was sculpted under it.
+   */
+  public settle(heightChange: (x: number, z: number) => number) {
+    for (const { position } of this.trees)
+      position.y += heightChange(position.x, position.z);
+    this.place();
+    if (this.showingFar) this.billboards.show(this.far);
+  }
+
+  // Shows the meshes or the billboards by how far the camera is.
+  public update(cameraPosition: THREE.Vector3) {
+    const distance = Math.hypot(
+      cameraPosition.x - this.centerX,
+      cameraPosition.z - this.centerZ,
+    );
+    this.near.visible = distance < this.impostorDistance;
+    if (this.showingFar === !this.near.visible) return;
+    this.showingFar = !this.near.visible;
+    if (this.showingFar) this.billboards.show(this.far);
+    else this.billboards.hide(this.far);
+  }
+
+  // A standalone copy of tree `index`, for export.
+  public treeObject(index: number) {
+    const tree = this.trees[index];
+    const copy = new THREE.Group();
+    for (const { geometry, material } of this.prototypeOf(tree).parts)
+      copy.add(new THREE.Mesh(geometry, material));
+    copy.position.copy(tree.position);
+    copy.scale.setScalar(tree.scale);
+    return copy;
+  }
+
+  // Frees the per-chunk instance buffers; shared resources stay.
+  public dispose(parent: THREE.Object3D) {
+    parent.remove(this.object);
+    for (const child of this.near.children)
+      (child as THREE.InstancedMesh).dispose();
+    this.billboards.hide(this.far);
+  }
+
+  private prototypeOf(tree: TreeInstance) {
+    return this.prototypes[tree.species][tree.variant];
+  }
+
+  // Writes every instance matrix, near and far, from the trees' positions.
+  private place() {
+    const matrix = new THREE.Matrix4();
+    for (const [mesh, planted] of this.nearTrees) {
+      for (const [index, tree] of planted.entries())
+        mesh.setMatrixAt(index, treeMatrix(tree, matrix));
+      mesh.instanceMatrix.needsUpdate = true;
+      mesh.computeBoundingSphere();
+    }
+    for (const [index, tree] of this.trees.entries())
+      composeImpostorMatrix({
+        position: tree.position,
+        prototype: this.prototypeOf(tree),
+        scale: tree.scale,
+        target: matrix,
+      }).toArray(this.far.matrices, index * 16);
+  }
+}
+
+function treeMatrix(tree: TreeInstance, target: THREE.Matrix4) {
+  return target
+    .makeScale(tree.scale, tree.scale, tree.scale)
+    .setPosition(tree.position);
+}
@@ -0,0 +1,111 @@
+import * as THREE from 'three';
+import { TreeImpostors } from './tree-impostors';
+import { makeKey } from './terrain-utilities';
+
+// Chunks per side of a block whose billboards share one mesh.
+const BLOCK_CHUNKS = 4;
+
+// One chunk's billboards: an instance matrix and an atlas row per tree.
+export type TreeBillboardSet = {
+  cx: number;
+  cz: number;
+  matrices: Float32Array;
+  rows: Float32Array;
+};
+
+type BillboardBlock = {
+  mesh: THREE.InstancedMesh;
+  sets: Set<TreeBillboardSet>;
+};
+
+/**
+ * The billboards of every chunk whose trees are seen from afar, merged into
+ * one instanced mesh per block of `BLOCK_CHUNKS` by `BLOCK_CHUNKS` chunks.
+ * Distant forests then cost a draw call per block in view, and blocks out of
+ * view are culled whole. A block is rebuilt when a chunk in it shows or
+ * hides its billboards, which takes a copy of its trees' matrices.
+ */
+export class TreeBillboards {
+  public readonly object = new THREE.Group();
+  private readonly impostors: TreeImpostors;
+  private readonly blocks = new Map<string, BillboardBlock>();
+
+  constructor(impostors: TreeImpostors) {
+    this.impostors = impostors;
+  }
+
+  public show(set: TreeBillboardSet) {
+    const key = blockKey(set);
+    let block = this.blocks.get(key);
+    if (!block) {
+      block = { mesh: this.createMesh(0), sets: new Set() };
+      this.blocks.set(key, block);
+      this.object.add(block.mesh);
+    }
+    block.sets.add(set);
+    this.rebuild(block);
+  }
+
+  public hide(set: TreeBillboardSet) {
+    const key = blockKey(set);
+    const block = this.blocks.get(key);
+    if (!block?.sets.delete(set)) return;
+    if (block.sets.size > 0) {
+      this.rebuild(block);
+      return;
+    }
+    this.blocks.delete(key);
+    this.object.remove(block.mesh);
+    disposeMesh(block.mesh);
+  }
+
+  // Billboards need a row attribute of their own, so a copy of the quad.
+  private createMesh(capacity: number) {
+    const geometry = this.impostors.geometry.clone();
+    geometry.setAttribute(
+      'impostorRow',
+      new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1),
+    );
+    return new THREE.InstancedMesh(geometry, this.impostors.material, capacity);
+  }
+
+  // The block's mesh, replaced by a larger one if `count` does not fit.
+  private fit(block: BillboardBlock, count: number) {
+    if (count <= block.mesh.instanceMatrix.count) return block.mesh;
+    // Room to grow, so chunks coming and going rarely reallocate.
+    const mesh = this.createMesh(2 ** Math.ceil(Math.log2(count)));
+    this.object.remove(block.mesh);
+    disposeMesh(block.mesh);
+    this.object.add(mesh);
+    block.mesh = mesh;
+    return mesh;
+  }
+
+  private rebuild(block: BillboardBlock) {
+    const { sets } = block;
+    let count = 0;
+    for (const { rows } of sets) count += rows.length;
+    const mesh = this.fit(block, count);
+    const rowAttribute = mesh.geometry.getAttribute('impostorRow');
+    let index = 0;
+    for (const { matrices, rows } of sets) {
+      mesh.instanceMatrix.array.set(matrices, index * 16);
+      (rowAttribute.array as Float32Array).set(rows, index);
+      index += rows.length;
+    }
+    mesh.count = count;
+    mesh.instanceMatrix.needsUpdate = true;
+    rowAttribute.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }
+}
+
+function blockKey({ cx, cz }: TreeBillboardSet) {
+  return makeKey(Math.floor(cx / BLOCK_CHUNKS), Math.floor(cz / BLOCK_CHUNKS));
+}
+
+// Frees the block's buffers; the quad's source and the material are shared.
+function disposeMesh(mesh: THREE.InstancedMesh) {
+  mesh.geometry.dispose();
+  mesh.dispose();
+}
@@ -0,0 +1,188 @@
+import * as THREE from 'three';
+import { TreePrototype } from './tree-prototypes';
+
+// Views baked around each tree, evenly spaced in azimuth.
+export const IMPOSTOR_VIEWS = 8;
+
+// Texels per side of each baked view.
+const IMPOSTOR_TILE_SIZE = 128;
+
+const impostorVertexHead = `
+attribute float impostorRow;
+varying vec2 vImpostorUv0;
+varying vec2 vImpostorUv1;
+varying float vImpostorBlend;
+`;
+
+/**
+ * Turns the unit quad to face the camera about the vertical axis and picks
+ * the two baked views either side of the camera's bearing. The instance
+ * matrix carries the billboard's width and height as its scale.
+ */
+const impostorVertexSetup = `
+#include <beginnormal_vertex>
+vec3 impostorCentre = (modelMatrix * instanceMatrix * vec4(vec3(0.0), 1.0)).xyz;
+vec2 impostorSize = vec2(length(instanceMatrix[0].xyz), length(instanceMatrix[1].xyz));
+vec2 toCamera = normalize(cameraPosition.xz - impostorCentre.xz + vec2(1e-4, 0.0));
+vec3 impostorRight = vec3(toCamera.y, 0.0, -toCamera.x);
+// Lit like a rounded crown: half up, half towards the camera. Pre-scaled,
+// as instancing divides normals by the instance scale.
+objectNormal = normalize(vec3(toCamera.x, 1.0, toCamera.y))
+  * impostorSize.xyx;
+float impostorBearing = atan(toCamera.x, toCamera.y) / PI2 * IMPOSTOR_VIEWS;
+float impostorView = floor(impostorBearing);
+vImpostorBlend = impostorBearing - impostorView;
+vec2 impostorTile = vec2(1.0 / IMPOSTOR_VIEWS, 1.0 / IMPOSTOR_ROWS);
+vImpostorUv0 = (vec2(mod(impostorView, IMPOSTOR_VIEWS), impostorRow) + uv) * impostorTile;
+vImpostorUv1 = (vec2(mod(impostorView + 1.0, IMPOSTOR_VIEWS), impostorRow) + uv) * impostorTile;
+`;
+
+const impostorProjection = `
+vec3 impostorCorner = impostorCentre
+  + impostorRight * position.x * impostorSize.x
+  + vec3(0.0, position.y * impostorSize.y, 0.0);
+vec4 mvPosition = viewMatrix * vec4(impostorCorner, 1.0);
+gl_Position = projectionMatrix * mvPosition;
+`;
+
+const impostorFragmentHead = `
+varying vec2 vImpostorUv0;
+varying vec2 vImpostorUv1;
+varying float vImpostorBlend;
+`;
+
+const impostorMap = `
+diffuseColor *= mix(
+  texture2D(map, vImpostorUv0),
+  texture2D(map, vImpostorUv1),
+  vImpostorBlend
+);
+`;
+
+/**
+ * Billboards for distant trees. Every prototype is rendered once from
+ * `IMPOSTOR_VIEWS` bearings into an atlas, one row per prototype, under
+ * flat white light so the atlas holds plain albedo; the billboards are then
+ * lit by the scene like any other mesh.
+ */
+export class TreeImpostors {
+  // Unit quad standing on its bottom edge, scaled per instance.
+  public readonly geometry: THREE.PlaneGeometry;
+  public readonly material: THREE.MeshLambertMaterial;
+  private readonly target: THREE.WebGLRenderTarget;
+
+  constructor(options: {
+    prototypes: readonly TreePrototype[];
+    renderer: THREE.WebGLRenderer;
+  }) {
+    const { prototypes, renderer } = options;
+    const rows = Math.max(1, prototypes.length);
+    this.target = new THREE.WebGLRenderTarget(
+      IMPOSTOR_TILE_SIZE * IMPOSTOR_VIEWS,
+      IMPOSTOR_TILE_SIZE * rows,
+      { generateMipmaps: true, minFilter: THREE.LinearMipmapLinearFilter },
+    );
+    this.geometry = new THREE.PlaneGeometry(1, 1);
+    this.geometry.translate(0, 0.5, 0);
+    this.material = new THREE.MeshLambertMaterial({
+      alphaTest: 0.5,
+      map: this.target.texture,
+    });
+    this.material.defines = {
+      IMPOSTOR_ROWS: rows.toFixed(1),
+      IMPOSTOR_VIEWS: IMPOSTOR_VIEWS.toFixed(1),
+    };
+    this.material.onBeforeCompile = (shader) => {
+      shader.vertexShader = (impostorVertexHead + shader.vertexShader)
+        .replace('#include <beginnormal_vertex>', impostorVertexSetup)
+        .replace('#include <project_vertex>', impostorProjection);
+      shader.fragmentShader = (
+        impostorFragmentHead + shader.fragmentShader
+      ).replace('#include <map_fragment>', impostorMap);
+    };
+    this.bake(renderer, prototypes);
+  }
+
+  public dispose() {
+    this.geometry.dispose();
+    this.material.dispose();
+    this.target.dispose();
+  }
+
+  private bake(
+    renderer: THREE.WebGLRenderer,
+    prototypes: readonly TreePrototype[],
+  ) {
+    const scene = new THREE.Scene();
+    // Diffuse shading divides by pi; this much ambient light gives back albedo.
+    scene.add(new THREE.AmbientLight('#ffffff', Math.PI));
+    const camera = new THREE.OrthographicCamera();
+    const previousTarget = renderer.getRenderTarget();
+    const previousColor = renderer.getClearColor(new THREE.Color());
+    const previousAlpha = renderer.getClearAlpha();
+    renderer.setClearColor('#000000', 0);
+    this.target.scissorTest = true;
+    for (const prototype of prototypes) {
+      const tree = new THREE.Group();
+      for (const { geometry, material } of prototype.parts)
+        tree.add(new THREE.Mesh(geometry, material));
+      scene.add(tree);
+      const { width, bottom, height } = impostorFrame(prototype);
+      Object.assign(camera, {
+        bottom,
+        far: width * 2,
+        left: -width / 2,
+        near: 0,
+        right: width / 2,
+        top: bottom + height,
+      });
+      camera.updateProjectionMatrix();
+      for (let view = 0; view < IMPOSTOR_VIEWS; view += 1) {
+        const bearing = (view / IMPOSTOR_VIEWS) * Math.PI * 2;
+        camera.position.set(
+          Math.sin(bearing) * width,
+          0,
+          Math.cos(bearing) * width,
+        );
+        camera.lookAt(0, 0, 0);
+        const x = view * IMPOSTOR_TILE_SIZE;
+        const y = prototype.impostorRow * IMPOSTOR_TILE_SIZE;
+        this.target.viewport.set(x, y, IMPOSTOR_TILE_SIZE, IMPOSTOR_TILE_SIZE);
+        this.target.scissor.copy(this.target.viewport);
+        renderer.setRenderTarget(this.target);
+        renderer.render(scene, camera);
+      }
+      scene.remove(tree);
+    }
+    this.target.scissorTest = false;
+    renderer.setRenderTarget(previousTarget);
+    renderer.setClearColor(previousColor, previousAlpha);
+  }
+}
+
+/**
+ * Instance matrix for a billboard of `prototype` standing at `position`,
+ * grown by `scale` like the tree it stands in for.
+ */
+export function composeImpostorMatrix(options: {
+  prototype: TreePrototype;
+  position: THREE.Vector3;
+  scale: number;
+  target: THREE.Matrix4;
+}) {
+  const { prototype, position, scale, target } = options;
+  const { width, bottom, height } = impostorFrame(prototype);
+  return target
+    .makeScale(width * scale, height * scale, width * scale)
+    .setPosition(position.x, position.y + bottom * scale, position.z);
+}
+
+/**
+ * Size of the billboard that covers `prototype` from any bearing: as wide
+ * as its crown is across at the widest, from its lowest point to its top.
+ */
+function impostorFrame(prototype: TreePrototype) {
+  const { min, max } = prototype.bounds;
+  const reach = Math.hypot(Math.max(-min.x, max.x), Math.max(-min.z, max.z));
+  return { bottom: min.y, height: max.y - min.y, width: reach * 2 };
+}
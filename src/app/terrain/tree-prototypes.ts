@@ -0,0 +1,90 @@
+import * as THREE from 'three';
+import { Tree } from '@dgreenheck/ez-tree';
+import { RandomLayer, createChunkRandom } from '../random';
+import { TreeSpecies, treeSpecies } from './biomes/biome-definitions';
+import { applyTreeOptions, treeSpeciesDefinitions } from './tree-species';
+import { TreeImpostors } from './tree-impostors';
+import { TreeBillboards } from './tree-billboards';
+
+// One mesh of a generated tree, shared by every instance of it.
+export type TreePart = {
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material | THREE.Material[];
+};
+
+export type TreePrototype = {
+  parts: TreePart[];
+  // Box around the tree in its own space, trunk base at the origin.
+  bounds: THREE.Box3;
+  // Row of the tree's views in the impostor atlas.
+  impostorRow: number;
+};
+
+export type TreePrototypes = Record<TreeSpecies, TreePrototype[]>;
+
+// What chunks plant their trees from, made once per world.
+export type TreeResources = {
+  treePrototypes: TreePrototypes;
+  treeImpostors: TreeImpostors;
+  // Where chunks hand their distant trees; the terrain adds it to the scene.
+  treeBillboards: TreeBillboards;
+};
+
+/**
+ * Pre-generate a small pool of trees per species for the chunks to instance.
+ * The pool size is shared out evenly; every species gets at least one.
+ */
+function createTreePrototypes(options: {
+  seed: number;
+  poolSize: number;
+}): TreePrototypes {
+  const { seed, poolSize } = options;
+  const random = createChunkRandom(seed, 0, 0, RandomLayer.treePrototypes);
+  const perSpecies =
+    poolSize > 0 ? Math.ceil(poolSize / treeSpecies.length) : 0;
+  const prototypes = Object.fromEntries(
+    treeSpecies.map((species) => [species, [] as TreePrototype[]]),
+  ) as TreePrototypes;
+  let impostorRow = 0;
+  for (const species of treeSpecies) {
+    const { preset, options: overrides } = treeSpeciesDefinitions[species];
+    for (let index = 0; index < perSpecies; index += 1) {
+      const tree = new Tree();
+      tree.loadPreset(preset);
+      applyTreeOptions(tree.options, overrides);
+      tree.options.seed = random() * 12_345;
+      tree.generate();
+      prototypes[species].push({
+        bounds: new THREE.Box3().setFromObject(tree),
+        impostorRow,
+        parts: [tree.branchesMesh, tree.leavesMesh].map(
+          ({ geometry, material }) => ({ geometry, material }),
+        ),
+      });
+      impostorRow += 1;
+    }
+  }
+  return prototypes;
+}
+
+/**
+ * Generates the tree prototypes and bakes their impostors with `renderer`,
+ * one atlas row per prototype in creation order.
+ */
+export function createTreeResources(options: {
+  seed: number;
+  poolSize: number;
+  renderer: THREE.WebGLRenderer;
+}): TreeResources {
+  const { seed, poolSize, renderer } = options;
+  const treePrototypes = createTreePrototypes({ poolSize, seed });
+  const treeImpostors = new TreeImpostors({
+    prototypes: treeSpecies.flatMap((species) => treePrototypes[species]),
+    renderer,
+  });
+  return {
+    treeBillboards: new TreeBillboards(treeImpostors),
+    treeImpostors,
+    treePrototypes,
+  };
+}
@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+import { TreeSpecies } from './biomes/biome-definitions';
+
+// Nested ez-tree `TreeOptions` values, set over a preset.
+export type TreeOptionOverrides = {
+  [key: string]: number | string | boolean | TreeOptionOverrides;
+};
+
+export type TreeSpeciesDefinition = {
+  // Built-in ez-tree preset the species starts from.
+  preset: string;
+  // Options changed from the preset; nested groups are merged, not replaced.
+  options: TreeOptionOverrides;
+  // Chance that a spot picked for the species gets a tree, 0..1.
+  density: number;
+  // Range of the uniform scale a tree is planted at.
+  scale: [number, number];
+  // Heights above the water line it grows between, in world units.
+  altitude: [number, number];
+  // Steepest ground it grows on, in radians.
+  maxSlope: number;
+  // Distances from the nearest sea, river or lake it grows between.
+  waterDistance: [number, number];
+};
+
+// Where a tree would stand.
+export type TreeSite = {
+  altitude: number;
+  slope: number;
+  waterDistance: number;
+};
+
+export const treeSpeciesDefinitions: Record<
+  TreeSpecies,
+  TreeSpeciesDefinition
+> = {
+  birch: {
+    altitude: [12, 110],
+    density: 0.7,
+    maxSlope: 0.5,
+    options: {
+      bark: { tint: new THREE.Color('#ffffff').getHex(), type: 'birch' },
+      leaves: { tint: new THREE.Color('#e4f4a8').getHex(), type: 'aspen' },
+    },
+    preset: 'Aspen Medium',
+    scale: [0.7, 1.1],
+    // Birches keep to the banks.
+    waterDistance: [0, 60],
+  },
+  deadTree: {
+    altitude: [20, Infinity],
+    density: 0.35,
+    maxSlope: 0.8,
+    options: {
+      bark: { tint: new THREE.Color('#a39a90').getHex() },
+      branch: { gnarliness: { 1: 0.3, 2: 0.4, 3: 0.1 }, levels: 2 },
+      leaves: { count: 0 },
+    },
+    preset: 'Oak Small',
+    scale: [0.6, 1],
+    waterDistance: [40, Infinity],
+  },
+  oak: {
+    altitude: [12, 80],
+    density: 0.9,
+    maxSlope: 0.45,
+    options: { leaves: { tint: new THREE.Color('#d8ecb8').getHex() } },
+    preset: 'Oak Medium',
+    scale: [0.8, 1.3],
+    waterDistance: [0, Infinity],
+  },
+  pine: {
+    altitude: [30, Infinity],
+    density: 0.8,
+    maxSlope: 0.7,
+    options: { leaves: { tint: new THREE.Color('#c4dcc4').getHex() } },
+    preset: 'Pine Medium',
+    scale: [0.7, 1.4],
+    waterDistance: [0, Infinity],
+  },
+  shrub: {
+    altitude: [12, Infinity],
+    density: 1,
+    maxSlope: 0.6,
+    options: {},
+    preset: 'Bush 1',
+    scale: [0.6, 1.4],
+    waterDistance: [0, Infinity],
+  },
+};
+
+export function suitsTreeSpecies(species: TreeSpecies, site: TreeSite) {
+  const { altitude, maxSlope, waterDistance } = treeSpeciesDefinitions[species];
+  return (
+    site.altitude >= altitude[0] &&
+    site.altitude <= altitude[1] &&
+    site.slope <= maxSlope &&
+    site.waterDistance >= waterDistance[0] &&
+    site.waterDistance <= waterDistance[1]
+  );
+}
+
+// Writes `overrides` into ez-tree options, recursing into nested groups.
+export function applyTreeOptions(
+  target: object,
+  overrides: TreeOptionOverrides,
+) {
+  const options = target as Record<string, unknown>;
+  for (const [key, value] of Object.entries(overrides)) {
+    const current = options[key];
+    if (typeof value === 'object' && typeof current === 'object' && current)
+      applyTreeOptions(current, value);
+    else options[key] = value;
+  }
+}
@@ -0,0 +1,27 @@
+import * as THREE from 'three';
+import { TreeResources, createTreeResources } from './tree-prototypes';
+import { FlowerModels } from './flowers/flower-models';
+
+// The shared models every chunk draws its trees, flowers and rocks with.
+export type VegetationResources = TreeResources & {
+  flowerModels: FlowerModels;
+};
+
+export function createVegetationResources(options: {
+  seed: number;
+  poolSize: number;
+  flowerFadeDistance: number;
+  // Asset URLs preloading could not fetch.
+  missingAssets: ReadonlySet<string>;
+  renderer: THREE.WebGLRenderer;
+}): VegetationResources {
+  const { seed, poolSize, flowerFadeDistance, missingAssets, renderer } =
+    options;
+  return {
+    ...createTreeResources({ poolSize, renderer, seed }),
+    flowerModels: new FlowerModels({
+      fadeDistance: flowerFadeDistance,
+      missing: missingAssets,
+    }),
+  };
+}
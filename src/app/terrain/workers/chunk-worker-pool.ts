@@ -0,0 +1,192 @@
+import {
+  ChunkChanges,
+  ChunkData,
+  ChunkGenerationContext,
+  ChunkGenerationParameters,
+  generateChunkData,
+} from '../terrain-chunk-generator';
+import { createChunkGenerationContext } from '../terrain-chunk-context';
+
+export type ChunkWorkerRequest =
+  | { type: 'init'; parameters: ChunkGenerationParameters }
+  | {
+      type: 'generate';
+      id: number;
+      cx: number;
+      cz: number;
+      lod: number;
+      changes: ChunkChanges;
+    };
+
+export type ChunkWorkerResponse =
+  { id: number; data: ChunkData } | { id: number; error: string };
+
+type ChunkJob = {
+  id: number;
+  cx: number;
+  cz: number;
+  lod: number;
+  signal: AbortSignal;
+  resolve: (data: ChunkData) => void;
+  reject: (error: unknown) => void;
+};
+
+function abortError() {
+  return new DOMException('Chunk request aborted', 'AbortError');
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Fixed pool of chunk workers. Requests queue FIFO; aborting a queued request
+ * drops it, aborting a running one discards its result when it arrives.
+ */
+export class ChunkWorkerPool {
+  private readonly workers: Worker[] = [];
+  private readonly idle: Worker[] = [];
+  private readonly running = new Map<Worker, ChunkJob>();
+  private queue: ChunkJob[] = [];
+  private nextId = 1;
+  // Main-thread fallback when workers are unavailable (e.g. file:// loads).
+  private readonly fallback: ChunkGenerationContext | null = null;
+  // Edits and paths over a chunk, read when its job starts.
+  private readonly changesFor: (cx: number, cz: number) => ChunkChanges;
+
+  constructor(
+    parameters: ChunkGenerationParameters,
+    size: number,
+    changesFor: (cx: number, cz: number) => ChunkChanges,
+  ) {
+    this.changesFor = changesFor;
+    if (typeof Worker === 'undefined') {
+      this.fallback = createChunkGenerationContext(parameters);
+      return;
+    }
+    for (let index = 0; index < size; index += 1) {
+      const worker = new Worker(
+        new URL('terrain-chunk-worker.ts', import.meta.url),
+        { type: 'module' },
+      );
+      worker.addEventListener('message', (event) => {
+        this.onMessage(worker, event.data as ChunkWorkerResponse);
+      });
+      // Uncaught worker errors and undecodable replies fail the running job.
+      worker.addEventListener('error', (event) => {
+        event.preventDefault();
+        this.onFailure(worker, new Error(event.message));
+      });
+      worker.addEventListener('messageerror', () => {
+        this.onFailure(worker, new Error('Chunk worker reply not decodable'));
+      });
+      const init: ChunkWorkerRequest = { parameters, type: 'init' };
+      worker.postMessage(init, []);
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  get pendingCount() {
+    return this.queue.length + this.running.size;
+  }
+
+  request(
+    cx: number,
+    cz: number,
+    lod: number,
+    signal: AbortSignal,
+  ): Promise<ChunkData> {
+    if (signal.aborted) return Promise.reject(abortError());
+    return new Promise<ChunkData>((resolve, reject) => {
+      const job: ChunkJob = {
+        cx,
+        cz,
+        id: this.nextId,
+        lod,
+        reject,
+        resolve,
+        signal,
+      };
+      this.nextId += 1;
+      signal.addEventListener(
+        'abort',
+        () => {
+          if (!this.queue.includes(job)) return;
+          this.queue = this.queue.filter((queued) => queued !== job);
+          reject(abortError());
+        },
+        { once: true },
+      );
+      this.queue.push(job);
+      this.pump();
+    });
+  }
+
+  dispose() {
+    for (const worker of this.workers) worker.terminate();
+    for (const job of [...this.queue, ...this.running.values()])
+      job.reject(abortError());
+    this.queue = [];
+    this.running.clear();
+  }
+
+  private pump() {
+    if (this.fallback) {
+      const job = this.queue.shift();
+      if (!job) return;
+      const { fallback } = this;
+      const { signal, cx, cz, lod, resolve, reject } = job;
+      setTimeout(() => {
+        if (signal.aborted) {
+          reject(abortError());
+        } else {
+          try {
+            const changes = this.changesFor(cx, cz);
+            resolve(generateChunkData(cx, cz, lod, fallback, changes));
+          } catch (error) {
+            reject(error);
+          }
+        }
+        this.pump();
+      }, 0);
+      return;
+    }
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop();
+      const job = this.queue.shift();
+      if (!worker || !job) break;
+      this.running.set(worker, job);
+      const message: ChunkWorkerRequest = {
+        changes: this.changesFor(job.cx, job.cz),
+        cx: job.cx,
+        cz: job.cz,
+        id: job.id,
+        lod: job.lod,
+        type: 'generate',
+      };
+      worker.postMessage(message, []);
+    }
+  }
+
+  private onMessage(worker: Worker, response: ChunkWorkerResponse) {
+    const job = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+    if (job?.id === response.id) {
+      if (job.signal.aborted) job.reject(abortError());
+      else if ('error' in response) job.reject(new Error(response.error));
+      else job.resolve(response.data);
+    }
+    this.pump();
+  }
+
+  private onFailure(worker: Worker, error: Error) {
+    const job = this.running.get(worker);
+    if (!job) return;
+    this.running.delete(worker);
+    this.idle.push(worker);
+    job.reject(job.signal.aborted ? abortError() : error);
+    this.pump();
+  }
+}
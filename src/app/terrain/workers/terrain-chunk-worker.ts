@@ -0,0 +1,45 @@
+import {
+  ChunkGenerationContext,
+  generateChunkData,
+  getChunkDataTransferables,
+} from '../terrain-chunk-generator';
+import { createChunkGenerationContext } from '../terrain-chunk-context';
+import { ChunkWorkerRequest, ChunkWorkerResponse } from './chunk-worker-pool';
+
+// Dedicated worker scope; the DOM lib types globalThis as Window.
+type WorkerScope = {
+  addEventListener: (
+    type: 'message',
+    listener: (event: MessageEvent<ChunkWorkerRequest>) => void,
+  ) => void;
+  postMessage: (message: ChunkWorkerResponse, transfer: Transferable[]) => void;
+};
+
+const scope = globalThis as unknown as WorkerScope;
+let context: ChunkGenerationContext | null = null;
+
+scope.addEventListener('message', (event) => {
+  const request = event.data;
+  if (request.type === 'init') {
+    context = createChunkGenerationContext(request.parameters);
+    return;
+  }
+  if (!context) {
+    const response: ChunkWorkerResponse = {
+      error: 'Chunk worker used before init',
+      id: request.id,
+    };
+    scope.postMessage(response, []);
+    return;
+  }
+  const { id, cx, cz, lod, changes } = request;
+  try {
+    const data = generateChunkData(cx, cz, lod, context, changes);
+    const response: ChunkWorkerResponse = { data, id };
+    scope.postMessage(response, getChunkDataTransferables(data));
+  } catch (error) {
+    // Reported back so the pool frees this worker and the request settles.
+    const response: ChunkWorkerResponse = { error: String(error), id };
+    scope.postMessage(response, []);
+  }
+});
@@ -1,4 +1,47 @@
+import { resolveWorldConfig } from './app/config/world-config-loader';
+import { resolveWorldSave } from './app/save/world-save-loader';
+import { SaveStore } from './app/save/save-store';
+import { loadHeightGrid } from './app/terrain/height-sources/heightmap-loader';
 import { startApp } from './app/app';
+import {
+  assetManifest,
+  validateAssetManifest,
+} from './app/assets/asset-manifest';
+import { preloadAssets } from './app/assets/asset-preloader';
+import { LoadingScreen } from './app/assets/loading-screen';
 
 const container = document.getElementById('app') as HTMLDivElement;
-startApp(container);
+const loading = new LoadingScreen({
+  bar: document.querySelector<HTMLProgressElement>('#loading-bar'),
+  element: document.getElementById('loading'),
+  notice: document.getElementById('startup-notice'),
+  status: document.getElementById('loading-status'),
+});
+try {
+  validateAssetManifest(assetManifest);
+  const preloading = preloadAssets({
+    manifest: assetManifest,
+    onProgress: (loaded, total) => {
+      loading.progress(loaded, total);
+    },
+  });
+  const parameters = new URLSearchParams(globalThis.location.search);
+  const store = new SaveStore();
+  // A save that can't be resumed must not keep the app from starting.
+  const { save, warning } = await resolveWorldSave(parameters, store).catch(
+    (error: unknown) => ({
+      save: null,
+      warning: `Could not read saved worlds (${String(error)}); started a new world`,
+    }),
+  );
+  if (warning) loading.warn(warning);
+  const config = save ? save.config : await resolveWorldConfig(parameters);
+  const heightGrid = await loadHeightGrid(config.heightmap);
+  const assets = await preloading;
+  startApp(container, config, { assets, heightGrid, save, store });
+  loading.hide();
+} catch (error) {
+  // Left on the overlay, which would otherwise sit at its last progress.
+  loading.fail(`Could not start the world: ${String(error)}`);
+  throw error;
+}